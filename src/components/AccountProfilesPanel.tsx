@@ -0,0 +1,89 @@
+import React, { useCallback } from "react";
+import { motion } from "framer-motion";
+import { IdCard, Play, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AccountProfile } from "@/lib/types";
+import { parseAccountProfiles } from "@/lib/accountProfiles";
+import { useToast } from "@/hooks/use-toast";
+
+interface AccountProfilesPanelProps {
+  profiles: AccountProfile[];
+  onChange: (profiles: AccountProfile[]) => void;
+  disabled?: boolean;
+  // Shown as a re-run button once a dataset is loaded
+  onApply?: () => void;
+}
+
+const AccountProfilesPanel: React.FC<AccountProfilesPanelProps> = ({ profiles, onChange, disabled, onApply }) => {
+  const { toast } = useToast();
+  const withIncome = profiles.filter((p) => p.declared_income !== undefined).length;
+  const withOpening = profiles.filter((p) => p.opened_at).length;
+  const highRisk = profiles.filter((p) => p.risk_rating === "high").length;
+
+  const handleProfileFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const next = await parseAccountProfiles(file);
+        onChange(next);
+        toast({ title: "Account Profiles Loaded", description: `${next.length} accounts from ${file.name}.` });
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: (err as Error).message || "Failed to read account profile file",
+          variant: "destructive",
+        });
+      }
+    },
+    [onChange, toast]
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg p-4 flex items-center justify-between flex-wrap gap-4"
+    >
+      <div className="flex items-center gap-2">
+        <IdCard className="w-4 h-4 text-primary" />
+        <div>
+          <p className="text-sm font-semibold text-foreground">Account Profiles</p>
+          <p className="text-[11px] text-muted-foreground">
+            {profiles.length > 0
+              ? `${profiles.length} accounts • ${withOpening} with opening date • ${withIncome} with declared income • ${highRisk} high risk`
+              : "Customer master: opened_at, customer_type, declared_income, country, risk_rating"}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        {profiles.length > 0 ? (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onChange([])} disabled={disabled}>
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2 text-xs"
+            onClick={() => document.getElementById("profile-upload")?.click()}
+            disabled={disabled}
+          >
+            <Upload className="w-3.5 h-3.5" />
+            Profile File (account_id, …)
+          </Button>
+        )}
+        {onApply && (
+          <Button size="sm" onClick={onApply} disabled={disabled} className="gap-2 text-xs">
+            <Play className="w-3.5 h-3.5" />
+            Re-run Analysis
+          </Button>
+        )}
+        <input id="profile-upload" type="file" accept=".csv" className="hidden" onChange={handleProfileFile} />
+      </div>
+    </motion.div>
+  );
+};
+
+export default AccountProfilesPanel;
@@ -0,0 +1,63 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AnalysisProgress } from "@/lib/types";
+import { getAnalysisStages } from "@/lib/graphAnalysis";
+
+interface AnalysisProgressPanelProps {
+  // Latest progress per stage id
+  stages: Record<string, AnalysisProgress>;
+  onCancel: () => void;
+}
+
+const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ stages, onCancel }) => {
+  const analysisStages = getAnalysisStages();
+  const completed = analysisStages.filter((s) => stages[s.id]?.done).length;
+  const overall = (completed / analysisStages.length) * 100;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-card border border-border rounded-lg p-6 space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Running Detection Pipeline</h3>
+          <p className="text-[11px] text-muted-foreground font-mono">
+            {completed} of {analysisStages.length} stages complete
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onCancel} className="gap-2 text-xs">
+          <X className="w-3.5 h-3.5" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={overall} className="h-2" />
+      <div className="grid sm:grid-cols-3 gap-2">
+        {analysisStages.map((s) => {
+          const p = stages[s.id];
+          return (
+            <div key={s.id} className="flex items-center gap-2 text-xs font-mono">
+              {p?.done ? (
+                <Check className="w-3.5 h-3.5 text-success" />
+              ) : p ? (
+                <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" />
+              ) : (
+                <div className="w-3.5 h-3.5 rounded-full border border-border" />
+              )}
+              <span className={p ? "text-foreground" : "text-muted-foreground"}>{s.label}</span>
+              <span className="text-muted-foreground ml-auto">
+                {p?.done ? "done" : p ? `${p.percent}%` : ""}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default AnalysisProgressPanel;
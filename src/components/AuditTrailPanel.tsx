@@ -0,0 +1,64 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { History } from "lucide-react";
+import { AuditEntry } from "@/lib/types";
+import { getDispositionLabel } from "@/lib/disposition";
+
+interface AuditTrailPanelProps {
+  entries: AuditEntry[];
+}
+
+const AuditTrailPanel: React.FC<AuditTrailPanelProps> = ({ entries }) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg overflow-hidden"
+    >
+      <div className="p-4 border-b border-border flex items-center gap-2">
+        <History className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-semibold text-foreground">Audit Trail</h3>
+        <span className="text-[11px] text-muted-foreground font-mono">{entries.length} changes</span>
+      </div>
+      <div className="overflow-x-auto max-h-72 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-card z-10">
+            <tr className="border-b border-border bg-muted/30">
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">When</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Analyst</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Account</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Change</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Assignee</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Note</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...entries].reverse().map((e) => (
+              <tr key={`${e.account_id}-${e.timestamp}`} className="border-b border-border/50">
+                <td className="p-3 font-mono text-xs text-muted-foreground whitespace-nowrap">
+                  {new Date(e.timestamp).toLocaleString()}
+                </td>
+                <td className="p-3 text-xs text-foreground">{e.actor}</td>
+                <td className="p-3 font-mono text-xs text-primary">{e.account_id}</td>
+                <td className="p-3 text-xs text-foreground whitespace-nowrap">
+                  {getDispositionLabel(e.from_state)} → {getDispositionLabel(e.to_state)}
+                </td>
+                <td className="p-3 text-xs text-muted-foreground">{e.assignee}</td>
+                <td className="p-3 text-xs text-muted-foreground max-w-xs">{e.note}</td>
+              </tr>
+            ))}
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                  No dispositions recorded yet
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+};
+
+export default AuditTrailPanel;
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Columns3, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ColumnMapping, CSVPreview, MappingProfile, TransactionField } from "@/lib/types";
+import {
+  TRANSACTION_FIELDS,
+  guessColumnMapping,
+  isMappingComplete,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  findMatchingProfile,
+} from "@/lib/columnMapping";
+
+// Radix Select items cannot use an empty value, so optional fields use a sentinel for "not mapped"
+const UNMAPPED = "__unmapped__";
+
+interface ColumnMappingPanelProps {
+  fileName: string;
+  preview: CSVPreview;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ fileName, preview, onConfirm, onCancel }) => {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [initialProfile] = useState(() => findMatchingProfile(preview.headers, profiles));
+  const guessed = useMemo(() => guessColumnMapping(preview.headers), [preview.headers]);
+
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(() => initialProfile?.mapping ?? guessed);
+  const [activeProfile, setActiveProfile] = useState<string | undefined>(initialProfile?.name);
+  const [profileName, setProfileName] = useState(initialProfile?.name ?? "");
+
+  const duplicateHeaders = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const h of Object.values(mapping)) {
+      if (h) counts.set(h, (counts.get(h) || 0) + 1);
+    }
+    return new Set(Array.from(counts.entries()).filter(([, c]) => c > 1).map(([h]) => h));
+  }, [mapping]);
+
+  const complete = isMappingComplete(mapping, preview.headers);
+
+  const setField = (field: TransactionField, header: string) => {
+    setMapping((m) => ({ ...m, [field]: header === UNMAPPED ? undefined : header }));
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) return;
+    setMapping(profile.mapping);
+    setActiveProfile(profile.name);
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = () => {
+    if (!complete || !profileName.trim()) return;
+    const next = saveMappingProfile({
+      name: profileName.trim(),
+      headers: preview.headers,
+      mapping,
+      updated_at: new Date().toISOString(),
+    });
+    setProfiles(next);
+    setActiveProfile(profileName.trim());
+  };
+
+  const handleDeleteProfile = () => {
+    if (!activeProfile) return;
+    setProfiles(deleteMappingProfile(activeProfile));
+    setActiveProfile(undefined);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-card border border-border rounded-lg overflow-hidden"
+    >
+      <div className="p-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-center">
+            <Columns3 className="w-4 h-4 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Map Columns</h3>
+            <p className="text-[11px] text-muted-foreground font-mono">
+              {fileName} • {preview.headers.length} columns detected
+            </p>
+          </div>
+        </div>
+        {profiles.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={activeProfile} onValueChange={applyProfile}>
+              <SelectTrigger className="h-8 w-48 text-xs">
+                <SelectValue placeholder="Load mapping profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((p) => (
+                  <SelectItem key={p.name} value={p.name} className="text-xs">
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activeProfile && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDeleteProfile}>
+                <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 grid sm:grid-cols-3 lg:grid-cols-6 gap-4">
+        {TRANSACTION_FIELDS.map(({ field, label, required }) => {
+          const header = mapping[field];
+          const isDuplicate = !!header && duplicateHeaders.has(header);
+          return (
+            <div key={field} className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-foreground">
+                  {label}
+                  {!required && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                </span>
+                {header && !activeProfile && guessed[field] === header && (
+                  <Badge variant="outline" className="text-[9px] px-1.5 py-0 border-primary/40 text-primary">
+                    guessed
+                  </Badge>
+                )}
+              </div>
+              <Select value={header ?? (required ? undefined : UNMAPPED)} onValueChange={(h) => setField(field, h)}>
+                <SelectTrigger
+                  className={`h-8 text-xs font-mono ${isDuplicate || (required && !header) ? "border-destructive/60" : ""}`}
+                >
+                  <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {!required && (
+                    <SelectItem value={UNMAPPED} className="text-xs text-muted-foreground">
+                      Not in file
+                    </SelectItem>
+                  )}
+                  {preview.headers.map((h) => (
+                    <SelectItem key={h} value={h} className="text-xs font-mono">
+                      {h}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isDuplicate && <p className="text-[10px] text-destructive">Column used more than once</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Sample rows under the current mapping */}
+      <div className="px-4 pb-4">
+        <div className="bg-muted/30 rounded-md overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="border-b border-border">
+                {TRANSACTION_FIELDS.map(({ field }) => (
+                  <th key={field} className="text-left p-2 font-medium text-primary">{field}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, i) => (
+                <tr key={i} className="border-b border-border/50 last:border-0">
+                  {TRANSACTION_FIELDS.map(({ field }) => (
+                    <td key={field} className="p-2 text-muted-foreground whitespace-nowrap">
+                      {mapping[field] ? row[mapping[field]!] ?? "" : "—"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-border flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-2">
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name, e.g. Bank export"
+            className="h-8 w-56 text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveProfile}
+            disabled={!complete || !profileName.trim()}
+            className="gap-2 text-xs"
+          >
+            <Save className="w-3.5 h-3.5" />
+            Save Profile
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onCancel} className="text-xs">
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => complete && onConfirm(mapping)} disabled={!complete} className="text-xs">
+            Parse Transactions
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ColumnMappingPanel;
@@ -0,0 +1,135 @@
+import React, { useCallback } from "react";
+import { motion } from "framer-motion";
+import { AlertTriangle, Coins, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CurrencySettings } from "@/lib/types";
+import { COMMON_CURRENCIES, fxBaseCurrency, parseFxRates } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+
+interface CurrencySettingsPanelProps {
+  settings: CurrencySettings;
+  onChange: (settings: CurrencySettings) => void;
+  disabled?: boolean;
+}
+
+const CurrencySettingsPanel: React.FC<CurrencySettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const { toast } = useToast();
+
+  const rateCurrencies = Array.from(new Set(settings.fx_rates.map((r) => r.currency))).sort();
+  const currencyOptions = Array.from(new Set([...COMMON_CURRENCIES, ...rateCurrencies]));
+  const base = fxBaseCurrency(settings);
+  // With a table loaded, a reporting currency that is neither its base nor quoted in it cannot be converted to
+  const reportingUnconvertible =
+    settings.fx_rates.length > 0 && settings.reporting_currency !== base && !rateCurrencies.includes(settings.reporting_currency);
+
+  const handleRatesFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const fx_rates = await parseFxRates(file);
+        // Rates are assumed quoted in the reporting currency until the analyst picks another base
+        onChange({ ...settings, fx_rates, fx_base_currency: base });
+        toast({ title: "FX Rates Loaded", description: `${fx_rates.length} rates from ${file.name}.` });
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: (err as Error).message || "Failed to read FX table",
+          variant: "destructive",
+        });
+      }
+    },
+    [onChange, settings, base, toast]
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg p-4 flex items-center justify-between flex-wrap gap-4"
+    >
+      <div className="flex items-center gap-2">
+        <Coins className="w-4 h-4 text-primary" />
+        <div>
+          <p className="text-sm font-semibold text-foreground">Reporting Currency</p>
+          <p className="text-[11px] text-muted-foreground">
+            Amounts in an optional currency column are converted before detection
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 flex-wrap">
+        <Select
+          value={settings.reporting_currency}
+          onValueChange={(reporting_currency) => onChange({ ...settings, reporting_currency })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 w-24 text-xs font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {currencyOptions.map((c) => (
+              <SelectItem key={c} value={c} className="text-xs font-mono">
+                {c}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {settings.fx_rates.length > 0 ? (
+          <div className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+            <span>
+              {settings.fx_rates.length} rates • {rateCurrencies.join(", ")} • quoted in
+            </span>
+            <Select
+              value={base}
+              onValueChange={(fx_base_currency) => onChange({ ...settings, fx_base_currency })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-7 w-20 text-xs font-mono" title="Base currency of the FX table">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map((c) => (
+                  <SelectItem key={c} value={c} className="text-xs font-mono">
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onChange({ ...settings, fx_rates: [], fx_base_currency: undefined })}
+              disabled={disabled}
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2 text-xs"
+            onClick={() => document.getElementById("fx-upload")?.click()}
+            disabled={disabled}
+          >
+            <Upload className="w-3.5 h-3.5" />
+            FX Rate Table (date, currency, rate)
+          </Button>
+        )}
+        <input id="fx-upload" type="file" accept=".csv" className="hidden" onChange={handleRatesFile} />
+      </div>
+      {reportingUnconvertible && (
+        <p className="w-full flex items-center gap-2 text-[11px] text-warning">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          The FX table has no {settings.reporting_currency} rate against {base}; rows in any other currency will be
+          rejected
+        </p>
+      )}
+    </motion.div>
+  );
+};
+
+export default CurrencySettingsPanel;
@@ -38,26 +38,39 @@ const DashboardStats: React.FC<DashboardStatsProps> = ({ summary }) => {
       bg: "bg-success/10",
     },
   ];
+  // Detectors that hit their result cap, named as in the pattern breakdown
+  const truncated = (summary.truncated_detectors ?? []).map(
+    (id) => summary.pattern_breakdown.find((p) => p.name === id)?.label ?? id
+  );
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-      {stats.map((stat, i) => (
-        <motion.div
-          key={stat.label}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: i * 0.1 }}
-          className="bg-card border border-border rounded-lg p-5 hover:border-primary/30 transition-colors"
-        >
-          <div className="flex items-center gap-3 mb-3">
-            <div className={`w-10 h-10 rounded-lg ${stat.bg} flex items-center justify-center`}>
-              <stat.icon className={`w-5 h-5 ${stat.color}`} />
+    <div className="space-y-4">
+      {truncated.length > 0 && (
+        <div className="flex items-center gap-2 bg-warning/10 border border-warning/30 rounded-lg px-4 py-2.5 text-xs text-warning">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          Results truncated for {truncated.join(", ")}: a result cap or search budget was reached. Narrow the detection
+          settings to see every finding.
+        </div>
+      )}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {stats.map((stat, i) => (
+          <motion.div
+            key={stat.label}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: i * 0.1 }}
+            className="bg-card border border-border rounded-lg p-5 hover:border-primary/30 transition-colors"
+          >
+            <div className="flex items-center gap-3 mb-3">
+              <div className={`w-10 h-10 rounded-lg ${stat.bg} flex items-center justify-center`}>
+                <stat.icon className={`w-5 h-5 ${stat.color}`} />
+              </div>
             </div>
-          </div>
-          <p className="text-2xl font-bold font-mono text-foreground">{stat.value}</p>
-          <p className="text-xs text-muted-foreground mt-1">{stat.label}</p>
-        </motion.div>
-      ))}
+            <p className="text-2xl font-bold font-mono text-foreground">{stat.value}</p>
+            <p className="text-xs text-muted-foreground mt-1">{stat.label}</p>
+          </motion.div>
+        ))}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronDown, Play, RotateCcw, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DetectionConfig, DetectionPreset, DetectorParamValue } from "@/lib/types";
+import { ConfigField, getDetectors } from "@/lib/detectors";
+import {
+  SCORE_FLOOR_FIELD,
+  getDefaultDetectionConfig,
+  resolveDetectionConfig,
+  validateDetectionConfig,
+  loadDetectionPresets,
+  saveDetectionPreset,
+  deleteDetectionPreset,
+} from "@/lib/detectionConfig";
+
+interface DetectionSettingsPanelProps {
+  config: DetectionConfig;
+  onChange: (config: DetectionConfig) => void;
+  disabled?: boolean;
+  // Shown as a re-run button once a dataset is loaded
+  onApply?: () => void;
+}
+
+function formatValue(value: DetectorParamValue | undefined): string {
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+// Unparseable input becomes NaN so validation reports it instead of silently dropping it
+function parseValue(field: ConfigField, text: string): DetectorParamValue {
+  if (field.type === "number_list") {
+    return text
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s !== "")
+      .map((s) => (/^-?\d*\.?\d+$/.test(s) ? parseFloat(s) : NaN));
+  }
+  return text.trim() === "" ? NaN : Number(text);
+}
+
+const DetectionSettingsPanel: React.FC<DetectionSettingsPanelProps> = ({ config, onChange, disabled, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<DetectionPreset[]>(() => loadDetectionPresets());
+  const [activePreset, setActivePreset] = useState<string | undefined>();
+  const [presetName, setPresetName] = useState("");
+  // Raw text per "detector.key" so partially typed values like "0." survive re-renders
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const detectors = getDetectors();
+  const issues = validateDetectionConfig(config);
+  const valid = issues.length === 0;
+
+  const setParam = (detectorId: string, field: ConfigField, text: string) => {
+    setDrafts((d) => ({ ...d, [`${detectorId}.${field.key}`]: text }));
+    onChange({
+      ...config,
+      detectors: {
+        ...config.detectors,
+        [detectorId]: { ...config.detectors[detectorId], [field.key]: parseValue(field, text) },
+      },
+    });
+  };
+
+  const setScoreFloor = (text: string) => {
+    setDrafts((d) => ({ ...d, [`scoring.${SCORE_FLOOR_FIELD.key}`]: text }));
+    onChange({ ...config, score_floor: parseValue(SCORE_FLOOR_FIELD, text) as number });
+  };
+  const floorIssue = issues.find((i) => i.detector === "scoring");
+
+  const replaceConfig = (next: DetectionConfig) => {
+    setDrafts({});
+    onChange(next);
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    replaceConfig(resolveDetectionConfig(preset.config));
+    setActivePreset(preset.name);
+    setPresetName(preset.name);
+  };
+
+  const handleReset = () => {
+    replaceConfig(getDefaultDetectionConfig());
+    setActivePreset(undefined);
+  };
+
+  const handleSavePreset = () => {
+    if (!valid || !presetName.trim()) return;
+    setPresets(saveDetectionPreset({ name: presetName.trim(), config, updated_at: new Date().toISOString() }));
+    setActivePreset(presetName.trim());
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset) return;
+    setPresets(deleteDetectionPreset(activePreset));
+    setActivePreset(undefined);
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="bg-card border border-border rounded-lg">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger asChild>
+          <button className="w-full p-4 flex items-center justify-between gap-4 text-left">
+            <div className="flex items-center gap-2">
+              <SlidersHorizontal className="w-4 h-4 text-primary" />
+              <div>
+                <p className="text-sm font-semibold text-foreground">Detection Settings</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {activePreset ? `Preset "${activePreset}"` : "Thresholds and windows for each detector"}
+                  {!valid && <span className="text-destructive"> • {issues.length} invalid</span>}
+                </p>
+              </div>
+            </div>
+            <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="px-4 pb-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
+            <div className="flex items-center gap-2">
+              {presets.length > 0 && (
+                <Select value={activePreset} onValueChange={applyPreset} disabled={disabled}>
+                  <SelectTrigger className="h-8 w-48 text-xs">
+                    <SelectValue placeholder="Load preset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {presets.map((p) => (
+                      <SelectItem key={p.name} value={p.name} className="text-xs">
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {activePreset && (
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDeletePreset} disabled={disabled}>
+                  <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={handleReset} disabled={disabled} className="gap-2 text-xs">
+                <RotateCcw className="w-3.5 h-3.5" />
+                Defaults
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name, e.g. EU retail"
+                className="h-8 w-48 text-xs"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSavePreset}
+                disabled={!valid || !presetName.trim()}
+                className="gap-2 text-xs"
+              >
+                <Save className="w-3.5 h-3.5" />
+                Save Preset
+              </Button>
+              {onApply && (
+                <Button size="sm" onClick={onApply} disabled={disabled || !valid} className="gap-2 text-xs">
+                  <Play className="w-3.5 h-3.5" />
+                  Re-run Analysis
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="p-4 grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+            <div className="bg-muted/30 rounded-md p-3 space-y-2.5">
+              <span className="text-xs font-semibold text-foreground">Scoring</span>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[11px] text-foreground">{SCORE_FLOOR_FIELD.label}</span>
+                  <span className="text-[10px] text-muted-foreground">{SCORE_FLOOR_FIELD.unit}</span>
+                </div>
+                <Input
+                  value={drafts[`scoring.${SCORE_FLOOR_FIELD.key}`] ?? formatValue(config.score_floor)}
+                  onChange={(e) => setScoreFloor(e.target.value)}
+                  inputMode="decimal"
+                  disabled={disabled}
+                  className={`h-7 text-xs font-mono ${floorIssue ? "border-destructive/60" : ""}`}
+                />
+                {floorIssue ? (
+                  <p className="text-[10px] text-destructive">{floorIssue.message}</p>
+                ) : (
+                  <p className="text-[10px] text-muted-foreground">{SCORE_FLOOR_FIELD.description}</p>
+                )}
+              </div>
+            </div>
+            {detectors.map((d) => {
+              const detectorIssues = issues.filter((i) => i.detector === d.id && !i.key);
+              return (
+                <div key={d.id} className="bg-muted/30 rounded-md p-3 space-y-2.5">
+                  <div className="flex items-center gap-2">
+                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: d.color }} />
+                    <span className="text-xs font-semibold text-foreground">{d.label}</span>
+                  </div>
+                  {d.configSchema.map((field) => {
+                    const draftKey = `${d.id}.${field.key}`;
+                    const issue = issues.find((i) => i.detector === d.id && i.key === field.key);
+                    return (
+                      <div key={field.key} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-[11px] text-foreground">{field.label}</span>
+                          {field.unit && <span className="text-[10px] text-muted-foreground">{field.unit}</span>}
+                        </div>
+                        <Input
+                          value={drafts[draftKey] ?? formatValue(config.detectors[d.id]?.[field.key])}
+                          onChange={(e) => setParam(d.id, field, e.target.value)}
+                          inputMode="decimal"
+                          disabled={disabled}
+                          className={`h-7 text-xs font-mono ${issue ? "border-destructive/60" : ""}`}
+                        />
+                        {issue ? (
+                          <p className="text-[10px] text-destructive">{issue.message}</p>
+                        ) : (
+                          field.description && <p className="text-[10px] text-muted-foreground">{field.description}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {detectorIssues.map((i) => (
+                    <p key={i.message} className="text-[10px] text-destructive">
+                      {i.message}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </motion.div>
+  );
+};
+
+export default DetectionSettingsPanel;
@@ -0,0 +1,120 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuditEntry, Disposition, DispositionState, SuspiciousAccount } from "@/lib/types";
+import { DISPOSITION_STATES, getDispositionLabel } from "@/lib/disposition";
+
+interface DispositionDialogProps {
+  account: SuspiciousAccount;
+  current?: Disposition;
+  history: AuditEntry[];
+  analyst: string;
+  onSubmit: (change: Omit<Disposition, "updated_at">) => void;
+  onClose: () => void;
+}
+
+const DispositionDialog: React.FC<DispositionDialogProps> = ({ account, current, history, analyst, onSubmit, onClose }) => {
+  const [state, setState] = useState<DispositionState>(current?.state ?? "new");
+  const [assignee, setAssignee] = useState(current?.assignee || analyst);
+  const [note, setNote] = useState("");
+
+  // A note is what makes the change defensible in an audit
+  const canSubmit = !!analyst.trim() && !!assignee.trim() && !!note.trim();
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-base">{account.account_id}</DialogTitle>
+          <DialogDescription>
+            Score {account.suspicion_score.toFixed(1)} • {account.detected_patterns.join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-foreground">State</span>
+              <Select value={state} onValueChange={(v) => setState(v as DispositionState)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPOSITION_STATES.map((s) => (
+                    <SelectItem key={s.state} value={s.state} className="text-xs">
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-foreground">Assignee</span>
+              <Input value={assignee} onChange={(e) => setAssignee(e.target.value)} className="h-8 text-xs" />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <span className="text-xs font-medium text-foreground">Analyst note</span>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why is this alert moving to the selected state?"
+              className="text-xs min-h-[80px]"
+            />
+          </div>
+          {!analyst.trim() && (
+            <p className="text-[11px] text-destructive">Enter your analyst name above the table before triaging.</p>
+          )}
+
+          {history.length > 0 && (
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium text-foreground">History</span>
+              <div className="max-h-40 overflow-y-auto space-y-2 bg-muted/30 rounded-md p-2">
+                {[...history].reverse().map((h) => (
+                  <div key={h.timestamp} className="text-[11px]">
+                    <div className="flex items-center gap-1.5 flex-wrap">
+                      <span className="font-mono text-muted-foreground">{new Date(h.timestamp).toLocaleString()}</span>
+                      <span className="text-foreground">{h.actor}</span>
+                      <Badge variant="outline" className="text-[9px] px-1.5 py-0">
+                        {getDispositionLabel(h.from_state)} → {getDispositionLabel(h.to_state)}
+                      </Badge>
+                      <span className="text-muted-foreground">assigned {h.assignee}</span>
+                    </div>
+                    <p className="text-muted-foreground">{h.note}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-xs">
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!canSubmit}
+            onClick={() => onSubmit({ state, assignee: assignee.trim(), note: note.trim() })}
+            className="text-xs"
+          >
+            Record Disposition
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DispositionDialog;
@@ -0,0 +1,180 @@
+import React, { useCallback, useState } from "react";
+import { motion } from "framer-motion";
+import { AlertTriangle, ChevronDown, Play, Upload, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AnalysisLevel, EntitySettings } from "@/lib/types";
+import { MAX_SHARED_VALUE, MERGE_KEY_LABELS, parseKycRecords, resolveEntities } from "@/lib/entityResolution";
+import { useToast } from "@/hooks/use-toast";
+
+interface EntityResolutionPanelProps {
+  settings: EntitySettings;
+  onChange: (settings: EntitySettings) => void;
+  disabled?: boolean;
+  // Shown as a re-run button once a dataset is loaded
+  onApply?: () => void;
+}
+
+const EntityResolutionPanel: React.FC<EntityResolutionPanelProps> = ({ settings, onChange, disabled, onApply }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const resolution = settings.resolution;
+  const mergedAccounts = resolution ? resolution.entities.reduce((sum, e) => sum + e.accounts.length, 0) : 0;
+  const skipped = resolution?.skipped ?? [];
+
+  const handleKycFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const records = await parseKycRecords(file);
+        const next = resolveEntities(records);
+        onChange({ resolution: next, level: "entity" });
+        toast({
+          title: "KYC Records Loaded",
+          description:
+            `${next.record_count} accounts • ${next.entities.length} entities merge multiple accounts.` +
+            (next.skipped?.length ? ` ${next.skipped.length} values shared too widely were not used.` : ""),
+        });
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: (err as Error).message || "Failed to read KYC file",
+          variant: "destructive",
+        });
+      }
+    },
+    [onChange, toast]
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="bg-card border border-border rounded-lg">
+      <div className="p-4 flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <div>
+            <p className="text-sm font-semibold text-foreground">Entity Resolution</p>
+            <p className="text-[11px] text-muted-foreground">
+              {resolution
+                ? `${resolution.record_count} KYC records • ${mergedAccounts} accounts merged into ${resolution.entities.length} entities`
+                : "Merge aliased accounts using a customer file (name, dob, phone, device, address)"}
+            </p>
+            {skipped.length > 0 && (
+              <p className="text-[11px] text-warning flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                {skipped.length} shared {skipped.length === 1 ? "value" : "values"} not used for merging
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <Select
+            value={settings.level}
+            onValueChange={(level) => onChange({ ...settings, level: level as AnalysisLevel })}
+            disabled={disabled || !resolution}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="account" className="text-xs">
+                Account level
+              </SelectItem>
+              <SelectItem value="entity" className="text-xs">
+                Entity level
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          {resolution ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onChange({ resolution: null, level: "account" })}
+              disabled={disabled}
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-xs"
+              onClick={() => document.getElementById("kyc-upload")?.click()}
+              disabled={disabled}
+            >
+              <Upload className="w-3.5 h-3.5" />
+              KYC File (account_id, …)
+            </Button>
+          )}
+          {onApply && (
+            <Button size="sm" onClick={onApply} disabled={disabled} className="gap-2 text-xs">
+              <Play className="w-3.5 h-3.5" />
+              Re-run Analysis
+            </Button>
+          )}
+          <input id="kyc-upload" type="file" accept=".csv" className="hidden" onChange={handleKycFile} />
+        </div>
+      </div>
+
+      {resolution && (resolution.entities.length > 0 || skipped.length > 0) && (
+        <Collapsible open={open} onOpenChange={setOpen}>
+          <CollapsibleTrigger asChild>
+            <button className="w-full px-4 pb-3 flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground">
+              <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? "rotate-180" : ""}`} />
+              {skipped.length > 0 ? "Merged entities and skipped values" : "Merged entities and reasons"}
+            </button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="px-4 pb-4 max-h-72 overflow-y-auto space-y-2">
+              {skipped.length > 0 && (
+                <div className="bg-warning/10 rounded-md p-2.5 text-xs space-y-1">
+                  <p className="text-foreground">
+                    Not merged: exact values on more than {MAX_SHARED_VALUE} accounts, or fuzzy blocks too large to compare
+                  </p>
+                  {skipped.map((s) => (
+                    <div key={`${s.match}-${s.key}-${s.value}`} className="flex items-center gap-2 flex-wrap text-[11px]">
+                      <Badge variant="outline" className="text-[9px] px-1.5 py-0">
+                        {s.match}
+                      </Badge>
+                      <span className="text-foreground">{MERGE_KEY_LABELS[s.key]}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {s.value} • {s.account_count} accounts
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {resolution.entities.map((entity) => (
+                <div key={entity.entity_id} className="bg-muted/30 rounded-md p-2.5 text-xs space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-mono font-semibold text-primary">{entity.entity_id}</span>
+                    {entity.name && <span className="text-foreground">{entity.name}</span>}
+                    <span className="font-mono text-muted-foreground">{entity.accounts.join(", ")}</span>
+                  </div>
+                  {entity.reasons.map((r) => (
+                    <div key={`${r.accounts[0]}-${r.accounts[1]}`} className="flex items-center gap-2 flex-wrap text-[11px]">
+                      <Badge variant="outline" className="text-[9px] px-1.5 py-0">
+                        {r.match}
+                      </Badge>
+                      <span className="text-foreground">{MERGE_KEY_LABELS[r.key]}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {r.accounts[0]} ↔ {r.accounts[1]}
+                        {r.similarity !== undefined && ` • ${Math.round(r.similarity * 100)}%`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </motion.div>
+  );
+};
+
+export default EntityResolutionPanel;
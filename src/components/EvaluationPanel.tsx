@@ -0,0 +1,279 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Check, Gauge, Play, Upload, X } from "lucide-react";
+import { CartesianGrid, Line, LineChart, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { AnalysisResult, DetectionMetrics, GroundTruthLabel } from "@/lib/types";
+import { evaluateDetection, parseGroundTruth } from "@/lib/evaluation";
+import { useToast } from "@/hooks/use-toast";
+
+interface EvaluationPanelProps {
+  labels: GroundTruthLabel[] | null;
+  onLabelsChange: (labels: GroundTruthLabel[] | null) => void;
+  // Analysis of the loaded data with a score floor of 0, or null until evaluated
+  evaluation: AnalysisResult | null;
+  onEvaluate: () => void;
+  scoreFloor: number;
+  onApplyFloor: (floor: number) => void;
+  disabled?: boolean;
+}
+
+// Lists of misses are capped so huge label files stay responsive
+const MAX_LISTED = 100;
+
+function formatRate(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+const MetricCells: React.FC<{ m: DetectionMetrics }> = ({ m }) => (
+  <>
+    <td className="p-2 font-mono text-right">{formatRate(m.precision)}</td>
+    <td className="p-2 font-mono text-right">{formatRate(m.recall)}</td>
+    <td className="p-2 font-mono text-right font-semibold">{formatRate(m.f1)}</td>
+    <td className="p-2 font-mono text-right text-muted-foreground">
+      {m.true_positives} / {m.false_positives} / {m.false_negatives}
+    </td>
+  </>
+);
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  labels,
+  onLabelsChange,
+  evaluation,
+  onEvaluate,
+  scoreFloor,
+  onApplyFloor,
+  disabled,
+}) => {
+  const { toast } = useToast();
+  const [cutoff, setCutoff] = useState(scoreFloor);
+  const report = useMemo(
+    () => (evaluation && labels ? evaluateDetection(evaluation, labels, cutoff) : null),
+    [evaluation, labels, cutoff]
+  );
+  // The curve point the cutoff lands on: the lowest score still reported
+  const current = report ? [...report.curve].reverse().find((p) => p.cutoff >= cutoff) : undefined;
+
+  const handleLabelFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const next = await parseGroundTruth(file);
+        onLabelsChange(next);
+        toast({
+          title: "Labels Loaded",
+          description: `${next.length} accounts, ${next.filter((l) => l.is_mule).length} mules, from ${file.name}.`,
+        });
+      } catch (err) {
+        toast({ title: "Error", description: (err as Error).message || "Failed to read label file", variant: "destructive" });
+      }
+    },
+    [onLabelsChange, toast]
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg overflow-hidden"
+    >
+      <div className="p-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-primary" />
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Detection Quality</h3>
+            <p className="text-[11px] text-muted-foreground">
+              {labels
+                ? `${labels.length} labelled accounts • ${labels.filter((l) => l.is_mule).length} mules`
+                : "Ground truth file: account_id, is_mule, typology"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {labels ? (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onLabelsChange(null)} disabled={disabled}>
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-xs"
+              onClick={() => document.getElementById("labels-upload")?.click()}
+              disabled={disabled}
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Label File
+            </Button>
+          )}
+          <Button size="sm" onClick={onEvaluate} disabled={disabled || !labels} className="gap-2 text-xs">
+            <Play className="w-3.5 h-3.5" />
+            {evaluation ? "Re-evaluate" : "Evaluate"}
+          </Button>
+          <input id="labels-upload" type="file" accept=".csv" className="hidden" onChange={handleLabelFile} />
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="p-8 text-center text-sm text-muted-foreground">
+          {labels
+            ? "Run the evaluation to score the detectors against the labels."
+            : "Load a label file, or generate synthetic data, to measure the detectors."}
+        </p>
+      ) : (
+        <div className="p-4 space-y-5">
+          <div className="grid md:grid-cols-2 gap-5">
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: "Precision", value: report.overall.precision },
+                  { label: "Recall", value: report.overall.recall },
+                  { label: "F1", value: report.overall.f1 },
+                ].map((m) => (
+                  <div key={m.label} className="bg-muted/30 rounded-md px-3 py-2">
+                    <p className="text-lg font-bold font-mono text-foreground">{formatRate(m.value)}</p>
+                    <p className="text-[10px] text-muted-foreground">{m.label}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-[11px]">
+                  <span className="text-foreground">
+                    Score cutoff <span className="font-mono">{cutoff.toFixed(1)}</span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    current floor <span className="font-mono">{scoreFloor}</span>
+                    {report.best_cutoff !== null && (
+                      <>
+                        {" "}
+                        • best F1 at <span className="font-mono">{report.best_cutoff.toFixed(1)}</span>
+                      </>
+                    )}
+                  </span>
+                </div>
+                <Slider value={[cutoff]} min={0} max={100} step={0.5} onValueChange={([v]) => setCutoff(v)} />
+                <div className="flex items-center gap-2 justify-end">
+                  {report.best_cutoff !== null && (
+                    <Button variant="ghost" size="sm" className="text-xs" onClick={() => setCutoff(report.best_cutoff!)}>
+                      Jump to best F1
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2 text-xs"
+                    onClick={() => onApplyFloor(cutoff)}
+                    disabled={disabled || cutoff === scoreFloor}
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                    Use as score floor
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="h-52">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={[...report.curve].reverse()} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="recall"
+                    type="number"
+                    domain={[0, 1]}
+                    tickFormatter={(v: number) => `${Math.round(v * 100)}%`}
+                    tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 9 }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    dataKey="precision"
+                    type="number"
+                    domain={[0, 1]}
+                    tickFormatter={(v: number) => `${Math.round(v * 100)}%`}
+                    tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 9 }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", fontSize: 11 }}
+                    labelFormatter={(v: number) => `Recall ${formatRate(v)}`}
+                    formatter={(v: number, _name, item) => [
+                      `${formatRate(v)} at cutoff ${item.payload.cutoff.toFixed(1)}`,
+                      "Precision",
+                    ]}
+                  />
+                  <Line type="stepAfter" dataKey="precision" stroke="hsl(var(--primary))" dot={false} strokeWidth={2} />
+                  {current && (
+                    <ReferenceDot x={current.recall} y={current.precision} r={5} fill="hsl(var(--warning))" stroke="none" />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-border text-muted-foreground">
+                <th className="text-left p-2 font-medium">Detector</th>
+                <th className="text-right p-2 font-medium">Precision</th>
+                <th className="text-right p-2 font-medium">Recall</th>
+                <th className="text-right p-2 font-medium">F1</th>
+                <th className="text-right p-2 font-medium">TP / FP / FN</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-border/50 bg-muted/20">
+                <td className="p-2 font-semibold text-foreground">All detectors</td>
+                <MetricCells m={report.overall} />
+              </tr>
+              {report.detectors.map((d) => (
+                <tr key={d.detector} className="border-b border-border/30 last:border-0">
+                  <td className="p-2 text-foreground">{d.label}</td>
+                  <MetricCells m={d} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-semibold text-foreground mb-2">
+                False positives <span className="font-mono text-muted-foreground">({report.false_positives.length})</span>
+              </p>
+              <div className="max-h-56 overflow-y-auto bg-muted/20 rounded-md">
+                {report.false_positives.slice(0, MAX_LISTED).map((sa) => (
+                  <div key={sa.account_id} className="px-3 py-1.5 flex justify-between gap-2 text-[11px] border-b border-border/30">
+                    <span className="font-mono text-foreground">{sa.account_id}</span>
+                    <span className="text-muted-foreground truncate">{sa.detected_patterns.join(", ")}</span>
+                    <span className="font-mono text-foreground">{sa.suspicion_score.toFixed(1)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-semibold text-foreground mb-2">
+                False negatives <span className="font-mono text-muted-foreground">({report.false_negatives.length})</span>
+              </p>
+              <div className="max-h-56 overflow-y-auto bg-muted/20 rounded-md">
+                {report.false_negatives.slice(0, MAX_LISTED).map(({ label, score }) => (
+                  <div key={label.account_id} className="px-3 py-1.5 flex justify-between gap-2 text-[11px] border-b border-border/30">
+                    <span className="font-mono text-foreground">{label.account_id}</span>
+                    <span className="text-muted-foreground truncate">
+                      {[label.typology, label.role].filter(Boolean).join(" • ") || "—"}
+                    </span>
+                    <span className="font-mono text-muted-foreground">{score === undefined ? "not raised" : score.toFixed(1)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default EvaluationPanel;
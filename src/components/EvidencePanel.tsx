@@ -0,0 +1,188 @@
+import React, { useMemo } from "react";
+import { motion } from "framer-motion";
+import { Download, FileSearch, Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AnalysisResult, GraphEdge } from "@/lib/types";
+import { formatCurrency } from "@/lib/currency";
+import { EvidenceSubject, buildEvidenceCSV, describeRingDetails, getSubjectEvidence } from "@/lib/evidence";
+import { downloadFile } from "@/lib/download";
+
+interface EvidencePanelProps {
+  result: AnalysisResult;
+  edges: GraphEdge[];
+  subject: EvidenceSubject | null;
+  onSubjectChange: (subject: EvidenceSubject) => void;
+  // Follow the money of a cited transfer
+  onTrace?: (transactionId: string) => void;
+}
+
+// Radix Select values are strings, so subjects are encoded as "kind:id"
+function encodeSubject(subject: EvidenceSubject): string {
+  return `${subject.kind}:${subject.id}`;
+}
+
+function decodeSubject(value: string): EvidenceSubject {
+  const idx = value.indexOf(":");
+  return { kind: value.slice(0, idx) as EvidenceSubject["kind"], id: value.slice(idx + 1) };
+}
+
+function formatWindow(start: string, end: string): string {
+  const fmt = (iso: string) => new Date(iso).toLocaleString();
+  return start === end ? fmt(start) : `${fmt(start)} → ${fmt(end)}`;
+}
+
+const EvidencePanel: React.FC<EvidencePanelProps> = ({ result, edges, subject, onSubjectChange, onTrace }) => {
+  const currency = result.reporting_currency;
+  const edgesById = useMemo(() => new Map(edges.map((e) => [e.transactionId, e])), [edges]);
+  const sections = useMemo(() => (subject ? getSubjectEvidence(result, subject) : []), [result, subject]);
+  const transferCount = new Set(sections.flatMap((s) => s.transaction_ids)).size;
+  // Rings that trace one flow of money list their transfers as numbered hops
+  const ring = subject?.kind === "ring" ? result.fraud_rings.find((r) => r.ring_id === subject.id) : undefined;
+  const chain = useMemo(
+    () => (ring?.transaction_chain ? new Map(ring.transaction_chain.map((id, i) => [id, i + 1])) : null),
+    [ring]
+  );
+
+  const handleDownload = () => {
+    if (!subject) return;
+    downloadFile(
+      buildEvidenceCSV(subject, sections, edgesById, currency),
+      `evidence_${subject.id}.csv`,
+      "text/csv"
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg overflow-hidden"
+    >
+      <div className="p-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-2">
+          <FileSearch className="w-4 h-4 text-primary" />
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Evidence Transactions</h3>
+            <p className="text-[11px] text-muted-foreground">
+              {subject ? `${transferCount} transfers cited for ${subject.id}` : "Select an account or ring"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={subject ? encodeSubject(subject) : undefined} onValueChange={(v) => onSubjectChange(decodeSubject(v))}>
+            <SelectTrigger className="h-8 w-56 text-xs font-mono">
+              <SelectValue placeholder="Account or ring" />
+            </SelectTrigger>
+            <SelectContent>
+              {result.suspicious_accounts.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel className="text-[10px] uppercase">Accounts</SelectLabel>
+                  {result.suspicious_accounts.map((a) => (
+                    <SelectItem key={a.account_id} value={`account:${a.account_id}`} className="text-xs font-mono">
+                      {a.account_id} • {a.suspicion_score.toFixed(1)}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {result.fraud_rings.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel className="text-[10px] uppercase">Rings</SelectLabel>
+                  {result.fraud_rings.map((r) => (
+                    <SelectItem key={r.ring_id} value={`ring:${r.ring_id}`} className="text-xs font-mono">
+                      {r.ring_id} • {r.pattern_type}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownload}
+            disabled={transferCount === 0}
+            className="gap-2 text-xs"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Evidence CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[480px] overflow-y-auto">
+        {sections.map((section) => (
+          <div key={section.pattern} className="border-b border-border/50 last:border-0">
+            <div className="px-4 py-2 bg-muted/30 flex items-center justify-between flex-wrap gap-2">
+              <span className="text-xs font-mono font-semibold text-foreground">
+                {section.pattern}
+                {chain && <span className="font-normal text-muted-foreground"> • ordered chain</span>}
+                {ring?.details && (
+                  <span className="font-normal text-muted-foreground"> • {describeRingDetails(ring.details)}</span>
+                )}
+              </span>
+              <span className="text-[11px] text-muted-foreground font-mono">
+                {section.transaction_ids.length} transfers • {formatWindow(section.window_start, section.window_end)}
+              </span>
+            </div>
+            <table className="w-full text-xs">
+              <tbody>
+                {section.transaction_ids.map((id) => {
+                  const edge = edgesById.get(id);
+                  return (
+                    <tr key={id} className="border-b border-border/30 last:border-0 hover:bg-muted/20">
+                      {chain && <td className="pl-4 py-1.5 font-mono text-muted-foreground">#{chain.get(id)}</td>}
+                      <td className="px-4 py-1.5 font-mono text-primary">{id}</td>
+                      <td className="px-4 py-1.5 font-mono text-muted-foreground whitespace-nowrap">
+                        {edge ? edge.timestamp.toLocaleString() : "—"}
+                      </td>
+                      <td className="px-4 py-1.5 font-mono text-foreground whitespace-nowrap">
+                        {edge ? `${edge.source} → ${edge.target}` : "—"}
+                      </td>
+                      <td className="px-4 py-1.5 font-mono text-foreground text-right whitespace-nowrap">
+                        {edge ? formatCurrency(edge.amount, currency) : "—"}
+                        {edge && edge.originalCurrency !== currency && (
+                          <span className="text-muted-foreground">
+                            {" "}
+                            ({formatCurrency(edge.originalAmount, edge.originalCurrency)})
+                          </span>
+                        )}
+                      </td>
+                      {onTrace && (
+                        <td className="pr-2 py-1 w-8">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Trace funds"
+                            onClick={() => onTrace(id)}
+                            disabled={!edge}
+                          >
+                            <Route className="w-3.5 h-3.5 text-muted-foreground" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+        {subject && sections.length === 0 && (
+          <p className="p-8 text-center text-sm text-muted-foreground">No evidence recorded for {subject.id}</p>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default EvidencePanel;
@@ -62,12 +62,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessing }) =
             {isProcessing ? "Analyzing transactions..." : "Drop CSV file here"}
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            or click to browse • Requires: transaction_id, sender_id, receiver_id, amount, timestamp
+            or click to browse • Columns are matched to transaction fields after upload
           </p>
         </div>
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <FileText className="w-3 h-3" />
-          <span className="font-mono">Up to 15,000 transactions supported</span>
+          <span className="font-mono">Large files are streamed in chunks</span>
         </div>
       </div>
     </motion.div>
@@ -1,17 +1,23 @@
 import React from "react";
 import { motion } from "framer-motion";
-import { FraudRing } from "@/lib/types";
+import { FraudRing, RingType } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
+import { RING_TYPE_LABELS } from "@/lib/evidence";
 
 interface FraudRingTableProps {
   rings: FraudRing[];
   onRingClick?: (ring: FraudRing) => void;
 }
 
-const patternLabels: Record<string, string> = {
-  cycle: "Circular Routing",
-  smurfing: "Smurfing",
-  layered_shell: "Layered Shell",
+// Badge colours follow the detector colours used in the graph legend
+const patternBadges: Record<RingType, string> = {
+  cycle: "border-destructive/50 text-destructive",
+  smurfing: "border-warning/50 text-warning",
+  layered_shell: "border-primary/50 text-primary",
+  round_trip: "border-[hsl(160,60%,50%)]/50 text-[hsl(160,60%,50%)]",
+  structuring: "border-[hsl(45,85%,55%)]/50 text-[hsl(45,85%,55%)]",
+  high_velocity: "border-[hsl(200,70%,55%)]/50 text-[hsl(200,70%,55%)]",
+  dormant_activation: "border-[hsl(310,60%,60%)]/50 text-[hsl(310,60%,60%)]",
 };
 
 const FraudRingTable: React.FC<FraudRingTableProps> = ({ rings, onRingClick }) => {
@@ -44,17 +50,8 @@ const FraudRingTable: React.FC<FraudRingTableProps> = ({ rings, onRingClick }) =
               >
                 <td className="p-3 font-mono text-primary text-xs">{ring.ring_id}</td>
                 <td className="p-3">
-                  <Badge
-                    variant="outline"
-                    className={
-                      ring.pattern_type === "cycle"
-                        ? "border-destructive/50 text-destructive"
-                        : ring.pattern_type === "smurfing"
-                        ? "border-warning/50 text-warning"
-                        : "border-primary/50 text-primary"
-                    }
-                  >
-                    {patternLabels[ring.pattern_type] || ring.pattern_type}
+                  <Badge variant="outline" className={patternBadges[ring.pattern_type] || "border-primary/50 text-primary"}>
+                    {RING_TYPE_LABELS[ring.pattern_type] || ring.pattern_type}
                   </Badge>
                 </td>
                 <td className="p-3 font-mono text-foreground">{ring.member_accounts.length}</td>
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronRight, Download, Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AllocationRule, EgoDirection, GraphEdge, TraceHop, TraceOptions, TraceSource, TraceStop } from "@/lib/types";
+import { formatCurrency } from "@/lib/currency";
+import {
+  ALLOCATION_RULES,
+  DEFAULT_TRACE_OPTIONS,
+  MAX_TRACE_HOPS,
+  buildLedgers,
+  buildTerminalsCSV,
+  buildTraceCSV,
+  traceFunds,
+} from "@/lib/fundTracing";
+import { downloadFile } from "@/lib/download";
+
+interface FundTracePanelProps {
+  edges: GraphEdge[];
+  currency: string;
+  source: TraceSource | null;
+  onSourceChange: (source: TraceSource) => void;
+}
+
+const STOP_LABELS: Record<TraceStop, string> = {
+  cycle: "back on path",
+  max_hops: "hop limit",
+  node_limit: `${MAX_TRACE_HOPS} hop cap`,
+};
+
+// Terminal and stop rows listed before the rest are summed into one row
+const TERMINAL_ROWS = 15;
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+}
+
+const FundTracePanel: React.FC<FundTracePanelProps> = ({ edges, currency, source, onSourceChange }) => {
+  const [options, setOptions] = useState<TraceOptions>(DEFAULT_TRACE_OPTIONS);
+  const [draft, setDraft] = useState<TraceSource>(source ?? { kind: "transaction", id: "" });
+  // Keys of hops whose branches are folded away
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const ledgers = useMemo(() => buildLedgers(edges), [edges]);
+  const trace = useMemo(() => (source ? traceFunds(ledgers, source, options) : null), [ledgers, source, options]);
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  // A trace started elsewhere replaces whatever was typed
+  useEffect(() => {
+    if (source) setDraft(source);
+    setCollapsed(new Set());
+  }, [source]);
+
+  const setOption = <K extends keyof TraceOptions>(key: K, value: TraceOptions[K]) => {
+    setOptions((o) => ({ ...o, [key]: value }));
+    setCollapsed(new Set());
+  };
+
+  const toggle = (key: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+
+  const handleDownload = (part: "hops" | "terminals") => {
+    if (!trace) return;
+    const name = `trace_${trace.source.id}_${options.direction}_${options.rule}`;
+    if (part === "hops") downloadFile(buildTraceCSV(trace, currency), `${name}.csv`, "text/csv");
+    else downloadFile(buildTerminalsCSV(trace, currency), `${name}_terminals.csv`, "text/csv");
+  };
+
+  const renderHop = (hop: TraceHop, parentKey: string): React.ReactNode => {
+    const key = `${parentKey}/${hop.transaction_id}`;
+    const folded = collapsed.has(key);
+    return (
+      <React.Fragment key={key}>
+        <tr className="border-b border-border/30 hover:bg-muted/20">
+          <td className="py-1.5 pr-4 font-mono whitespace-nowrap" style={{ paddingLeft: 12 + (hop.depth - 1) * 16 }}>
+            {hop.children.length > 0 ? (
+              <button className="inline-flex items-center gap-1 text-primary" onClick={() => toggle(key)}>
+                <ChevronRight className={`w-3 h-3 transition-transform ${folded ? "" : "rotate-90"}`} />
+                {hop.transaction_id}
+              </button>
+            ) : (
+              <span className="pl-4 text-primary">{hop.transaction_id}</span>
+            )}
+          </td>
+          <td className="px-4 py-1.5 font-mono text-muted-foreground whitespace-nowrap">
+            {new Date(hop.timestamp).toLocaleString()}
+          </td>
+          <td className="px-4 py-1.5 font-mono text-foreground whitespace-nowrap">
+            {hop.sender_id} → {hop.receiver_id}
+          </td>
+          <td className="px-4 py-1.5 font-mono text-foreground text-right whitespace-nowrap">
+            {money(hop.traced_amount)}
+            <span className="text-muted-foreground"> / {money(hop.transfer_amount)}</span>
+          </td>
+          <td className="px-4 py-1.5 font-mono text-muted-foreground text-right">
+            {trace.total > 0 ? formatShare(hop.traced_amount / trace.total) : "—"}
+          </td>
+          <td className="px-4 py-1.5 whitespace-nowrap">
+            {hop.retained > 0 && (
+              <span className="font-mono text-muted-foreground">
+                {money(hop.retained)} {options.direction === "downstream" ? "stays" : "own funds"}
+              </span>
+            )}
+            {hop.stop && (
+              <Badge variant="outline" className="ml-2 text-[10px] border-warning/50 text-warning">
+                {STOP_LABELS[hop.stop]}
+              </Badge>
+            )}
+          </td>
+        </tr>
+        {!folded && hop.children.map((child) => renderHop(child, key))}
+      </React.Fragment>
+    );
+  };
+
+  const shownTerminals = trace?.terminals.slice(0, TERMINAL_ROWS) ?? [];
+  const otherTerminals = trace?.terminals.slice(TERMINAL_ROWS) ?? [];
+  const shownStops = trace?.stopped.slice(0, TERMINAL_ROWS) ?? [];
+  const otherStops = trace?.stopped.slice(TERMINAL_ROWS) ?? [];
+  const stoppedTotal = trace?.stopped.reduce((s, t) => s + t.amount, 0) ?? 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg overflow-hidden"
+    >
+      <div className="p-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-2">
+          <Route className="w-4 h-4 text-primary" />
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Fund Tracing</h3>
+            <p className="text-[11px] text-muted-foreground">
+              {trace
+                ? `${money(trace.total)} from ${trace.source.kind} ${trace.source.id} • ${trace.hop_count} hops • ${trace.terminals.length} ${
+                    options.direction === "downstream" ? "destinations" : "origins"
+                  }${stoppedTotal > 0 ? ` • ${money(stoppedTotal)} where tracing stopped` : ""}`
+                : "Follow money from a transaction or account"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleDownload("hops")} disabled={!trace} className="gap-2 text-xs">
+            <Download className="w-3.5 h-3.5" />
+            Trace CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleDownload("terminals")}
+            disabled={!trace}
+            className="gap-2 text-xs"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Terminals CSV
+          </Button>
+        </div>
+      </div>
+
+      <form
+        className="p-4 border-b border-border flex items-center flex-wrap gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const id = draft.id.trim();
+          if (id) onSourceChange({ kind: draft.kind, id });
+        }}
+      >
+        <Select value={draft.kind} onValueChange={(kind) => setDraft((d) => ({ ...d, kind: kind as TraceSource["kind"] }))}>
+          <SelectTrigger className="h-8 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="transaction" className="text-xs">
+              Transaction
+            </SelectItem>
+            <SelectItem value="account" className="text-xs">
+              Account
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          value={draft.id}
+          onChange={(e) => setDraft((d) => ({ ...d, id: e.target.value }))}
+          placeholder={draft.kind === "transaction" ? "Transaction ID" : "Account ID"}
+          className="h-8 w-44 text-xs font-mono"
+        />
+        <Button type="submit" size="sm" className="h-8 text-xs" disabled={!draft.id.trim()}>
+          Trace
+        </Button>
+        <Select value={options.direction} onValueChange={(v) => setOption("direction", v as EgoDirection)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="downstream" className="text-xs">
+              Where it went
+            </SelectItem>
+            <SelectItem value="upstream" className="text-xs">
+              Where it came from
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={options.rule} onValueChange={(v) => setOption("rule", v as AllocationRule)}>
+          <SelectTrigger className="h-8 w-36 text-xs" title={ALLOCATION_RULES.find((r) => r.rule === options.rule)?.description}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALLOCATION_RULES.map((r) => (
+              <SelectItem key={r.rule} value={r.rule} className="text-xs">
+                {r.label} — {r.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-[11px] text-muted-foreground ml-2">Hops</span>
+        <Input
+          type="number"
+          min={1}
+          max={20}
+          value={options.max_hops}
+          onChange={(e) => {
+            const hops = Math.round(Number(e.target.value));
+            if (hops >= 1 && hops <= 20) setOption("max_hops", hops);
+          }}
+          className="h-8 w-16 text-xs font-mono"
+        />
+        <span className="text-[11px] text-muted-foreground ml-2">Ignore under</span>
+        <Input
+          type="number"
+          min={0}
+          value={options.min_amount}
+          onChange={(e) => {
+            const amount = Number(e.target.value);
+            if (Number.isFinite(amount) && amount >= 0) setOption("min_amount", amount);
+          }}
+          className="h-8 w-24 text-xs font-mono"
+        />
+      </form>
+
+      {source && !trace && (
+        <p className="p-8 text-center text-sm text-muted-foreground">
+          No {source.kind} {source.id} in the loaded transfers
+        </p>
+      )}
+
+      {trace && (
+        <div className="grid lg:grid-cols-[1fr_2fr]">
+          <div className="border-b lg:border-b-0 lg:border-r border-border">
+            <div className="px-4 py-2 bg-muted/30 flex items-center justify-between">
+              <span className="text-xs font-semibold text-foreground">
+                {options.direction === "downstream" ? "Where the money ended up" : "Where the money came from"}
+              </span>
+              {trace.untraced > 0 && (
+                <span className="text-[11px] text-muted-foreground font-mono">{money(trace.untraced)} not followed</span>
+              )}
+            </div>
+            <table className="w-full text-xs">
+              <tbody>
+                {shownTerminals.map((t) => (
+                  <tr key={t.account_id} className="border-b border-border/30 last:border-0">
+                    <td className="px-4 py-1.5 font-mono text-foreground">{t.account_id}</td>
+                    <td className="px-4 py-1.5">
+                      <div className="w-24 h-1.5 bg-muted rounded-full overflow-hidden">
+                        <div className="h-full rounded-full bg-primary" style={{ width: `${t.share * 100}%` }} />
+                      </div>
+                    </td>
+                    <td className="px-4 py-1.5 font-mono text-foreground text-right whitespace-nowrap">{money(t.amount)}</td>
+                    <td className="px-4 py-1.5 font-mono text-muted-foreground text-right">{formatShare(t.share)}</td>
+                  </tr>
+                ))}
+                {otherTerminals.length > 0 && (
+                  <tr>
+                    <td className="px-4 py-1.5 text-muted-foreground" colSpan={2}>
+                      {otherTerminals.length} more accounts
+                    </td>
+                    <td className="px-4 py-1.5 font-mono text-muted-foreground text-right whitespace-nowrap">
+                      {money(otherTerminals.reduce((s, t) => s + t.amount, 0))}
+                    </td>
+                    <td className="px-4 py-1.5 font-mono text-muted-foreground text-right">
+                      {formatShare(otherTerminals.reduce((s, t) => s + t.share, 0))}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            {shownStops.length > 0 && (
+              <>
+                <div className="px-4 py-2 bg-muted/30 border-t border-border">
+                  <span className="text-xs font-semibold text-foreground">Tracing stopped, money may have moved on</span>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {shownStops.map((t) => (
+                      <tr key={`${t.stop}-${t.account_id}`} className="border-b border-border/30 last:border-0">
+                        <td className="px-4 py-1.5 font-mono text-foreground">{t.account_id}</td>
+                        <td className="px-4 py-1.5">
+                          <Badge variant="outline" className="text-[10px] border-warning/50 text-warning">
+                            {STOP_LABELS[t.stop!]}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-1.5 font-mono text-foreground text-right whitespace-nowrap">{money(t.amount)}</td>
+                        <td className="px-4 py-1.5 font-mono text-muted-foreground text-right">{formatShare(t.share)}</td>
+                      </tr>
+                    ))}
+                    {otherStops.length > 0 && (
+                      <tr>
+                        <td className="px-4 py-1.5 text-muted-foreground" colSpan={2}>
+                          {otherStops.length} more stops
+                        </td>
+                        <td className="px-4 py-1.5 font-mono text-muted-foreground text-right whitespace-nowrap">
+                          {money(otherStops.reduce((s, t) => s + t.amount, 0))}
+                        </td>
+                        <td className="px-4 py-1.5 font-mono text-muted-foreground text-right">
+                          {formatShare(otherStops.reduce((s, t) => s + t.share, 0))}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+          <div className="max-h-[480px] overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border bg-muted/30 text-muted-foreground">
+                  <th className="text-left px-3 py-2 font-medium">Transfer</th>
+                  <th className="text-left px-4 py-2 font-medium">Time</th>
+                  <th className="text-left px-4 py-2 font-medium">Flow</th>
+                  <th className="text-right px-4 py-2 font-medium">Traced / transfer</th>
+                  <th className="text-right px-4 py-2 font-medium">Of source</th>
+                  <th className="text-left px-4 py-2 font-medium">Retained</th>
+                </tr>
+              </thead>
+              <tbody>{trace.hops.map((hop) => renderHop(hop, ""))}</tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default FundTracePanel;
@@ -0,0 +1,56 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { FileText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { IngestionProgress } from "@/lib/types";
+
+interface IngestionProgressPanelProps {
+  fileName: string;
+  progress: IngestionProgress;
+  onCancel: () => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(0)} KB`;
+}
+
+const IngestionProgressPanel: React.FC<IngestionProgressPanelProps> = ({ fileName, progress, onCancel }) => {
+  const pct = progress.total_bytes > 0 ? (progress.bytes_read / progress.total_bytes) * 100 : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-card border border-border rounded-lg p-6 space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground font-mono">{fileName}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onCancel} className="gap-2 text-xs">
+          <X className="w-3.5 h-3.5" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={pct} className="h-2" />
+      <div className="flex items-center justify-between text-xs font-mono text-muted-foreground">
+        <span>
+          {formatBytes(progress.bytes_read)} / {formatBytes(progress.total_bytes)} • {pct.toFixed(0)}%
+        </span>
+        <span>
+          <span className="text-success">{progress.accepted_rows.toLocaleString()} accepted</span>
+          {" • "}
+          <span className={progress.rejected_rows > 0 ? "text-destructive" : ""}>
+            {progress.rejected_rows.toLocaleString()} rejected
+          </span>
+        </span>
+      </div>
+    </motion.div>
+  );
+};
+
+export default IngestionProgressPanel;
@@ -0,0 +1,130 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { ClipboardList, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { IngestionReport, RejectReason } from "@/lib/types";
+import { REJECT_REASON_LABELS } from "@/lib/csvParser";
+
+interface IngestionReportPanelProps {
+  report: IngestionReport;
+  onContinue: () => void;
+  onCancel: () => void;
+  onDownloadRejects: () => void;
+}
+
+// Rendering every reject of a badly mapped file would stall the page
+const MAX_VISIBLE_REJECTS = 200;
+
+const IngestionReportPanel: React.FC<IngestionReportPanelProps> = ({ report, onContinue, onCancel, onDownloadRejects }) => {
+  const rejectedCount = report.rejected_rows.length;
+  const reasons = (Object.keys(report.reason_counts) as RejectReason[]).filter((r) => report.reason_counts[r] > 0);
+
+  const stats = [
+    { label: "Rows Read", value: report.total_rows, color: "text-foreground" },
+    { label: "Accepted", value: report.accepted_rows, color: "text-success" },
+    { label: "Rejected", value: rejectedCount, color: rejectedCount > 0 ? "text-destructive" : "text-foreground" },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-card border border-border rounded-lg overflow-hidden"
+    >
+      <div className="p-4 border-b border-border flex items-center gap-2">
+        <div className="w-8 h-8 rounded-lg bg-warning/10 border border-warning/20 flex items-center justify-center">
+          <ClipboardList className="w-4 h-4 text-warning" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Ingestion Report</h3>
+          <p className="text-[11px] text-muted-foreground font-mono">{report.file_name}</p>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          {stats.map((s) => (
+            <div key={s.label} className="bg-muted/30 rounded-md p-3">
+              <p className={`text-xl font-bold font-mono ${s.color}`}>{s.value.toLocaleString()}</p>
+              <p className="text-[11px] text-muted-foreground">{s.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {report.accepted_rows === 0 && (
+          <p className="text-xs text-destructive">
+            {report.total_rows === 0
+              ? "The file has no data rows."
+              : "No row could be used. Check the column mapping, or download the rejects to see what went wrong."}
+          </p>
+        )}
+
+        {reasons.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {reasons.map((r) => (
+              <Badge key={r} variant="outline" className="border-destructive/40 text-destructive text-[11px]">
+                {REJECT_REASON_LABELS[r]}: {report.reason_counts[r]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {rejectedCount > 0 && (
+          <div className="overflow-x-auto max-h-72 overflow-y-auto border border-border rounded-md">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-card z-10">
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="text-left p-2 font-medium text-muted-foreground uppercase tracking-wider">Row</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground uppercase tracking-wider">Reason</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground uppercase tracking-wider">Detail</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground uppercase tracking-wider">Raw Values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rejected_rows.slice(0, MAX_VISIBLE_REJECTS).map((r) => (
+                  <tr key={r.row_number} className="border-b border-border/50">
+                    <td className="p-2 font-mono text-foreground">{r.row_number}</td>
+                    <td className="p-2 text-destructive whitespace-nowrap">{REJECT_REASON_LABELS[r.reason]}</td>
+                    <td className="p-2 text-muted-foreground">{r.detail}</td>
+                    <td className="p-2 font-mono text-muted-foreground whitespace-nowrap">
+                      {report.headers.map((h) => r.raw[h] ?? "").join(", ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rejectedCount > MAX_VISIBLE_REJECTS && (
+              <p className="p-2 text-[11px] text-muted-foreground text-center">
+                Showing first {MAX_VISIBLE_REJECTS} of {rejectedCount.toLocaleString()} rejected rows — download the CSV for the full list.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-border flex items-center justify-between flex-wrap gap-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDownloadRejects}
+          disabled={rejectedCount === 0}
+          className="gap-2 text-xs"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Download Rejects CSV
+        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onCancel} className="text-xs">
+            Cancel
+          </Button>
+          <Button size="sm" onClick={onContinue} disabled={report.accepted_rows === 0} className="text-xs">
+            Analyze {report.accepted_rows.toLocaleString()} Transactions
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default IngestionReportPanel;
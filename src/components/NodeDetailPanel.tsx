@@ -2,13 +2,22 @@ import React from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { X } from "lucide-react";
 import { GraphNode } from "@/lib/types";
+import { formatCurrency } from "@/lib/currency";
+import { MERGE_KEY_LABELS } from "@/lib/entityResolution";
+import { CUSTOMER_TYPE_LABELS, RISK_RATING_LABELS } from "@/lib/accountProfiles";
+import ScoreWaterfall from "./ScoreWaterfall";
 
 interface NodeDetailPanelProps {
   node: GraphNode | null;
+  currency: string;
   onClose: () => void;
 }
 
-const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose }) => {
+const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, currency, onClose }) => {
+  // Only worth listing original amounts when something was actually converted
+  const originalCurrencies = node ? Object.keys(node.originalTotals) : [];
+  const showOriginals = originalCurrencies.some((c) => c !== currency);
+
   return (
     <AnimatePresence>
       {node && (
@@ -16,7 +25,7 @@ const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose }) => {
           initial={{ opacity: 0, x: 40 }}
           animate={{ opacity: 1, x: 0 }}
           exit={{ opacity: 0, x: 40 }}
-          className="absolute top-4 right-4 w-72 bg-card border border-border rounded-lg shadow-xl z-50 overflow-hidden"
+          className="absolute top-4 right-4 w-72 max-h-[calc(100%-2rem)] overflow-y-auto bg-card border border-border rounded-lg shadow-xl z-50"
         >
           <div className="p-4 border-b border-border flex items-center justify-between">
             <h3 className="text-sm font-semibold font-mono text-foreground">{node.id}</h3>
@@ -25,6 +34,74 @@ const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose }) => {
             </button>
           </div>
           <div className="p-4 space-y-3 text-sm">
+            {node.entity && (
+              <div>
+                <p className="text-muted-foreground mb-1.5">
+                  Merged Accounts{node.entity.name ? ` • ${node.entity.name}` : ""}
+                </p>
+                <div className="flex flex-wrap gap-1 mb-1.5">
+                  {node.entity.accounts.map((a) => (
+                    <span key={a} className="text-xs px-2 py-0.5 rounded bg-muted text-foreground font-mono">
+                      {a}
+                    </span>
+                  ))}
+                </div>
+                <div className="space-y-0.5 text-[11px]">
+                  {node.entity.reasons.map((r) => (
+                    <div key={`${r.accounts[0]}-${r.accounts[1]}`} className="text-muted-foreground">
+                      {MERGE_KEY_LABELS[r.key]} ({r.match}
+                      {r.similarity !== undefined ? ` ${Math.round(r.similarity * 100)}%` : ""}):{" "}
+                      <span className="font-mono">
+                        {r.accounts[0]} ↔ {r.accounts[1]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {node.profile && (
+              <div>
+                <p className="text-muted-foreground mb-1.5">Customer Profile</p>
+                <div className="space-y-1 text-xs">
+                  {node.profile.customer_type && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Type</span>
+                      <span className="text-foreground">{CUSTOMER_TYPE_LABELS[node.profile.customer_type]}</span>
+                    </div>
+                  )}
+                  {node.profile.opened_at && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Opened</span>
+                      <span className="font-mono text-foreground">{node.profile.opened_at}</span>
+                    </div>
+                  )}
+                  {node.profile.declared_income !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Declared Income</span>
+                      <span className="font-mono text-foreground">
+                        {formatCurrency(node.profile.declared_income, currency)}/yr
+                      </span>
+                    </div>
+                  )}
+                  {node.profile.country && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Country</span>
+                      <span className="font-mono text-foreground">{node.profile.country}</span>
+                    </div>
+                  )}
+                  {node.profile.risk_rating && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Risk Rating</span>
+                      <span
+                        className={`font-mono ${node.profile.risk_rating === "high" ? "text-destructive" : node.profile.risk_rating === "medium" ? "text-warning" : "text-success"}`}
+                      >
+                        {RISK_RATING_LABELS[node.profile.risk_rating]}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-muted-foreground">Suspicion Score</span>
               <span className={`font-mono font-bold ${node.suspicionScore >= 60 ? "text-destructive" : node.suspicionScore >= 30 ? "text-warning" : "text-success"}`}>
@@ -33,16 +110,31 @@ const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose }) => {
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Total Sent</span>
-              <span className="font-mono text-foreground">${node.totalSent.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+              <span className="font-mono text-foreground">{formatCurrency(node.totalSent, currency)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Total Received</span>
-              <span className="font-mono text-foreground">${node.totalReceived.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+              <span className="font-mono text-foreground">{formatCurrency(node.totalReceived, currency)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Transactions</span>
               <span className="font-mono text-foreground">{node.transactionCount}</span>
             </div>
+            {showOriginals && (
+              <div>
+                <p className="text-muted-foreground mb-1.5">Original Currency Amounts</p>
+                <div className="space-y-1 text-xs font-mono">
+                  {originalCurrencies.map((c) => (
+                    <div key={c} className="flex justify-between">
+                      <span className="text-muted-foreground">{c}</span>
+                      <span className="text-foreground">
+                        ↑ {formatCurrency(node.originalTotals[c].sent, c)} • ↓ {formatCurrency(node.originalTotals[c].received, c)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             {node.patterns.length > 0 && (
               <div>
                 <p className="text-muted-foreground mb-1.5">Detected Patterns</p>
@@ -55,6 +147,12 @@ const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose }) => {
                 </div>
               </div>
             )}
+            {node.scoreContributions.length > 0 && (
+              <div>
+                <p className="text-muted-foreground mb-1.5">Score Breakdown</p>
+                <ScoreWaterfall contributions={node.scoreContributions} score={node.suspicionScore} />
+              </div>
+            )}
             {node.ringIds.length > 0 && (
               <div>
                 <p className="text-muted-foreground mb-1.5">Ring Membership</p>
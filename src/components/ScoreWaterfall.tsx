@@ -0,0 +1,62 @@
+import React from "react";
+import { ScoreContribution } from "@/lib/types";
+import { SCORE_FACTOR_LABELS } from "@/lib/graphAnalysis";
+
+interface ScoreWaterfallProps {
+  contributions: ScoreContribution[];
+  score: number;
+}
+
+// Each bar spans from the running total before a factor to the total after it. The axis runs to 100,
+// or further when factors add up past the cap, so the cap's cut is drawn from the uncapped peak.
+const ScoreWaterfall: React.FC<ScoreWaterfallProps> = ({ contributions, score }) => {
+  let running = 0;
+  let peak = 100;
+  const steps = contributions.map((c) => {
+    const from = running;
+    running += c.points;
+    peak = Math.max(peak, running);
+    return { ...c, from, to: running };
+  });
+  const percent = (value: number) => (Math.min(Math.max(value, 0), peak) / peak) * 100;
+  const capMark = peak > 100 ? `${percent(100)}%` : undefined;
+
+  return (
+    <div className="space-y-1.5">
+      {steps.map((s, i) => (
+        <div key={`${s.factor}-${i}`} title={s.evidence}>
+          <div className="flex justify-between text-[11px]">
+            <span className="text-foreground font-mono truncate">{SCORE_FACTOR_LABELS[s.factor] ?? s.factor}</span>
+            <span className={`font-mono ${s.points < 0 ? "text-success" : "text-destructive"}`}>
+              {s.points > 0 ? "+" : ""}
+              {s.points}
+            </span>
+          </div>
+          <div className="relative h-1.5 rounded bg-muted/40">
+            <div
+              className={`absolute h-full rounded ${s.points < 0 ? "bg-success/70" : "bg-destructive/70"}`}
+              style={{
+                left: `${percent(Math.min(s.from, s.to))}%`,
+                width: `${percent(Math.max(s.from, s.to)) - percent(Math.min(s.from, s.to))}%`,
+              }}
+            />
+            {capMark && <div className="absolute h-full w-px bg-foreground/40" style={{ left: capMark }} />}
+          </div>
+          <p className="text-[10px] text-muted-foreground truncate">{s.evidence}</p>
+        </div>
+      ))}
+      <div className="pt-1 border-t border-border">
+        <div className="flex justify-between text-[11px]">
+          <span className="text-foreground font-semibold">Final score</span>
+          <span className="font-mono font-bold text-foreground">{score.toFixed(1)}</span>
+        </div>
+        <div className="relative h-1.5 rounded bg-muted/40">
+          <div className="absolute h-full rounded bg-primary/70" style={{ width: `${percent(score)}%` }} />
+          {capMark && <div className="absolute h-full w-px bg-foreground/40" style={{ left: capMark }} />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreWaterfall;
@@ -1,20 +1,77 @@
-import React from "react";
+import React, { useState } from "react";
 import { motion } from "framer-motion";
-import { SuspiciousAccount } from "@/lib/types";
+import { ClipboardCheck, Network } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CaseWorkflow, DispositionState, SuspiciousAccount } from "@/lib/types";
+import { DISPOSITION_STATES, getDisposition } from "@/lib/disposition";
+
+// Radix Select items cannot use an empty value
+const ALL_STATES = "__all__";
 
 interface SuspiciousAccountsTableProps {
   accounts: SuspiciousAccount[];
+  workflow: CaseWorkflow;
+  analyst: string;
+  onAnalystChange: (name: string) => void;
+  onTriage: (account: SuspiciousAccount) => void;
+  onAccountClick?: (account: SuspiciousAccount) => void;
+  // Open the account's neighbourhood in the graph
+  onExplore?: (account: SuspiciousAccount) => void;
 }
 
-const SuspiciousAccountsTable: React.FC<SuspiciousAccountsTableProps> = ({ accounts }) => {
+const SuspiciousAccountsTable: React.FC<SuspiciousAccountsTableProps> = ({
+  accounts,
+  workflow,
+  analyst,
+  onAnalystChange,
+  onTriage,
+  onAccountClick,
+  onExplore,
+}) => {
+  const [stateFilter, setStateFilter] = useState<DispositionState | typeof ALL_STATES>(ALL_STATES);
+
+  const stateCounts = new Map<DispositionState, number>();
+  for (const acc of accounts) {
+    const state = getDisposition(workflow, acc.account_id);
+    stateCounts.set(state, (stateCounts.get(state) || 0) + 1);
+  }
+  const visible =
+    stateFilter === ALL_STATES ? accounts : accounts.filter((a) => getDisposition(workflow, a.account_id) === stateFilter);
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
       className="bg-card border border-border rounded-lg overflow-hidden"
     >
-      <div className="p-4 border-b border-border">
+      <div className="p-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
         <h3 className="text-sm font-semibold text-foreground">Suspicious Accounts</h3>
+        <div className="flex items-center gap-2">
+          <Input
+            value={analyst}
+            onChange={(e) => onAnalystChange(e.target.value)}
+            placeholder="Your analyst name"
+            className="h-8 w-40 text-xs"
+          />
+          <Select value={stateFilter} onValueChange={(v) => setStateFilter(v as DispositionState | typeof ALL_STATES)}>
+            <SelectTrigger className="h-8 w-52 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATES} className="text-xs">
+                All states ({accounts.length})
+              </SelectItem>
+              {DISPOSITION_STATES.map((s) => (
+                <SelectItem key={s.state} value={s.state} className="text-xs">
+                  {s.label} ({stateCounts.get(s.state) || 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       <div className="overflow-x-auto max-h-72 overflow-y-auto">
         <table className="w-full text-sm">
@@ -24,31 +81,77 @@ const SuspiciousAccountsTable: React.FC<SuspiciousAccountsTableProps> = ({ accou
               <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Score</th>
               <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Patterns</th>
               <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Ring</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">State</th>
+              <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Assignee</th>
+              <th className="p-3" />
             </tr>
           </thead>
           <tbody>
-            {accounts.map((acc) => (
-              <tr key={acc.account_id} className="border-b border-border/50 hover:bg-muted/20 transition-colors">
-                <td className="p-3 font-mono text-xs text-foreground">{acc.account_id}</td>
-                <td className="p-3">
-                  <span className={`font-mono text-xs font-bold ${
-                    acc.suspicion_score >= 60 ? "text-destructive" : acc.suspicion_score >= 30 ? "text-warning" : "text-primary"
-                  }`}>
-                    {acc.suspicion_score.toFixed(1)}
-                  </span>
-                </td>
-                <td className="p-3">
-                  <div className="flex flex-wrap gap-1">
-                    {acc.detected_patterns.map((p) => (
-                      <span key={p} className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground font-mono">
-                        {p}
-                      </span>
-                    ))}
-                  </div>
-                </td>
-                <td className="p-3 font-mono text-xs text-primary">{acc.ring_id}</td>
-              </tr>
-            ))}
+            {visible.map((acc) => {
+              const disposition = workflow.dispositions[acc.account_id];
+              const stateInfo = DISPOSITION_STATES.find((s) => s.state === (disposition?.state ?? "new"))!;
+              return (
+                <tr
+                  key={acc.account_id}
+                  className="border-b border-border/50 hover:bg-muted/20 cursor-pointer transition-colors"
+                  onClick={() => onAccountClick?.(acc)}
+                >
+                  <td className="p-3 font-mono text-xs text-foreground">{acc.account_id}</td>
+                  <td className="p-3">
+                    <span className={`font-mono text-xs font-bold ${
+                      acc.suspicion_score >= 60 ? "text-destructive" : acc.suspicion_score >= 30 ? "text-warning" : "text-primary"
+                    }`}>
+                      {acc.suspicion_score.toFixed(1)}
+                    </span>
+                  </td>
+                  <td className="p-3">
+                    <div className="flex flex-wrap gap-1">
+                      {acc.detected_patterns.map((p) => (
+                        <span key={p} className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground font-mono">
+                          {p}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="p-3 font-mono text-xs text-primary">{acc.ring_id}</td>
+                  <td className="p-3">
+                    <Badge variant="outline" className={`text-[10px] whitespace-nowrap ${stateInfo.className}`}>
+                      {stateInfo.label}
+                    </Badge>
+                  </td>
+                  <td className="p-3 text-xs text-muted-foreground">{disposition?.assignee || "—"}</td>
+                  <td className="p-3">
+                    <div className="flex items-center gap-1">
+                      {onExplore && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Explore in graph"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onExplore(acc);
+                          }}
+                        >
+                          <Network className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onTriage(acc);
+                        }}
+                      >
+                        <ClipboardCheck className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronDown, Dices, Download, FlaskConical, Play, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { SyntheticConfig } from "@/lib/types";
+import { ConfigField } from "@/lib/detectors";
+import {
+  BACKGROUND_FIELDS,
+  SYNTHETIC_TYPOLOGIES,
+  buildLabelsCSV,
+  getDefaultSyntheticConfig,
+  validateSyntheticConfig,
+} from "@/lib/sampleData";
+import { randomSeed } from "@/lib/random";
+import { downloadFile } from "@/lib/download";
+import { generateDataset } from "@/lib/analysisClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SyntheticDataPanelProps {
+  config: SyntheticConfig;
+  onChange: (config: SyntheticConfig) => void;
+  onGenerate: () => void;
+  disabled?: boolean;
+}
+
+// Unparseable input becomes NaN so validation reports it
+function parseNumber(text: string): number {
+  return text.trim() === "" ? NaN : Number(text);
+}
+
+const SyntheticDataPanel: React.FC<SyntheticDataPanelProps> = ({ config, onChange, onGenerate, disabled }) => {
+  const [open, setOpen] = useState(false);
+  // Raw text per "group.key" so partially typed values survive re-renders
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const issues = validateSyntheticConfig(config);
+  const valid = issues.length === 0;
+  const injected = SYNTHETIC_TYPOLOGIES.reduce((sum, t) => sum + (config.typologies[t.id]?.count || 0), 0);
+
+  const setBackground = (key: string, text: string) => {
+    setDrafts((d) => ({ ...d, [`background.${key}`]: text }));
+    onChange({ ...config, [key]: parseNumber(text) });
+  };
+
+  const setTypologyParam = (typologyId: string, key: string, text: string) => {
+    setDrafts((d) => ({ ...d, [`${typologyId}.${key}`]: text }));
+    onChange({
+      ...config,
+      typologies: { ...config.typologies, [typologyId]: { ...config.typologies[typologyId], [key]: parseNumber(text) } },
+    });
+  };
+
+  const replaceConfig = (next: SyntheticConfig) => {
+    setDrafts({});
+    onChange(next);
+  };
+
+  // Generation is deterministic, so each download builds the dataset afresh in the worker
+  const handleDownload = async (part: "transactions" | "labels") => {
+    setDownloading(true);
+    try {
+      const dataset = await generateDataset(config);
+      if (part === "transactions") downloadFile(dataset.csv, `synthetic_${config.seed}.csv`, "text/csv");
+      else downloadFile(buildLabelsCSV(dataset.labels), `synthetic_${config.seed}_labels.csv`, "text/csv");
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message || "Generation failed", variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderField = (group: string, field: ConfigField, value: number | undefined, onEdit: (text: string) => void) => {
+    const issue = issues.find((i) => i.detector === group && i.key === field.key);
+    const draftKey = `${group}.${field.key}`;
+    return (
+      <div key={field.key} className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[11px] text-foreground">{field.label}</span>
+          {field.unit && <span className="text-[10px] text-muted-foreground">{field.unit}</span>}
+        </div>
+        <Input
+          value={drafts[draftKey] ?? (value === undefined || Number.isNaN(value) ? "" : String(value))}
+          onChange={(e) => onEdit(e.target.value)}
+          inputMode="decimal"
+          disabled={disabled}
+          className={`h-7 text-xs font-mono ${issue ? "border-destructive/60" : ""}`}
+        />
+        {issue && <p className="text-[10px] text-destructive">{issue.message}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="bg-card border border-border rounded-lg">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger asChild>
+          <button className="w-full p-4 flex items-center justify-between gap-4 text-left">
+            <div className="flex items-center gap-2">
+              <FlaskConical className="w-4 h-4 text-primary" />
+              <div>
+                <p className="text-sm font-semibold text-foreground">Synthetic Data</p>
+                <p className="text-[11px] text-muted-foreground">
+                  Seed {config.seed} • {Number.isNaN(config.accounts) ? "?" : config.accounts.toLocaleString()} background
+                  accounts • {injected} injected instances
+                  {!valid && <span className="text-destructive"> • {issues.length} invalid</span>}
+                </p>
+              </div>
+            </div>
+            <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="px-4 pb-4 border-b border-border flex items-center justify-between flex-wrap gap-3">
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] text-muted-foreground">Seed</span>
+              <Input
+                value={drafts["background.seed"] ?? String(config.seed)}
+                onChange={(e) => setBackground("seed", e.target.value)}
+                inputMode="numeric"
+                disabled={disabled}
+                className="h-8 w-32 text-xs font-mono"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => replaceConfig({ ...config, seed: randomSeed() })}
+                disabled={disabled}
+              >
+                <Dices className="w-3.5 h-3.5 text-muted-foreground" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => replaceConfig(getDefaultSyntheticConfig(config.seed))}
+                disabled={disabled}
+                className="gap-2 text-xs"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Defaults
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload("transactions")}
+                disabled={disabled || downloading || !valid}
+                className="gap-2 text-xs"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Transactions
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload("labels")}
+                disabled={disabled || downloading || !valid}
+                className="gap-2 text-xs"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Labels
+              </Button>
+              <Button size="sm" onClick={onGenerate} disabled={disabled || !valid} className="gap-2 text-xs">
+                <Play className="w-3.5 h-3.5" />
+                Generate &amp; Analyze
+              </Button>
+            </div>
+          </div>
+
+          <div className="p-4 grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+            <div className="bg-muted/30 rounded-md p-3 space-y-2.5">
+              <span className="text-xs font-semibold text-foreground">Background</span>
+              {BACKGROUND_FIELDS.map((field) =>
+                renderField("background", field, config[field.key as keyof SyntheticConfig] as number, (text) =>
+                  setBackground(field.key, text)
+                )
+              )}
+            </div>
+            {SYNTHETIC_TYPOLOGIES.map((t) => (
+              <div key={t.id} className="bg-muted/30 rounded-md p-3 space-y-2.5">
+                <span className="text-xs font-semibold text-foreground">{t.label}</span>
+                {t.fields.map((field) =>
+                  renderField(t.id, field, config.typologies[t.id]?.[field.key], (text) => setTypologyParam(t.id, field.key, text))
+                )}
+              </div>
+            ))}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </motion.div>
+  );
+};
+
+export default SyntheticDataPanel;
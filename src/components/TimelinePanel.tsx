@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Clock, Pause, Play, RotateCcw, SkipBack, StepBack, StepForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TimeWindow } from "@/lib/types";
+import { stepAt } from "@/lib/timeline";
+
+interface TimelinePanelProps {
+  // Span of all transfers in the graph
+  bounds: TimeWindow;
+  // Window applied to the graph and tables; null shows everything
+  timeWindow: TimeWindow | null;
+  onWindowChange: (window: TimeWindow | null) => void;
+  // Distinct transfer times inside the window, ascending
+  times: number[];
+  // Latest transfer time revealed; null when not playing back
+  playhead: number | null;
+  onPlayheadChange: (time: number | null) => void;
+  revealed: number;
+  total: number;
+}
+
+const TICK_MS = 600;
+// Transfer times advanced per tick
+const SPEEDS = [1, 5, 25];
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString();
+}
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  bounds,
+  timeWindow,
+  onWindowChange,
+  times,
+  playhead,
+  onPlayheadChange,
+  revealed,
+  total,
+}) => {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[0]);
+  // Window being dragged; committed on release so the tables do not refilter on every move
+  const [draft, setDraft] = useState<[number, number] | null>(null);
+  const active = timeWindow ?? bounds;
+  const step = stepAt(times, playhead);
+  const atEnd = step >= times.length - 1;
+  // Slider steps of about a thousandth of the span, never below a second
+  const sliderStep = Math.max(1000, Math.round((bounds.end - bounds.start) / 1000));
+
+  // The interval reads the latest step without restarting on every tick
+  const stepRef = useRef(step);
+  stepRef.current = step;
+
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => {
+      const next = Math.min(stepRef.current + speed, times.length - 1);
+      onPlayheadChange(times[next]);
+      if (next >= times.length - 1) setPlaying(false);
+    }, TICK_MS);
+    return () => clearInterval(id);
+  }, [playing, speed, times, onPlayheadChange]);
+
+  // A new window restarts playback from the full view
+  useEffect(() => setPlaying(false), [timeWindow]);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (times.length === 0) return;
+    if (playhead === null || atEnd) onPlayheadChange(times[0]);
+    setPlaying(true);
+  };
+
+  const stepBy = (offset: number) => {
+    if (times.length === 0) return;
+    setPlaying(false);
+    onPlayheadChange(times[Math.max(0, Math.min(step + offset, times.length - 1))]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="bg-card border border-border rounded-lg p-4 space-y-4"
+    >
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-primary" />
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Timeline</h3>
+            <p className="text-[11px] text-muted-foreground">
+              {formatTime(draft ? draft[0] : active.start)} → {formatTime(draft ? draft[1] : active.end)}
+              {timeWindow && " • graph and tables filtered"}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2 text-xs"
+          onClick={() => onWindowChange(null)}
+          disabled={!timeWindow}
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Full range
+        </Button>
+      </div>
+
+      <Slider
+        value={draft ?? [active.start, active.end]}
+        min={bounds.start}
+        max={bounds.end}
+        step={sliderStep}
+        minStepsBetweenThumbs={1}
+        onValueChange={([start, end]) => setDraft([start, end])}
+        onValueCommit={([start, end]) => {
+          setDraft(null);
+          onWindowChange(start <= bounds.start && end >= bounds.end ? null : { start, end });
+        }}
+        disabled={bounds.end <= bounds.start}
+      />
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title="Show every transfer in the window"
+          onClick={() => {
+            setPlaying(false);
+            onPlayheadChange(null);
+          }}
+          disabled={playhead === null}
+        >
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepBy(-1)} disabled={step <= 0}>
+          <StepBack className="w-4 h-4" />
+        </Button>
+        <Button size="icon" className="h-8 w-8" onClick={togglePlay} disabled={times.length === 0}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepBy(1)} disabled={atEnd}>
+          <StepForward className="w-4 h-4" />
+        </Button>
+        <Slider
+          className="flex-1 mx-2"
+          value={[Math.max(step, 0)]}
+          min={0}
+          max={Math.max(times.length - 1, 0)}
+          step={1}
+          onValueChange={([i]) => {
+            setPlaying(false);
+            onPlayheadChange(times[i]);
+          }}
+          disabled={times.length === 0}
+        />
+        <Select value={String(speed)} onValueChange={(v) => setSpeed(Number(v))}>
+          <SelectTrigger className="h-8 w-20 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEEDS.map((s) => (
+              <SelectItem key={s} value={String(s)} className="text-xs">
+                {s}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-[11px] text-muted-foreground font-mono">
+        {playhead === null
+          ? `${total.toLocaleString()} transfers in view`
+          : `${revealed.toLocaleString()} / ${total.toLocaleString()} transfers • ${formatTime(playhead)}`}
+      </p>
+    </motion.div>
+  );
+};
+
+export default TimelinePanel;
@@ -1,4 +1,4 @@
-import React, { useMemo, useCallback, useState } from "react";
+import React, { useMemo, useCallback, useEffect, useRef, useState } from "react";
 import {
   ReactFlow,
   Background,
@@ -12,15 +12,85 @@ import {
   Handle,
   Position,
   NodeProps,
+  OnNodeDrag,
+  useNodesInitialized,
+  useReactFlow,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
-import { GraphNode as GNode, GraphEdge, FraudRing } from "@/lib/types";
+import { animate } from "framer-motion";
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ChevronLeft,
+  ChevronRight,
+  Crosshair,
+  Dices,
+  Eye,
+  EyeOff,
+  FileSearch,
+  Loader2,
+  Minimize2,
+  Network,
+  Pin,
+  PinOff,
+  RotateCcw,
+  Route,
+  X,
+} from "lucide-react";
+import {
+  GraphNode as GNode,
+  GraphEdge,
+  FraudRing,
+  GraphLayout,
+  GraphLayoutType,
+  NodePosition,
+  EgoDirection,
+  EgoNetwork,
+} from "@/lib/types";
 import NodeDetailPanel from "./NodeDetailPanel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/currency";
+import { findDetectorForPattern, getDetectors } from "@/lib/detectors";
+import { GRAPH_LAYOUTS, createGraphLayout } from "@/lib/graphLayout";
+import { computeLayout } from "@/lib/layoutClient";
+import { randomSeed } from "@/lib/random";
+import { RING_TYPE_LABELS } from "@/lib/evidence";
+import {
+  buildAdjacency,
+  collapseNode,
+  createEgoNetwork,
+  expandNode,
+  hideNode,
+  moveNodes,
+  pendingNeighbours,
+  startEgoNetwork,
+  togglePin,
+  unhideAll,
+} from "@/lib/egoNetwork";
+import { useToast } from "@/hooks/use-toast";
 
 interface TransactionGraphProps {
   nodes: GNode[];
   edges: GraphEdge[];
   rings: FraudRing[];
+  currency: string;
+  // Arrangement to draw; when any node lacks a position the whole layout is recomputed
+  layout: GraphLayout;
+  onLayoutChange: (layout: GraphLayout) => void;
+  // Ring the view is zoomed to, with everything outside it dimmed
+  focusedRingId: string | null;
+  onFocusRing: (ringId: string | null) => void;
+  onRingEvidence?: (ring: FraudRing) => void;
+  // Investigation mode: when set, only the accounts explored from its root are drawn
+  ego: EgoNetwork | null;
+  onEgoChange: (ego: EgoNetwork | null) => void;
+  // Timeline playback: net position per account so far, and the accounts that just moved money
+  balances?: Map<string, number> | null;
+  recentAccounts?: Set<string> | null;
+  // Follow the money of the selected account in the tracing view
+  onTraceAccount?: (accountId: string) => void;
 }
 
 // Ring color palette
@@ -33,6 +103,43 @@ const RING_COLORS = [
   "hsl(330, 70%, 55%)",  // pink
 ];
 
+interface RingStep {
+  step: number;
+  amount: number;
+}
+
+// "#1 $500 · #4 $300" along an edge; long runs show the first three
+function stepLabel(steps: RingStep[], currency: string): string {
+  const shown = steps
+    .slice(0, 3)
+    .map((s) => `#${s.step} ${formatCurrency(s.amount, currency, { maximumFractionDigits: 0 })}`)
+    .join(" · ");
+  return steps.length > 3 ? `${shown} +${steps.length - 3}` : shown;
+}
+
+// Eases between values so money arriving and leaving reads as movement
+const AnimatedBalance: React.FC<{ value: number; currency: string }> = ({ value, currency }) => {
+  const [shown, setShown] = useState(value);
+  const shownRef = useRef(value);
+
+  useEffect(() => {
+    const controls = animate(shownRef.current, value, {
+      duration: 0.4,
+      onUpdate: (v) => {
+        shownRef.current = v;
+        setShown(v);
+      },
+    });
+    return () => controls.stop();
+  }, [value]);
+
+  return (
+    <span className={value >= 0 ? "text-success" : "text-destructive"}>
+      {formatCurrency(shown, currency, { maximumFractionDigits: 0 })}
+    </span>
+  );
+};
+
 function CustomNode({ data }: NodeProps) {
   const nodeData = data as any;
   const isSuspicious = nodeData.isSuspicious;
@@ -48,11 +155,22 @@ function CustomNode({ data }: NodeProps) {
 
   const size = isSuspicious ? 48 : 36;
 
+  // One dot per detector that flagged this account, coloured as in the legend
+  const detectorColors = Array.from(
+    new Set(
+      ((nodeData.patterns || []) as string[])
+        .map((p) => findDetectorForPattern(p)?.color)
+        .filter((c): c is string => !!c)
+    )
+  );
+
   return (
     <>
       <Handle type="target" position={Position.Left} className="!bg-primary !border-0 !w-1.5 !h-1.5" />
       <div
-        className="rounded-full flex items-center justify-center transition-all cursor-pointer"
+        className={`rounded-full flex items-center justify-center transition-all cursor-pointer ${
+          nodeData.isRoot ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""
+        } ${nodeData.recent ? "scale-125" : ""}`}
         style={{
           width: size,
           height: size,
@@ -65,6 +183,22 @@ function CustomNode({ data }: NodeProps) {
           {String(nodeData.label).replace("ACC_", "").slice(-4)}
         </span>
       </div>
+      {nodeData.balance !== undefined && (
+        <div className="absolute left-1/2 -translate-x-1/2 -bottom-6 whitespace-nowrap text-[9px] font-mono bg-card/90 px-1 rounded">
+          <AnimatedBalance value={nodeData.balance} currency={nodeData.currency} />
+        </div>
+      )}
+      {nodeData.pinned && <Pin className="absolute -top-2 -right-2 w-3 h-3 text-primary" />}
+      {nodeData.unexplored > 0 && (
+        <span className="absolute -top-2 -left-3 text-[8px] font-mono text-muted-foreground">+{nodeData.unexplored}</span>
+      )}
+      {detectorColors.length > 0 && (
+        <div className="absolute left-1/2 -translate-x-1/2 -bottom-2 flex gap-0.5">
+          {detectorColors.map((c) => (
+            <div key={c} className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: c }} />
+          ))}
+        </div>
+      )}
       <Handle type="source" position={Position.Right} className="!bg-primary !border-0 !w-1.5 !h-1.5" />
     </>
   );
@@ -72,58 +206,108 @@ function CustomNode({ data }: NodeProps) {
 
 const nodeTypes = { custom: CustomNode };
 
-const TransactionGraph: React.FC<TransactionGraphProps> = ({ nodes, edges, rings }) => {
+interface GraphCanvasProps {
+  nodes: Node[];
+  edges: Edge[];
+  onNodeClick: (event: React.MouseEvent, node: Node) => void;
+  onPaneClick: () => void;
+  onNodeDragStop: OnNodeDrag;
+  focusIds: string[] | null;
+}
+
+// Frames the focused nodes, or the whole graph once focus is cleared
+const FocusViewport: React.FC<{ nodeIds: string[] | null }> = ({ nodeIds }) => {
+  const { fitView } = useReactFlow();
+  const initialized = useNodesInitialized();
+  // Nodes are re-measured after drags and restyling; only a new focus should move the view
+  const framed = useRef<string[] | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!initialized || framed.current === nodeIds) return;
+    framed.current = nodeIds;
+    fitView({ nodes: nodeIds?.map((id) => ({ id })), padding: 0.3, duration: 500 });
+  }, [nodeIds, initialized, fitView]);
+
+  return null;
+};
+
+// Mounted only once every node has a position, so fitView frames the finished layout
+const GraphCanvas: React.FC<GraphCanvasProps> = ({ nodes, edges, onNodeClick, onPaneClick, onNodeDragStop, focusIds }) => {
+  const [rfNodes, setRfNodes, onNodesChange] = useNodesState(nodes);
+  const [rfEdges, setRfEdges, onEdgesChange] = useEdgesState(edges);
+
+  useEffect(() => setRfNodes(nodes), [nodes, setRfNodes]);
+  useEffect(() => setRfEdges(edges), [edges, setRfEdges]);
+
+  return (
+    <ReactFlow
+      nodes={rfNodes}
+      edges={rfEdges}
+      onNodesChange={onNodesChange}
+      onEdgesChange={onEdgesChange}
+      onNodeClick={onNodeClick}
+      onPaneClick={onPaneClick}
+      onNodeDragStop={onNodeDragStop}
+      nodeTypes={nodeTypes}
+      fitView
+      minZoom={0.1}
+      maxZoom={3}
+      proOptions={{ hideAttribution: true }}
+    >
+      <Background color="hsl(220, 15%, 15%)" gap={20} size={1} />
+      <Controls />
+      <MiniMap
+        nodeStrokeWidth={3}
+        nodeColor={(n: Node) => {
+          const d = n.data as any;
+          return d?.isSuspicious ? "hsl(0, 72%, 55%)" : "hsl(185, 80%, 50%)";
+        }}
+        maskColor="hsl(220, 20%, 7%, 0.7)"
+      />
+      <FocusViewport nodeIds={focusIds} />
+    </ReactFlow>
+  );
+};
+
+const TransactionGraph: React.FC<TransactionGraphProps> = ({
+  nodes,
+  edges,
+  rings,
+  currency,
+  layout,
+  onLayoutChange,
+  focusedRingId,
+  onFocusRing,
+  onRingEvidence,
+  ego,
+  onEgoChange,
+  balances,
+  recentAccounts,
+  onTraceAccount,
+}) => {
+  const { toast } = useToast();
   const [selectedNode, setSelectedNode] = useState<GNode | null>(null);
+  const [search, setSearch] = useState("");
+
+  // Legend lists only registered detectors that flagged something in this graph
+  const detectedPatterns = useMemo(() => {
+    const seen = new Set(nodes.flatMap((n) => n.patterns));
+    return getDetectors().filter((d) => Object.keys(d.weights).some((p) => seen.has(p)));
+  }, [nodes]);
 
-  // Position nodes using force-directed-like layout
-  const { flowNodes, flowEdges } = useMemo(() => {
-    const ringMembership = new Map<string, number>();
+  const ringMembership = useMemo(() => {
+    const membership = new Map<string, number>();
     rings.forEach((ring, i) => {
       ring.member_accounts.forEach((acc) => {
-        if (!ringMembership.has(acc)) ringMembership.set(acc, i);
-      });
-    });
-
-    // Simple circular layout with ring clustering
-    const suspicious = nodes.filter((n) => n.isSuspicious);
-    const normal = nodes.filter((n) => !n.isSuspicious);
-
-    const flowNodes: Node[] = [];
-    const centerX = 400;
-    const centerY = 300;
-
-    // Place suspicious nodes in inner ring
-    suspicious.forEach((n, i) => {
-      const angle = (2 * Math.PI * i) / Math.max(suspicious.length, 1);
-      const radius = 150 + (ringMembership.get(n.id) || 0) * 30;
-      flowNodes.push({
-        id: n.id,
-        type: "custom",
-        position: {
-          x: centerX + radius * Math.cos(angle) + (Math.random() - 0.5) * 40,
-          y: centerY + radius * Math.sin(angle) + (Math.random() - 0.5) * 40,
-        },
-        data: { label: n.id, ...n },
-      });
-    });
-
-    // Place normal nodes in outer ring
-    normal.forEach((n, i) => {
-      const angle = (2 * Math.PI * i) / Math.max(normal.length, 1);
-      const radius = 350 + (Math.random() - 0.5) * 60;
-      flowNodes.push({
-        id: n.id,
-        type: "custom",
-        position: {
-          x: centerX + radius * Math.cos(angle) + (Math.random() - 0.5) * 30,
-          y: centerY + radius * Math.sin(angle) + (Math.random() - 0.5) * 30,
-        },
-        data: { label: n.id, ...n },
+        if (!membership.has(acc)) membership.set(acc, i);
       });
     });
+    return membership;
+  }, [rings]);
 
-    // Deduplicate edges (aggregate multiple transactions between same pair)
-    const edgeMap = new Map<string, { amount: number; count: number }>();
+  // Deduplicate edges (aggregate multiple transactions between same pair)
+  const edgeTotals = useMemo(() => {
+    const edgeMap = new Map<string, { source: string; target: string; amount: number; count: number }>();
     edges.forEach((e) => {
       const key = `${e.source}->${e.target}`;
       const existing = edgeMap.get(key);
@@ -131,48 +315,170 @@ const TransactionGraph: React.FC<TransactionGraphProps> = ({ nodes, edges, rings
         existing.amount += e.amount;
         existing.count++;
       } else {
-        edgeMap.set(key, { amount: e.amount, count: 1 });
+        edgeMap.set(key, { source: e.source, target: e.target, amount: e.amount, count: 1 });
       }
     });
+    return edgeMap;
+  }, [edges]);
+
+  const focusIndex = focusedRingId ? rings.findIndex((r) => r.ring_id === focusedRingId) : -1;
+  // Ring focus applies to the full graph only
+  const focusRing = !ego && focusIndex >= 0 ? rings[focusIndex] : null;
+  const focusMembers = useMemo(() => (focusRing ? new Set(focusRing.member_accounts) : null), [focusRing]);
+
+  // The focused ring's transfers numbered in time order, grouped by the edge they travel
+  const focusSteps = useMemo(() => {
+    const steps = new Map<string, RingStep[]>();
+    if (!focusRing) return steps;
+    const ids = new Set(focusRing.evidence.transaction_ids);
+    edges
+      .filter((e) => ids.has(e.transactionId))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .forEach((e, i) => {
+        const key = `${e.source}->${e.target}`;
+        steps.set(key, [...(steps.get(key) ?? []), { step: i + 1, amount: e.amount }]);
+      });
+    return steps;
+  }, [focusRing, edges]);
+  const focusTransfers = Array.from(focusSteps.values()).reduce((sum, s) => sum + s.length, 0);
+
+  const stepRing = (offset: number) => {
+    onFocusRing(rings[(focusIndex + offset + rings.length) % rings.length].ring_id);
+  };
+
+  const exploring = ego !== null;
+  const adjacency = useMemo(() => (exploring ? buildAdjacency(edges) : null), [exploring, edges]);
+  // A freshly requested ego network holds only its root; place the first hop here
+  const view = useMemo(
+    () =>
+      ego && adjacency
+        ? Object.keys(ego.positions).length > 0
+          ? ego
+          : startEgoNetwork(adjacency, ego.root)
+        : null,
+    [ego, adjacency]
+  );
+
+  const { type: layoutType, seed: layoutSeed, positions } = layout;
+  const placed = nodes.every((n) => positions[n.id]);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
 
-    const flowEdges: Edge[] = Array.from(edgeMap.entries()).map(([key, data]) => {
-      const [source, target] = key.split("->");
-      const isSuspiciousEdge =
-        ringMembership.has(source) && ringMembership.has(target) &&
-        ringMembership.get(source) === ringMembership.get(target);
-
-      return {
-        id: key,
-        source,
-        target,
-        animated: isSuspiciousEdge,
-        style: {
-          stroke: isSuspiciousEdge
-            ? RING_COLORS[ringMembership.get(source)! % RING_COLORS.length]
-            : "hsl(220, 15%, 25%)",
-          strokeWidth: isSuspiciousEdge ? 2 : 1,
-          opacity: isSuspiciousEdge ? 0.8 : 0.3,
-        },
-        markerEnd: {
-          type: MarkerType.ArrowClosed,
-          width: 12,
-          height: 12,
-          color: isSuspiciousEdge
-            ? RING_COLORS[ringMembership.get(source)! % RING_COLORS.length]
-            : "hsl(220, 15%, 25%)",
-        },
-        label: isSuspiciousEdge ? `$${data.amount.toFixed(0)}` : undefined,
-        labelStyle: { fill: "hsl(200, 20%, 85%)", fontSize: 9, fontFamily: "JetBrains Mono" },
-        labelBgStyle: { fill: "hsl(220, 18%, 10%)", fillOpacity: 0.9 },
-        labelBgPadding: [4, 2] as [number, number],
-      };
+  useEffect(() => {
+    if (placed) return;
+    const controller = new AbortController();
+    const clusters: Record<string, string> = {};
+    for (const [account, i] of ringMembership) clusters[account] = rings[i].ring_id;
+    setLayoutError(null);
+    computeLayout(
+      {
+        type: layoutType,
+        seed: layoutSeed,
+        nodes: nodes.map((n) => n.id),
+        edges: Array.from(edgeTotals.values(), (e): [string, string] => [e.source, e.target]),
+        clusters,
+      },
+      controller.signal
+    )
+      .then((computed) => onLayoutChange({ type: layoutType, seed: layoutSeed, positions: computed }))
+      .catch((err) => {
+        if ((err as Error).name !== "AbortError") setLayoutError((err as Error).message || "Layout failed");
+      });
+    return () => controller.abort();
+  }, [placed, layoutType, layoutSeed, nodes, rings, ringMembership, edgeTotals, onLayoutChange]);
+
+  const flowNodes = useMemo<Node[]>(() => {
+    const playback = (id: string) => ({
+      balance: balances?.get(id),
+      recent: recentAccounts?.has(id) ?? false,
+      currency,
     });
+    if (view && adjacency) {
+      const pinned = new Set(view.pinned);
+      return nodes
+        .filter((n) => n.id in view.positions)
+        .map((n) => ({
+          id: n.id,
+          type: "custom",
+          position: view.positions[n.id],
+          draggable: !pinned.has(n.id),
+          data: {
+            label: n.id,
+            ...n,
+            ...playback(n.id),
+            isRoot: n.id === view.root,
+            pinned: pinned.has(n.id),
+            unexplored:
+              pendingNeighbours(view, adjacency, n.id, "upstream").length +
+              pendingNeighbours(view, adjacency, n.id, "downstream").length,
+          },
+        }));
+    }
+    return placed
+      ? nodes.map((n) => ({
+          id: n.id,
+          type: "custom",
+          position: positions[n.id],
+          data: { label: n.id, ...n, ...playback(n.id) },
+          style: focusMembers && !focusMembers.has(n.id) ? { opacity: 0.15 } : undefined,
+        }))
+      : [];
+  }, [nodes, positions, placed, focusMembers, view, adjacency, balances, recentAccounts, currency]);
 
-    return { flowNodes, flowEdges };
-  }, [nodes, edges, rings]);
+  const flowEdges = useMemo<Edge[]>(
+    () =>
+      Array.from(edgeTotals.entries())
+        .filter(([, e]) => !view || (e.source in view.positions && e.target in view.positions))
+        .map(([key, data]) => {
+          const { source, target } = data;
+          const isSuspiciousEdge =
+            ringMembership.has(source) && ringMembership.has(target) &&
+            ringMembership.get(source) === ringMembership.get(target);
+          // In focus mode only edges carrying the ring's transfers stand out
+          const steps = focusSteps.get(key);
+          const highlighted = focusRing ? !!steps : isSuspiciousEdge;
+          const color = !highlighted
+            ? "hsl(220, 15%, 25%)"
+            : RING_COLORS[(focusRing ? focusIndex : ringMembership.get(source)!) % RING_COLORS.length];
 
-  const [rfNodes, , onNodesChange] = useNodesState(flowNodes);
-  const [rfEdges, , onEdgesChange] = useEdgesState(flowEdges);
+          return {
+            id: key,
+            source,
+            target,
+            animated: highlighted,
+            style: {
+              stroke: color,
+              strokeWidth: highlighted ? (focusRing ? 2.5 : 2) : 1,
+              opacity: highlighted ? (focusRing ? 1 : 0.8) : focusRing ? 0.06 : 0.3,
+            },
+            markerEnd: {
+              type: MarkerType.ArrowClosed,
+              width: 12,
+              height: 12,
+              color,
+            },
+            label: steps
+              ? stepLabel(steps, currency)
+              : highlighted
+                ? formatCurrency(data.amount, currency, { maximumFractionDigits: 0 })
+                : undefined,
+            labelStyle: { fill: "hsl(200, 20%, 85%)", fontSize: 9, fontFamily: "JetBrains Mono" },
+            labelBgStyle: { fill: "hsl(220, 18%, 10%)", fillOpacity: 0.9 },
+            labelBgPadding: [4, 2] as [number, number],
+          };
+        }),
+    [edgeTotals, ringMembership, currency, focusRing, focusIndex, focusSteps, view]
+  );
+
+  // Dragged nodes keep their place, so the arrangement saved with the case matches the screen
+  const onNodeDragStop = useCallback<OnNodeDrag>(
+    (_, __, dragged) => {
+      const moved: Record<string, NodePosition> = {};
+      for (const n of dragged) moved[n.id] = { x: Math.round(n.position.x), y: Math.round(n.position.y) };
+      if (view) onEgoChange(moveNodes(view, moved));
+      else onLayoutChange({ type: layoutType, seed: layoutSeed, positions: { ...positions, ...moved } });
+    },
+    [layoutType, layoutSeed, positions, onLayoutChange, view, onEgoChange]
+  );
 
   const onNodeClick = useCallback(
     (_: React.MouseEvent, node: Node) => {
@@ -182,33 +488,272 @@ const TransactionGraph: React.FC<TransactionGraphProps> = ({ nodes, edges, rings
     [nodes]
   );
 
+  const exploreFrom = (id: string) => {
+    setSelectedNode(null);
+    onEgoChange(createEgoNetwork(id));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = search.trim();
+    if (!query) return;
+    const match =
+      nodes.find((n) => n.id === query) ?? nodes.find((n) => n.id.toLowerCase() === query.toLowerCase());
+    if (!match) {
+      toast({ title: "Account Not Found", description: `${query} is not in this graph.`, variant: "destructive" });
+      return;
+    }
+    setSearch("");
+    exploreFrom(match.id);
+  };
+
+  // Actions on the selected account while exploring
+  const selectedId = view && selectedNode && selectedNode.id in view.positions ? selectedNode.id : null;
+  const expand = (direction: EgoDirection) => {
+    if (view && adjacency && selectedId) onEgoChange(expandNode(view, adjacency, selectedId, direction));
+  };
+  const pendingCount = (direction: EgoDirection) =>
+    view && adjacency && selectedId ? pendingNeighbours(view, adjacency, selectedId, direction).length : 0;
+  const hiddenCount = view ? Object.keys(view.hidden).length : 0;
+
   return (
     <div className="relative w-full h-[550px] bg-card border border-border rounded-lg overflow-hidden">
-      <ReactFlow
-        nodes={rfNodes}
-        edges={rfEdges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onNodeClick={onNodeClick}
-        onPaneClick={() => setSelectedNode(null)}
-        nodeTypes={nodeTypes}
-        fitView
-        minZoom={0.3}
-        maxZoom={3}
-        proOptions={{ hideAttribution: true }}
-      >
-        <Background color="hsl(220, 15%, 15%)" gap={20} size={1} />
-        <Controls />
-        <MiniMap
-          nodeStrokeWidth={3}
-          nodeColor={(n: Node) => {
-            const d = n.data as any;
-            return d?.isSuspicious ? "hsl(0, 72%, 55%)" : "hsl(185, 80%, 50%)";
-          }}
-          maskColor="hsl(220, 20%, 7%, 0.7)"
+      {view || placed ? (
+        <GraphCanvas
+          key={view ? `ego:${view.root}` : "graph"}
+          nodes={flowNodes}
+          edges={flowEdges}
+          onNodeClick={onNodeClick}
+          onPaneClick={() => setSelectedNode(null)}
+          onNodeDragStop={onNodeDragStop}
+          focusIds={focusRing ? focusRing.member_accounts : null}
         />
-      </ReactFlow>
-      <NodeDetailPanel node={selectedNode} onClose={() => setSelectedNode(null)} />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          {layoutError ? (
+            <span className="text-destructive">{layoutError}</span>
+          ) : (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Arranging {nodes.length.toLocaleString()} accounts…
+            </>
+          )}
+        </div>
+      )}
+      <div className="absolute top-4 left-4 z-10 bg-card/90 border border-border rounded-lg p-1.5 flex items-center gap-1">
+        <form onSubmit={handleSearch}>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Explore account…"
+            className="h-7 w-36 text-xs font-mono"
+          />
+        </form>
+        {view ? (
+          <>
+            <Network className="w-3.5 h-3.5 text-primary ml-1" />
+            <span className="text-xs font-mono text-primary">{view.root}</span>
+            <span className="px-1 text-[10px] text-muted-foreground">
+              {Object.keys(view.positions).length} of {nodes.length.toLocaleString()} shown
+            </span>
+            {hiddenCount > 0 && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => onEgoChange(unhideAll(view))}>
+                <Eye className="w-3.5 h-3.5" />
+                Unhide {hiddenCount}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Back to the full graph"
+              onClick={() => onEgoChange(null)}
+            >
+              <X className="w-3.5 h-3.5 text-muted-foreground" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <Select
+              value={layoutType}
+              onValueChange={(value) => onLayoutChange(createGraphLayout(value as GraphLayoutType, layoutSeed))}
+            >
+              <SelectTrigger className="h-7 w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRAPH_LAYOUTS.map((l) => (
+                  <SelectItem key={l.type} value={l.type} title={l.description} className="text-xs">
+                    {l.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Re-run layout, discarding moved nodes"
+              onClick={() => onLayoutChange(createGraphLayout(layoutType, layoutSeed))}
+              disabled={!placed}
+            >
+              <RotateCcw className="w-3.5 h-3.5 text-muted-foreground" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="New seed"
+              onClick={() => onLayoutChange(createGraphLayout(layoutType, randomSeed()))}
+              disabled={!placed}
+            >
+              <Dices className="w-3.5 h-3.5 text-muted-foreground" />
+            </Button>
+            <span className="px-1 text-[10px] font-mono text-muted-foreground">seed {layoutSeed}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Step through rings"
+              onClick={() => onFocusRing(rings[0].ring_id)}
+              disabled={!placed || rings.length === 0 || !!focusRing}
+            >
+              <Crosshair className="w-3.5 h-3.5 text-muted-foreground" />
+            </Button>
+          </>
+        )}
+      </div>
+      {focusRing && (
+        <div className="absolute top-16 left-4 z-10 bg-card/95 border border-border rounded-lg p-1.5 flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Previous ring"
+            onClick={() => stepRing(-1)}
+            disabled={rings.length < 2}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <div className="px-2 text-center">
+            <p className="text-xs font-mono text-primary">
+              {focusRing.ring_id}{" "}
+              <span className="text-muted-foreground">
+                {focusIndex + 1}/{rings.length}
+              </span>
+            </p>
+            <p className="text-[10px] text-muted-foreground whitespace-nowrap">
+              {RING_TYPE_LABELS[focusRing.pattern_type] || focusRing.pattern_type} • {focusRing.member_accounts.length}{" "}
+              members • {focusTransfers} transfers • risk {focusRing.risk_score.toFixed(1)}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Next ring"
+            onClick={() => stepRing(1)}
+            disabled={rings.length < 2}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {onRingEvidence && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Open evidence"
+              onClick={() => onRingEvidence(focusRing)}
+            >
+              <FileSearch className="w-3.5 h-3.5 text-muted-foreground" />
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Clear focus" onClick={() => onFocusRing(null)}>
+            <X className="w-3.5 h-3.5 text-muted-foreground" />
+          </Button>
+        </div>
+      )}
+      {selectedNode && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-card/95 border border-border rounded-lg p-1.5 flex items-center gap-1">
+          {selectedId && view ? (
+            <>
+              <span className="px-2 text-xs font-mono text-foreground">{selectedId}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1.5 text-xs"
+                onClick={() => expand("upstream")}
+                disabled={pendingCount("upstream") === 0}
+              >
+                <ArrowLeftToLine className="w-3.5 h-3.5" />
+                Senders +{pendingCount("upstream")}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1.5 text-xs"
+                onClick={() => expand("downstream")}
+                disabled={pendingCount("downstream") === 0}
+              >
+                Receivers +{pendingCount("downstream")}
+                <ArrowRightToLine className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title={view.pinned.includes(selectedId) ? "Unpin" : "Pin in place"}
+                onClick={() => onEgoChange(togglePin(view, selectedId))}
+              >
+                {view.pinned.includes(selectedId) ? (
+                  <PinOff className="w-3.5 h-3.5 text-muted-foreground" />
+                ) : (
+                  <Pin className="w-3.5 h-3.5 text-muted-foreground" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Collapse the accounts hanging off this one"
+                onClick={() => adjacency && onEgoChange(collapseNode(view, adjacency, selectedId))}
+              >
+                <Minimize2 className="w-3.5 h-3.5 text-muted-foreground" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Hide"
+                onClick={() => {
+                  setSelectedNode(null);
+                  onEgoChange(hideNode(view, selectedId));
+                }}
+                disabled={selectedId === view.root}
+              >
+                <EyeOff className="w-3.5 h-3.5 text-muted-foreground" />
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => exploreFrom(selectedNode.id)}>
+              <Network className="w-3.5 h-3.5" />
+              Explore from {selectedNode.id}
+            </Button>
+          )}
+          {onTraceAccount && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Trace funds"
+              onClick={() => onTraceAccount(selectedNode.id)}
+            >
+              <Route className="w-3.5 h-3.5 text-muted-foreground" />
+            </Button>
+          )}
+        </div>
+      )}
+      <NodeDetailPanel node={selectedNode} currency={currency} onClose={() => setSelectedNode(null)} />
       {/* Legend */}
       <div className="absolute bottom-4 left-4 bg-card/90 border border-border rounded-lg p-3 flex flex-col gap-1.5 text-xs">
         <div className="flex items-center gap-2">
@@ -223,6 +768,16 @@ const TransactionGraph: React.FC<TransactionGraphProps> = ({ nodes, edges, rings
           <div className="w-3 h-3 rounded-full border-2" style={{ borderColor: "hsl(220, 15%, 25%)", backgroundColor: "hsl(220, 18%, 12%)" }} />
           <span className="text-muted-foreground">Normal</span>
         </div>
+        {detectedPatterns.length > 0 && (
+          <div className="border-t border-border mt-1 pt-1.5 flex flex-col gap-1.5">
+            {detectedPatterns.map((d) => (
+              <div key={d.id} className="flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: d.color }} />
+                <span className="text-muted-foreground">{d.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,125 @@
+import Papa from "papaparse";
+import { AccountProfile, CustomerType, ResolvedEntity, RiskRating } from "./types";
+
+export const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  retail: "Retail",
+  business: "Business",
+};
+
+export const RISK_RATING_LABELS: Record<RiskRating, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+const RISK_ORDER: RiskRating[] = ["low", "medium", "high"];
+
+const PROFILE_HEADER_ALIASES: Record<keyof AccountProfile, string[]> = {
+  account_id: ["account_id", "accountid", "account", "iban", "acc"],
+  opened_at: ["opened_at", "opening_date", "open_date", "date_opened", "account_opened"],
+  customer_type: ["customer_type", "customertype", "segment", "client_type"],
+  declared_income: ["declared_income", "income", "annual_income", "declared_turnover", "turnover"],
+  country: ["country", "country_code", "residence_country", "nationality"],
+  risk_rating: ["risk_rating", "risk", "risk_level", "kyc_risk"],
+};
+
+function parseOpenedAt(value: string): string | undefined {
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? undefined : d.toISOString().slice(0, 10);
+}
+
+function parseCustomerType(value: string): CustomerType | undefined {
+  const v = value.toLowerCase();
+  if (["retail", "individual", "personal", "consumer"].includes(v)) return "retail";
+  if (["business", "corporate", "company", "commercial", "sme"].includes(v)) return "business";
+  return undefined;
+}
+
+// Accepts "45,000", "$45000" and the like
+function parseIncome(value: string): number | undefined {
+  const n = parseFloat(value.replace(/[^0-9.-]/g, ""));
+  return isFinite(n) && n >= 0 ? n : undefined;
+}
+
+function parseRiskRating(value: string): RiskRating | undefined {
+  const v = value.toLowerCase();
+  if (["low", "l", "1"].includes(v)) return "low";
+  if (["medium", "med", "m", "2"].includes(v)) return "medium";
+  if (["high", "h", "3"].includes(v)) return "high";
+  return undefined;
+}
+
+// Parse a customer master file; only the account column is required and unreadable values are left out
+export function parseAccountProfiles(file: File): Promise<AccountProfile[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase().replace(/\s+/g, "_"),
+      complete: (results) => {
+        const fields = results.meta.fields || [];
+        const columns: Partial<Record<keyof AccountProfile, string>> = {};
+        for (const [key, aliases] of Object.entries(PROFILE_HEADER_ALIASES) as [keyof AccountProfile, string[]][]) {
+          const header = aliases.find((a) => fields.includes(a));
+          if (header) columns[key] = header;
+        }
+        if (!columns.account_id) {
+          reject(new Error("Account profile file needs an account_id column."));
+          return;
+        }
+        const cell = (row: Record<string, string>, key: keyof AccountProfile) =>
+          columns[key] ? String(row[columns[key]!] ?? "").trim() : "";
+
+        const profiles: AccountProfile[] = [];
+        for (const row of results.data) {
+          const account_id = cell(row, "account_id");
+          if (!account_id) continue;
+          const profile: AccountProfile = { account_id };
+          const opened = cell(row, "opened_at") && parseOpenedAt(cell(row, "opened_at"));
+          if (opened) profile.opened_at = opened;
+          const type = parseCustomerType(cell(row, "customer_type"));
+          if (type) profile.customer_type = type;
+          const income = cell(row, "declared_income") ? parseIncome(cell(row, "declared_income")) : undefined;
+          if (income !== undefined) profile.declared_income = income;
+          const country = cell(row, "country").toUpperCase();
+          if (country) profile.country = country;
+          const risk = parseRiskRating(cell(row, "risk_rating"));
+          if (risk) profile.risk_rating = risk;
+          profiles.push(profile);
+        }
+        if (profiles.length === 0) {
+          reject(new Error("No account profiles with an account_id found."));
+          return;
+        }
+        resolve(profiles);
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+// Combine member profiles for an entity: earliest opening, summed income, highest risk
+function mergeProfiles(entityId: string, members: AccountProfile[]): AccountProfile {
+  const merged: AccountProfile = { account_id: entityId };
+  for (const p of members) {
+    if (p.opened_at && (!merged.opened_at || p.opened_at < merged.opened_at)) merged.opened_at = p.opened_at;
+    if (p.declared_income !== undefined) merged.declared_income = (merged.declared_income ?? 0) + p.declared_income;
+    if (p.risk_rating && (!merged.risk_rating || RISK_ORDER.indexOf(p.risk_rating) > RISK_ORDER.indexOf(merged.risk_rating))) {
+      merged.risk_rating = p.risk_rating;
+    }
+    merged.customer_type ??= p.customer_type;
+    merged.country ??= p.country;
+  }
+  return merged;
+}
+
+// Profiles keyed by graph node ID; merged entities get a combined profile of their members
+export function buildProfileIndex(profiles: AccountProfile[], entities: ResolvedEntity[] = []): Map<string, AccountProfile> {
+  const index = new Map<string, AccountProfile>();
+  for (const p of profiles) index.set(p.account_id, p);
+  for (const e of entities) {
+    const members = e.accounts.map((a) => index.get(a)).filter((p): p is AccountProfile => !!p);
+    if (members.length > 0) index.set(e.entity_id, mergeProfiles(e.entity_id, members));
+  }
+  return index;
+}
@@ -0,0 +1,150 @@
+import { analyzeTransactions, buildGraphData } from "./graphAnalysis";
+import { storeToTransactions, trimTransactionStore } from "./transactionStore";
+import { generateSyntheticData } from "./sampleData";
+import {
+  AccountProfile,
+  AnalysisProgress,
+  AnalysisResult,
+  DetectionConfig,
+  EntitySettings,
+  GraphEdgeRows,
+  GraphNode,
+  SyntheticConfig,
+  SyntheticDataset,
+  TransactionStore,
+} from "./types";
+
+export interface AnalysisOutput {
+  result: AnalysisResult;
+  nodes: GraphNode[];
+  edges: GraphEdgeRows;
+}
+
+export type AnalysisWorkerRequest =
+  | {
+      type: "analyze";
+      store: TransactionStore;
+      config?: DetectionConfig;
+      entitySettings?: EntitySettings;
+      profiles?: AccountProfile[];
+    }
+  | { type: "generate"; config: SyntheticConfig };
+
+export type AnalysisWorkerResponse =
+  | { type: "progress"; progress: AnalysisProgress }
+  | { type: "result"; output: AnalysisOutput }
+  | { type: "dataset"; dataset: SyntheticDataset }
+  | { type: "error"; message: string };
+
+export interface RunAnalysisOptions {
+  config?: DetectionConfig;
+  entitySettings?: EntitySettings;
+  profiles?: AccountProfile[];
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+// A trimmed copy of the store whose columns are moved to the worker instead of cloned;
+// the caller's store stays usable for re-runs and saving
+function transferableStore(store: TransactionStore): { store: TransactionStore; transfer: Transferable[] } {
+  const copy = trimTransactionStore(store);
+  const columns = [copy.senders, copy.receivers, copy.amounts, copy.timestamps, copy.currencies, copy.originalAmounts];
+  return { store: copy, transfer: columns.map((c) => c.buffer) };
+}
+
+function abortError(): DOMException {
+  return new DOMException("Analysis cancelled", "AbortError");
+}
+
+// Run the detection pipeline off the main thread; cancelling terminates the worker
+export function runAnalysis(store: TransactionStore, options: RunAnalysisOptions = {}): Promise<AnalysisOutput> {
+  const { config, entitySettings, profiles, onProgress, signal } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  // Environments without workers (tests, very old browsers) run inline
+  if (typeof Worker === "undefined") {
+    const transactions = storeToTransactions(store);
+    const result = analyzeTransactions(transactions, {
+      reportingCurrency: store.reportingCurrency,
+      config,
+      entitySettings,
+      profiles,
+      onProgress,
+    });
+    return Promise.resolve({ result, ...buildGraphData(store, result, profiles) });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" });
+    const cleanup = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const msg = event.data;
+      if (msg.type === "progress") {
+        onProgress?.(msg.progress);
+      } else if (msg.type === "result") {
+        cleanup();
+        resolve(msg.output);
+      } else if (msg.type === "error") {
+        cleanup();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Analysis worker failed"));
+    };
+
+    const { store: copy, transfer } = transferableStore(store);
+    const request: AnalysisWorkerRequest = { type: "analyze", store: copy, config, entitySettings, profiles };
+    worker.postMessage(request, transfer);
+  });
+}
+
+// Build a synthetic dataset off the main thread; large scenarios take seconds to generate
+export function generateDataset(config: SyntheticConfig, signal?: AbortSignal): Promise<SyntheticDataset> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  if (typeof Worker === "undefined") {
+    try {
+      return Promise.resolve(generateSyntheticData(config));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" });
+    const cleanup = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const msg = event.data;
+      cleanup();
+      if (msg.type === "dataset") resolve(msg.dataset);
+      else reject(new Error(msg.type === "error" ? msg.message : "Unexpected worker reply"));
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Data generation failed"));
+    };
+
+    const request: AnalysisWorkerRequest = { type: "generate", config };
+    worker.postMessage(request);
+  });
+}
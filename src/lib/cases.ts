@@ -0,0 +1,205 @@
+import { CaseData, CaseLayout, CaseSummary, CaseWorkflow, InvestigationCase, SourceFileInfo } from "./types";
+import { trimTransactionStore } from "./transactionStore";
+import { createWorkflow } from "./disposition";
+
+const DB_NAME = "forensics";
+const DB_VERSION = 3;
+// Summaries are kept apart from the payload so the case list never loads transactions
+const SUMMARY_STORE = "cases";
+const DATA_STORE = "case_data";
+const WORKFLOW_STORE = "case_workflow";
+const LAYOUT_STORE = "case_layout";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("This browser cannot store cases (IndexedDB unavailable)."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(WORKFLOW_STORE)) db.createObjectStore(WORKFLOW_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(LAYOUT_STORE)) db.createObjectStore(LAYOUT_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open case database"));
+    });
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Case database write aborted"));
+  });
+}
+
+export function describeSourceFile(file: File): SourceFileInfo {
+  return { name: file.name, size: file.size, last_modified: new Date(file.lastModified).toISOString() };
+}
+
+function newCaseId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `case_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function summarize(c: Omit<CaseSummary, "transaction_count" | "suspicious_accounts" | "fraud_rings">, data: CaseData): CaseSummary {
+  return {
+    id: c.id,
+    name: c.name,
+    created_at: c.created_at,
+    updated_at: c.updated_at,
+    source_file: c.source_file,
+    transaction_count: data.store.length,
+    suspicious_accounts: data.result.suspicious_accounts.length,
+    fraud_rings: data.result.fraud_rings.length,
+  };
+}
+
+async function writeCase(summary: CaseSummary, data: CaseData): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(DATA_STORE).put(data);
+  await transactionDone(tx);
+}
+
+// Newest first
+export async function listCases(): Promise<CaseSummary[]> {
+  const db = await openDatabase();
+  const cases = await promisify(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<CaseSummary[]>);
+  return cases.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export async function getCaseSummary(id: string): Promise<CaseSummary | undefined> {
+  const db = await openDatabase();
+  return promisify(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).get(id) as IDBRequest<CaseSummary | undefined>);
+}
+
+export async function getCase(id: string): Promise<InvestigationCase | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE]);
+  const [summary, data] = await Promise.all([
+    promisify(tx.objectStore(SUMMARY_STORE).get(id) as IDBRequest<CaseSummary | undefined>),
+    promisify(tx.objectStore(DATA_STORE).get(id) as IDBRequest<CaseData | undefined>),
+  ]);
+  if (!summary || !data) return undefined;
+  return {
+    ...summary,
+    store: data.store,
+    currency: data.currency,
+    config: data.config,
+    result: data.result,
+    entity_settings: data.entity_settings,
+    profiles: data.profiles,
+  };
+}
+
+export async function createCase(
+  name: string,
+  source: SourceFileInfo,
+  payload: Omit<CaseData, "id">
+): Promise<CaseSummary> {
+  const now = new Date().toISOString();
+  const data: CaseData = { id: newCaseId(), ...payload, store: trimTransactionStore(payload.store) };
+  const summary = summarize({ id: data.id, name, created_at: now, updated_at: now, source_file: source }, data);
+  await writeCase(summary, data);
+  return summary;
+}
+
+// Replace a case's analysis, e.g. after re-running with different settings
+export async function updateCaseAnalysis(id: string, payload: Omit<CaseData, "id">): Promise<CaseSummary> {
+  const existing = await getCaseSummary(id);
+  if (!existing) throw new Error("Case not found");
+  const data: CaseData = { id, ...payload, store: trimTransactionStore(payload.store) };
+  const summary = summarize({ ...existing, updated_at: new Date().toISOString() }, data);
+  await writeCase(summary, data);
+  return summary;
+}
+
+export async function renameCase(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARY_STORE, "readwrite");
+  const store = tx.objectStore(SUMMARY_STORE);
+  const summary = await promisify(store.get(id) as IDBRequest<CaseSummary | undefined>);
+  if (!summary) throw new Error("Case not found");
+  store.put({ ...summary, name, updated_at: new Date().toISOString() });
+  await transactionDone(tx);
+}
+
+export async function duplicateCase(id: string): Promise<CaseSummary> {
+  const existing = await getCase(id);
+  if (!existing) throw new Error("Case not found");
+  const { store, currency, config, result, entity_settings, profiles } = existing;
+  const copy = await createCase(`${existing.name} (copy)`, existing.source_file, {
+    store,
+    currency,
+    config,
+    result,
+    entity_settings,
+    profiles,
+  });
+  const workflow = await getCaseWorkflow(id);
+  await saveCaseWorkflow({ ...workflow, id: copy.id });
+  const layout = await getCaseLayout(id);
+  if (layout) await saveCaseLayout({ ...layout, id: copy.id });
+  return copy;
+}
+
+export async function deleteCase(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, WORKFLOW_STORE, LAYOUT_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  tx.objectStore(WORKFLOW_STORE).delete(id);
+  tx.objectStore(LAYOUT_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+// Cases saved before any triage have no workflow record yet
+export async function getCaseWorkflow(id: string): Promise<CaseWorkflow> {
+  const db = await openDatabase();
+  const workflow = await promisify(
+    db.transaction(WORKFLOW_STORE).objectStore(WORKFLOW_STORE).get(id) as IDBRequest<CaseWorkflow | undefined>
+  );
+  return workflow ?? createWorkflow(id);
+}
+
+export async function saveCaseWorkflow(workflow: CaseWorkflow): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(WORKFLOW_STORE, "readwrite");
+  tx.objectStore(WORKFLOW_STORE).put(workflow);
+  await transactionDone(tx);
+}
+
+// Undefined until the graph of the case has been laid out once
+export async function getCaseLayout(id: string): Promise<CaseLayout | undefined> {
+  const db = await openDatabase();
+  return promisify(db.transaction(LAYOUT_STORE).objectStore(LAYOUT_STORE).get(id) as IDBRequest<CaseLayout | undefined>);
+}
+
+export async function saveCaseLayout(layout: CaseLayout): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(LAYOUT_STORE, "readwrite");
+  tx.objectStore(LAYOUT_STORE).put(layout);
+  await transactionDone(tx);
+}
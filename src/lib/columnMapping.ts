@@ -0,0 +1,154 @@
+import Papa from "papaparse";
+import { ColumnMapping, CSVPreview, MappingProfile, TransactionField } from "./types";
+
+const PROFILES_STORAGE_KEY = "forensics.mappingProfiles";
+
+export const TRANSACTION_FIELDS: { field: TransactionField; label: string; required: boolean; aliases: string[] }[] = [
+  {
+    field: "transaction_id",
+    label: "Transaction ID",
+    required: true,
+    aliases: ["transactionid", "txnid", "txnref", "txid", "transactionref", "reference", "ref", "paymentid", "endtoendid", "id"],
+  },
+  {
+    field: "sender_id",
+    label: "Sender Account",
+    required: true,
+    aliases: ["senderid", "sender", "debtoriban", "debtoraccount", "debtor", "fromaccount", "payer", "originator", "remitter", "sourceaccount", "from"],
+  },
+  {
+    field: "receiver_id",
+    label: "Receiver Account",
+    required: true,
+    aliases: ["receiverid", "receiver", "creditoriban", "creditoraccount", "creditor", "toaccount", "payee", "beneficiary", "destinationaccount", "to"],
+  },
+  {
+    field: "amount",
+    label: "Amount",
+    required: true,
+    aliases: ["amount", "amt", "transactionamount", "instructedamount", "value", "sum"],
+  },
+  {
+    field: "timestamp",
+    label: "Timestamp",
+    required: true,
+    aliases: ["timestamp", "datetime", "valuedate", "bookingdate", "transactiondate", "postingdate", "createdat", "date", "time"],
+  },
+  {
+    field: "currency",
+    label: "Currency",
+    required: false,
+    aliases: ["currency", "currencycode", "ccy", "curr", "isocurrency"],
+  },
+];
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  transaction_id: "transaction_id",
+  sender_id: "sender_id",
+  receiver_id: "receiver_id",
+  amount: "amount",
+  timestamp: "timestamp",
+  currency: "currency",
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Read the header row plus a handful of sample rows without parsing the whole file
+export function readCSVPreview(file: File, rowCount: number = 5): Promise<CSVPreview> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      preview: rowCount,
+      complete: (results) => {
+        const headers = (results.meta.fields || []).filter((h) => h.trim() !== "");
+        if (headers.length === 0) {
+          reject(new Error("No header row found. Check CSV format."));
+          return;
+        }
+        resolve({ headers, rows: results.data });
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+// Score how well a header matches a field: exact alias beats substring match
+function matchScore(header: string, aliases: string[]): number {
+  const normalized = normalizeHeader(header);
+  let best = 0;
+  aliases.forEach((alias, i) => {
+    // Earlier aliases are more specific, so they win ties
+    const rank = (aliases.length - i) / aliases.length;
+    if (normalized === alias) best = Math.max(best, 2 + rank);
+    else if (alias.length >= 4 && normalized.includes(alias)) best = Math.max(best, 1 + rank);
+  });
+  return best;
+}
+
+// Guess a mapping from detected headers; each header is assigned to at most one field
+export function guessColumnMapping(headers: string[]): Partial<ColumnMapping> {
+  const candidates: { field: TransactionField; header: string; score: number }[] = [];
+  for (const { field, aliases } of TRANSACTION_FIELDS) {
+    for (const header of headers) {
+      const score = matchScore(header, aliases);
+      if (score > 0) candidates.push({ field, header, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: Partial<ColumnMapping> = {};
+  const usedHeaders = new Set<string>();
+  for (const c of candidates) {
+    if (mapping[c.field] || usedHeaders.has(c.header)) continue;
+    mapping[c.field] = c.header;
+    usedHeaders.add(c.header);
+  }
+  return mapping;
+}
+
+// Every required field needs its own column; optional fields may be unmapped or absent from this file
+export function isMappingComplete(
+  mapping: Partial<ColumnMapping>,
+  headers: string[]
+): mapping is ColumnMapping {
+  const required = TRANSACTION_FIELDS.filter((f) => f.required).map(({ field }) => mapping[field]);
+  const assigned = TRANSACTION_FIELDS.map(({ field }) => mapping[field]).filter((h) => !!h && headers.includes(h));
+  return required.every((h) => !!h && headers.includes(h)) && new Set(assigned).size === assigned.length;
+}
+
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as MappingProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Insert or replace a profile by name
+export function saveMappingProfile(profile: MappingProfile): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter((p) => p.name !== profile.name);
+  profiles.push(profile);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteMappingProfile(name: string): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter((p) => p.name !== name);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+// Find a saved profile for this export: identical header set first, then any profile whose columns all exist
+export function findMatchingProfile(
+  headers: string[],
+  profiles: MappingProfile[]
+): MappingProfile | undefined {
+  const headerKey = [...headers].sort().join("\u0000");
+  const exact = profiles.find((p) => [...p.headers].sort().join("\u0000") === headerKey);
+  if (exact) return exact;
+  return profiles.find((p) => isMappingComplete(p.mapping, headers));
+}
@@ -1,33 +1,215 @@
 import Papa from "papaparse";
-import { Transaction } from "./types";
+import {
+  ColumnMapping,
+  CurrencySettings,
+  IngestionProgress,
+  IngestionReport,
+  ParseResult,
+  RejectReason,
+  RejectedRow,
+  Transaction,
+} from "./types";
+import { DEFAULT_COLUMN_MAPPING, TRANSACTION_FIELDS } from "./columnMapping";
+import { appendTransaction, createTransactionStore } from "./transactionStore";
+import {
+  DEFAULT_REPORTING_CURRENCY,
+  FxTable,
+  buildFxTable,
+  convertAmount,
+  fxBaseCurrency,
+  hasFxRate,
+  normalizeCurrencyCode,
+} from "./currency";
 
-export function parseCSV(file: File): Promise<Transaction[]> {
+export const REJECT_REASON_LABELS: Record<RejectReason, string> = {
+  missing_field: "Missing field",
+  bad_amount: "Unparseable amount",
+  non_positive_amount: "Zero or negative amount",
+  bad_date: "Bad date",
+  self_transfer: "Self-transfer",
+  duplicate_id: "Duplicate ID",
+  missing_fx_rate: "No FX rate",
+};
+
+function emptyReasonCounts(): Record<RejectReason, number> {
+  return {
+    missing_field: 0,
+    bad_amount: 0,
+    non_positive_amount: 0,
+    bad_date: 0,
+    self_transfer: 0,
+    duplicate_id: 0,
+    missing_fx_rate: 0,
+  };
+}
+
+// Plain decimals, optionally with comma thousands separators ("1,500.00"); anything else is not an amount
+const PLAIN_AMOUNT = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const GROUPED_AMOUNT = /^[+-]?\d{1,3}(,\d{3})+(\.\d*)?$/;
+
+// The whole value must be a number; parseFloat would read "1,500.00" as 1 and "12abc" as 12
+function parseAmount(raw: string): number {
+  if (PLAIN_AMOUNT.test(raw)) return Number(raw);
+  if (GROUPED_AMOUNT.test(raw)) return Number(raw.replace(/,/g, ""));
+  return NaN;
+}
+
+// Validate one row; returns the transaction or the first reason it was rejected
+function validateRow(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  seenIds: Set<string>,
+  fxTable: FxTable,
+  reportingCurrency: string
+): Transaction | { reason: RejectReason; detail: string } {
+  for (const { field, label, required } of TRANSACTION_FIELDS) {
+    if (!required) continue;
+    if (!String(row[mapping[field]] ?? "").trim()) {
+      return { reason: "missing_field", detail: `${label} is empty` };
+    }
+  }
+
+  const transaction_id = String(row[mapping.transaction_id]).trim();
+  const sender_id = String(row[mapping.sender_id]).trim();
+  const receiver_id = String(row[mapping.receiver_id]).trim();
+  const rawAmount = String(row[mapping.amount]).trim();
+  const amount = parseAmount(rawAmount);
+  const timestamp = new Date(row[mapping.timestamp]);
+
+  if (isNaN(amount)) return { reason: "bad_amount", detail: `"${rawAmount}" is not a number` };
+  if (amount <= 0) return { reason: "non_positive_amount", detail: `Amount ${amount} is not positive` };
+  if (isNaN(timestamp.getTime())) {
+    return { reason: "bad_date", detail: `"${row[mapping.timestamp]}" is not a valid date` };
+  }
+  if (sender_id === receiver_id) {
+    return { reason: "self_transfer", detail: `Sender and receiver are both ${sender_id}` };
+  }
+  if (seenIds.has(transaction_id)) {
+    return { reason: "duplicate_id", detail: `${transaction_id} already appeared earlier in the file` };
+  }
+
+  // Rows without a currency are taken to be in the reporting currency already
+  const currency = (mapping.currency && normalizeCurrencyCode(row[mapping.currency])) || reportingCurrency;
+  const converted = convertAmount(fxTable, amount, currency, reportingCurrency, timestamp.getTime());
+  if (converted === undefined) {
+    const missing = [currency, reportingCurrency].filter((c) => !hasFxRate(fxTable, c));
+    return {
+      reason: "missing_fx_rate",
+      detail: `No ${missing.join(" or ")} rate against ${fxTable.base} in the FX table`,
+    };
+  }
+
+  return {
+    transaction_id,
+    sender_id,
+    receiver_id,
+    amount: converted,
+    timestamp,
+    original_amount: amount,
+    original_currency: currency,
+  };
+}
+
+export interface ParseOptions {
+  onProgress?: (progress: IngestionProgress) => void;
+  signal?: AbortSignal;
+  currency?: CurrencySettings;
+}
+
+// 1 MB chunks keep progress smooth without flooding React with updates
+const CHUNK_SIZE = 1024 * 1024;
+// Rough bytes per CSV row, used only to pre-size the columnar store
+const ESTIMATED_ROW_BYTES = 64;
+
+// Stream the file in chunks, validating rows into a columnar store as they arrive. A file where
+// every row is rejected still resolves, with an empty store, so its report can be reviewed.
+export function parseCSV(
+  file: File,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  const { onProgress, signal, currency } = options;
+  const reportingCurrency = currency?.reporting_currency ?? DEFAULT_REPORTING_CURRENCY;
+  const fxTable = buildFxTable(currency?.fx_rates ?? [], currency ? fxBaseCurrency(currency) : reportingCurrency);
   return new Promise((resolve, reject) => {
-    Papa.parse(file, {
+    if (signal?.aborted) {
+      reject(new DOMException("Import cancelled", "AbortError"));
+      return;
+    }
+
+    const store = createTransactionStore(Math.ceil(file.size / ESTIMATED_ROW_BYTES), reportingCurrency);
+    const rejected: RejectedRow[] = [];
+    const reasonCounts = emptyReasonCounts();
+    const seenIds = new Set<string>();
+    let headers: string[] = [];
+    let rowCount = 0;
+    let chunkCount = 0;
+    let activeParser: Papa.Parser | null = null;
+    const onAbort = () => activeParser?.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    Papa.parse<Record<string, string>>(file, {
       header: true,
       skipEmptyLines: true,
-      complete: (results) => {
-        try {
-          const transactions: Transaction[] = results.data.map((row: any) => ({
-            transaction_id: String(row.transaction_id || "").trim(),
-            sender_id: String(row.sender_id || "").trim(),
-            receiver_id: String(row.receiver_id || "").trim(),
-            amount: parseFloat(row.amount) || 0,
-            timestamp: new Date(row.timestamp),
-          }));
-          const valid = transactions.filter(
-            (t) => t.transaction_id && t.sender_id && t.receiver_id && t.amount > 0 && !isNaN(t.timestamp.getTime())
-          );
-          if (valid.length === 0) {
-            reject(new Error("No valid transactions found. Check CSV format."));
-            return;
+      chunkSize: CHUNK_SIZE,
+      chunk: (results, parser) => {
+        activeParser = parser;
+        if (signal?.aborted) {
+          parser.abort();
+          return;
+        }
+        if (headers.length === 0) headers = results.meta.fields || [];
+        for (const row of results.data) {
+          rowCount++;
+          const outcome = validateRow(row, mapping, seenIds, fxTable, reportingCurrency);
+          if ("reason" in outcome) {
+            reasonCounts[outcome.reason]++;
+            rejected.push({ row_number: rowCount + 1, raw: row, reason: outcome.reason, detail: outcome.detail });
+          } else {
+            seenIds.add(outcome.transaction_id);
+            appendTransaction(store, outcome);
           }
-          resolve(valid);
-        } catch (e) {
-          reject(e);
         }
+        chunkCount++;
+        onProgress?.({
+          bytes_read: Math.min(chunkCount * CHUNK_SIZE, file.size),
+          total_bytes: file.size,
+          accepted_rows: store.length,
+          rejected_rows: rejected.length,
+        });
+      },
+      complete: () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (signal?.aborted) {
+          reject(new DOMException("Import cancelled", "AbortError"));
+          return;
+        }
+        const report: IngestionReport = {
+          file_name: file.name,
+          headers,
+          total_rows: rowCount,
+          accepted_rows: store.length,
+          rejected_rows: rejected,
+          reason_counts: reasonCounts,
+        };
+        resolve({ store, report });
+      },
+      error: (err) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(err);
       },
-      error: (err) => reject(err),
     });
   });
 }
+
+// Rejected rows in their original columns, followed by the row number and reason
+export function buildRejectsCSV(report: IngestionReport): string {
+  const fields = [...report.headers, "row_number", "reject_reason", "reject_detail"];
+  const data = report.rejected_rows.map((r) => [
+    ...report.headers.map((h) => r.raw[h] ?? ""),
+    String(r.row_number),
+    r.reason,
+    r.detail,
+  ]);
+  return Papa.unparse({ fields, data });
+}
@@ -0,0 +1,129 @@
+import Papa from "papaparse";
+import { CurrencySettings, FxRate } from "./types";
+
+export const DEFAULT_REPORTING_CURRENCY = "USD";
+
+export const COMMON_CURRENCIES = ["USD", "EUR", "GBP", "INR", "CHF", "JPY", "AUD", "CAD", "SGD", "AED"];
+
+// Rates per currency, sorted by time, for binary search by transaction date.
+// Every rate is quoted in the base currency, which itself converts at 1.
+export interface FxTable {
+  base: string;
+  rates: Map<string, { times: number[]; rates: number[] }>;
+}
+
+export function normalizeCurrencyCode(raw: string | undefined): string {
+  return String(raw ?? "").trim().toUpperCase();
+}
+
+// Parse an FX table with date, currency and rate columns (header names are case-insensitive)
+export function parseFxRates(file: File): Promise<FxRate[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase(),
+      complete: (results) => {
+        const fields = results.meta.fields || [];
+        const missing = ["date", "currency", "rate"].filter((f) => !fields.includes(f));
+        if (missing.length > 0) {
+          reject(new Error(`FX table is missing column(s): ${missing.join(", ")}`));
+          return;
+        }
+        const rates: FxRate[] = [];
+        for (const row of results.data) {
+          const date = new Date(row.date);
+          const currency = normalizeCurrencyCode(row.currency);
+          const rate = parseFloat(row.rate);
+          if (!isNaN(date.getTime()) && currency && rate > 0) rates.push({ date, currency, rate });
+        }
+        if (rates.length === 0) {
+          reject(new Error("No valid FX rates found. Check the date, currency and rate columns."));
+          return;
+        }
+        resolve(rates);
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+export function buildFxTable(rates: FxRate[], base: string): FxTable {
+  const byCurrency = new Map<string, FxRate[]>();
+  for (const r of rates) {
+    if (!byCurrency.has(r.currency)) byCurrency.set(r.currency, []);
+    byCurrency.get(r.currency)!.push(r);
+  }
+  const table: FxTable = { base: normalizeCurrencyCode(base), rates: new Map() };
+  for (const [currency, list] of byCurrency) {
+    list.sort((a, b) => a.date.getTime() - b.date.getTime());
+    table.rates.set(currency, { times: list.map((r) => r.date.getTime()), rates: list.map((r) => r.rate) });
+  }
+  return table;
+}
+
+// Base of the settings' FX table, falling back to the reporting currency for older settings
+export function fxBaseCurrency(settings: CurrencySettings): string {
+  return settings.fx_base_currency || settings.reporting_currency;
+}
+
+// Whether amounts in `currency` can be converted at all: it is the base or has rates in the table
+export function hasFxRate(table: FxTable, currency: string): boolean {
+  return currency === table.base || table.rates.has(currency);
+}
+
+// Value of one unit of `currency` in the base: the latest rate on or before `time`, or the earliest
+// rate for dates before the table starts. Undefined when the table has no rate for the currency.
+function rateAt(table: FxTable, currency: string, time: number): number | undefined {
+  if (currency === table.base) return 1;
+  const entry = table.rates.get(currency);
+  if (!entry) return undefined;
+  let lo = 0;
+  let hi = entry.times.length - 1;
+  let found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (entry.times[mid] <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return entry.rates[found];
+}
+
+// Convert between currencies via the table's base; undefined when either side has no rate
+export function convertAmount(
+  table: FxTable,
+  amount: number,
+  from: string,
+  to: string,
+  time: number
+): number | undefined {
+  if (from === to) return amount;
+  const fromRate = rateAt(table, from, time);
+  const toRate = rateAt(table, to, time);
+  if (fromRate === undefined || toRate === undefined) return undefined;
+  return (amount * fromRate) / toRate;
+}
+
+export function formatCurrency(
+  amount: number,
+  currency: string,
+  options: { maximumFractionDigits?: number; compact?: boolean } = {}
+): string {
+  const { maximumFractionDigits = 2, compact = false } = options;
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits,
+      minimumFractionDigits: 0,
+      notation: compact ? "compact" : "standard",
+    }).format(amount);
+  } catch {
+    // Non-ISO codes (e.g. internal ledger units) still get a readable label
+    return `${currency} ${amount.toLocaleString(undefined, { maximumFractionDigits })}`;
+  }
+}
@@ -0,0 +1,111 @@
+import { ConfigIssue, DetectionConfig, DetectionPreset, DetectorParamValue } from "./types";
+import { ConfigField, defaultParams, getDetectors } from "./detectors";
+
+const PRESETS_STORAGE_KEY = "forensics.detectionPresets";
+
+export const DEFAULT_SCORE_FLOOR = 15;
+
+// Not a detector parameter, but edited and validated like one; issues report it under "scoring"
+export const SCORE_FLOOR_FIELD: ConfigField = {
+  key: "score_floor",
+  label: "Report accounts scoring at least",
+  type: "number",
+  default: DEFAULT_SCORE_FLOOR,
+  min: 0,
+  max: 100,
+  step: 0.5,
+  unit: "points",
+  description: "Evaluation against labelled data suggests a value",
+};
+
+export function getDefaultDetectionConfig(): DetectionConfig {
+  const detectors: DetectionConfig["detectors"] = {};
+  for (const d of getDetectors()) detectors[d.id] = defaultParams(d.configSchema);
+  return { detectors, score_floor: DEFAULT_SCORE_FLOOR };
+}
+
+// Fill gaps from the registry defaults so presets saved before a detector or
+// parameter existed still run; values for unregistered detectors are dropped
+export function resolveDetectionConfig(config?: DetectionConfig): DetectionConfig {
+  const resolved = getDefaultDetectionConfig();
+  if (!config) return resolved;
+  if (config.score_floor !== undefined) resolved.score_floor = config.score_floor;
+  for (const d of getDetectors()) {
+    const saved = config.detectors[d.id];
+    if (!saved) continue;
+    for (const field of d.configSchema) {
+      const value = saved[field.key];
+      if (value === undefined) continue;
+      resolved.detectors[d.id][field.key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+  return resolved;
+}
+
+function validateNumber(field: ConfigField, n: number): string | undefined {
+  if (!Number.isFinite(n)) return "Must be a number";
+  if (field.step !== undefined && Number.isInteger(field.step) && !Number.isInteger(n)) return "Must be a whole number";
+  if (field.min !== undefined && n < field.min) return `Must be at least ${field.min}`;
+  if (field.max !== undefined && n > field.max) return `Must be at most ${field.max}`;
+  return undefined;
+}
+
+export function validateField(field: ConfigField, value: DetectorParamValue | undefined): string | undefined {
+  if (field.type === "number_list") {
+    if (!Array.isArray(value) || value.length === 0) return "Enter at least one value";
+    for (const n of value) {
+      const error = validateNumber(field, n);
+      if (error) return error;
+    }
+    return undefined;
+  }
+  if (typeof value !== "number") return "Must be a number";
+  return validateNumber(field, value);
+}
+
+// Check every registered detector's params against its schema, then its own cross-field rules
+export function validateDetectionConfig(config: DetectionConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (config.score_floor !== undefined) {
+    const message = validateField(SCORE_FLOOR_FIELD, config.score_floor);
+    if (message) issues.push({ detector: "scoring", key: SCORE_FLOOR_FIELD.key, message });
+  }
+  for (const d of getDetectors()) {
+    const params = config.detectors[d.id] || {};
+    let fieldsValid = true;
+    for (const field of d.configSchema) {
+      const message = validateField(field, params[field.key]);
+      if (message) {
+        issues.push({ detector: d.id, key: field.key, message });
+        fieldsValid = false;
+      }
+    }
+    if (fieldsValid && d.validate) {
+      for (const message of d.validate(params)) issues.push({ detector: d.id, message });
+    }
+  }
+  return issues;
+}
+
+export function loadDetectionPresets(): DetectionPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as DetectionPreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Insert or replace a preset by name
+export function saveDetectionPreset(preset: DetectionPreset): DetectionPreset[] {
+  const presets = loadDetectionPresets().filter((p) => p.name !== preset.name);
+  presets.push(preset);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deleteDetectionPreset(name: string): DetectionPreset[] {
+  const presets = loadDetectionPresets().filter((p) => p.name !== name);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
@@ -0,0 +1,186 @@
+import { PatternEvidence, Transaction } from "../types";
+import { Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence, pairKey } from "./helpers";
+import { enumerateCycles } from "./enumeration";
+
+interface CycleParams {
+  [key: string]: number;
+  minLength: number;
+  maxLength: number;
+  maxDurationHours: number;
+  maxDecayPct: number;
+  maxGrowthPct: number;
+}
+
+// Backtracking budget per candidate cycle, so dense pairs cannot stall the run; running out truncates the result
+const MAX_CHAIN_STEPS = 10000;
+// Account cycles checked for a time-ordered chain; beyond this the result is truncated
+const MAX_CYCLES = 20000;
+
+// Find the earliest chain of transfers that walks the cycle in time order:
+// each hop no earlier than the one before, the whole loop within maxDurationMs,
+// and each amount within the decay band of the previous hop.
+// `exhausted` is set when the step budget ran out before every start was tried.
+function findTemporalChain(
+  cycle: string[],
+  sortedPairs: (key: string) => Transaction[],
+  maxDurationMs: number,
+  minRatio: number,
+  maxRatio: number
+): { chain: Transaction[] | null; exhausted: boolean } {
+  let best: Transaction[] | null = null;
+  let steps = 0;
+
+  // The money can enter the loop at any member
+  for (let r = 0; r < cycle.length; r++) {
+    const hops = cycle.map((_, j) =>
+      sortedPairs(pairKey(cycle[(r + j) % cycle.length], cycle[(r + j + 1) % cycle.length]))
+    );
+    const chain: Transaction[] = [];
+
+    const extend = (j: number, deadline: number): boolean => {
+      if (j === hops.length) return true;
+      const prev = chain[j - 1];
+      const prevTime = prev.timestamp.getTime();
+      for (const t of hops[j]) {
+        if (++steps > MAX_CHAIN_STEPS) return false;
+        const time = t.timestamp.getTime();
+        // Timestamps are often coarse, so a hop in the same instant still counts as after
+        if (time < prevTime) continue;
+        if (time > deadline) break;
+        if (t.amount < prev.amount * minRatio || t.amount > prev.amount * maxRatio) continue;
+        chain.push(t);
+        if (extend(j + 1, deadline)) return true;
+        chain.pop();
+      }
+      return false;
+    };
+
+    for (const first of hops[0]) {
+      // Rotations are tried in turn; a later start than the best chain so far cannot win
+      if (best && first.timestamp.getTime() >= best[0].timestamp.getTime()) break;
+      chain.length = 0;
+      chain.push(first);
+      if (extend(1, first.timestamp.getTime() + maxDurationMs)) {
+        best = [...chain];
+        break;
+      }
+      if (steps > MAX_CHAIN_STEPS) return { chain: best, exhausted: true };
+    }
+  }
+  return { chain: best, exhausted: false };
+}
+
+// Detect cycles of length 3-5 over strongly connected components, then keep
+// those where money could actually have flowed around the loop in time order
+export const cycleDetector: Detector<CycleParams> = {
+  id: "cycle",
+  label: "Circular Routing",
+  color: "hsl(0, 70%, 55%)",
+  weights: {
+    cycle_length_3: 30,
+    cycle_length_4: 25,
+    cycle_length_5: 20,
+    cycle_length_6: 15,
+  },
+  configSchema: [
+    {
+      key: "minLength",
+      label: "Minimum cycle length",
+      type: "number",
+      default: 3,
+      min: 3,
+      max: 6,
+      step: 1,
+      unit: "accounts",
+      description: "Money going out and back between two accounts is left to the round-trip detector",
+    },
+    { key: "maxLength", label: "Maximum cycle length", type: "number", default: 5, min: 3, max: 6, step: 1, unit: "accounts" },
+    {
+      key: "maxDurationHours",
+      label: "Maximum loop duration",
+      type: "number",
+      default: 168,
+      min: 1,
+      max: 8760,
+      step: 1,
+      unit: "hours",
+      description: "Time from the first hop to the transfer that closes the loop",
+    },
+    {
+      key: "maxDecayPct",
+      label: "Maximum decay per hop",
+      type: "number",
+      default: 20,
+      min: 0,
+      max: 100,
+      step: 1,
+      unit: "%",
+      description: "How much less a hop may carry than the one before it (fees, skimming)",
+    },
+    {
+      key: "maxGrowthPct",
+      label: "Maximum growth per hop",
+      type: "number",
+      default: 5,
+      min: 0,
+      max: 100,
+      step: 1,
+      unit: "%",
+      description: "How much more a hop may carry than the one before it (top-ups)",
+    },
+  ],
+  validate({ minLength, maxLength }) {
+    return minLength > maxLength ? ["Minimum cycle length cannot exceed the maximum"] : [];
+  },
+  run({ adj, pairTransactions }, { minLength, maxLength, maxDurationHours, maxDecayPct, maxGrowthPct }, report): DetectorOutput {
+    const accountPatterns = new Map<string, PatternEvidence[]>();
+    const { paths: cycles, truncated: cyclesTruncated } = enumerateCycles(adj, minLength, maxLength, MAX_CYCLES, (f) => report(f * 0.5));
+
+    // Pair transfers in time order, sorted on first use
+    const sortedCache = new Map<string, Transaction[]>();
+    const sortedPairs = (key: string) => {
+      let sorted = sortedCache.get(key);
+      if (!sorted) {
+        sorted = [...(pairTransactions.get(key) || [])].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        sortedCache.set(key, sorted);
+      }
+      return sorted;
+    };
+
+    const maxDurationMs = maxDurationHours * 3600000;
+    const minRatio = 1 - maxDecayPct / 100;
+    const maxRatio = 1 + maxGrowthPct / 100;
+    const temporal: { members: string[]; chain: Transaction[] }[] = [];
+    // Both directions around the same accounts are one ring
+    const seen = new Set<string>();
+    let truncated = cyclesTruncated;
+    cycles.forEach((cycle, i) => {
+      report(0.5 + (i / cycles.length) * 0.5);
+      const key = [...cycle].sort().join(",");
+      if (seen.has(key)) return;
+      const { chain, exhausted } = findTemporalChain(cycle, sortedPairs, maxDurationMs, minRatio, maxRatio);
+      if (exhausted) truncated = true;
+      if (!chain) return;
+      seen.add(key);
+      // Members are listed in flow order, starting where the money entered
+      temporal.push({ members: chain.map((t) => t.sender_id), chain });
+    });
+
+    for (const { members, chain } of temporal) {
+      for (const acc of members) addPattern(accountPatterns, acc, `cycle_length_${members.length}`, chain);
+    }
+
+    return {
+      accountPatterns,
+      rings: temporal.map(({ members, chain }) => ({
+        member_accounts: members,
+        pattern_type: "cycle",
+        risk_score: Math.min(70 + members.length * 5, 100),
+        evidence: buildEvidence(chain),
+        transaction_chain: chain.map((t) => t.transaction_id),
+      })),
+      truncated,
+    };
+  },
+};
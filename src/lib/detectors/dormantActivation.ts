@@ -0,0 +1,117 @@
+import { PatternEvidence, Transaction } from "../types";
+import { DetectedRing, Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence } from "./helpers";
+import { forEachWindow } from "./windows";
+
+interface DormantParams {
+  [key: string]: number;
+  minDatasetDays: number;
+  burstWindowHours: number;
+  minTransactions: number;
+  burstShare: number;
+  minSpanMultiple: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quiet spell at which the dormancy part of the ring score saturates
+const FULL_IDLE_DAYS = 30;
+
+// Ring score from 50 to 100: a larger share of activity in the burst and a longer quiet
+// spell around it both push it up
+function dormantRiskScore(share: number, idleDays: number): number {
+  const score = 50 + 25 * share + 25 * Math.min(idleDays / FULL_IDLE_DAYS, 1);
+  return Math.round(score * 10) / 10;
+}
+
+// Detect dormant account activation (accounts with sudden activity bursts)
+export const dormantActivationDetector: Detector<DormantParams> = {
+  id: "dormant",
+  label: "Dormant Burst",
+  color: "hsl(310, 60%, 60%)",
+  weights: {
+    dormant_activation: 15,
+  },
+  configSchema: [
+    { key: "minDatasetDays", label: "Minimum data span", type: "number", default: 7, min: 1, max: 3650, step: 1, unit: "days" },
+    { key: "burstWindowHours", label: "Burst window", type: "number", default: 48, min: 1, max: 720, step: 1, unit: "hours" },
+    { key: "minTransactions", label: "Minimum account activity", type: "number", default: 4, min: 2, max: 1000, step: 1, unit: "transactions" },
+    {
+      key: "burstShare",
+      label: "Share inside burst",
+      type: "number",
+      default: 0.7,
+      min: 0.1,
+      max: 1,
+      step: 0.05,
+      description: "Fraction of the account's transactions that must fall inside one burst window",
+    },
+    {
+      key: "minSpanMultiple",
+      label: "Span vs. burst window",
+      type: "number",
+      default: 3,
+      min: 1,
+      max: 100,
+      step: 1,
+      description: "Account history must exceed this many burst windows",
+    },
+  ],
+  run({ transactions }, params, report): DetectorOutput {
+    const suspicious = new Map<string, PatternEvidence[]>();
+    const rings: DetectedRing[] = [];
+    const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (sorted.length === 0) return { accountPatterns: suspicious, rings: [] };
+
+    const totalSpan = sorted[sorted.length - 1].timestamp.getTime() - sorted[0].timestamp.getTime();
+    if (totalSpan < params.minDatasetDays * DAY_MS) return { accountPatterns: suspicious, rings: [] };
+
+    const accountTxs = new Map<string, Transaction[]>();
+    for (const t of sorted) {
+      for (const id of [t.sender_id, t.receiver_id]) {
+        if (!accountTxs.has(id)) accountTxs.set(id, []);
+        accountTxs.get(id)!.push(t);
+      }
+    }
+
+    const BURST_WINDOW = params.burstWindowHours * 60 * 60 * 1000;
+
+    let done = 0;
+    for (const [acc, txs] of accountTxs) {
+      report(done++ / accountTxs.size);
+      if (txs.length < params.minTransactions) continue;
+      const accSorted = txs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      const accSpan = accSorted[accSorted.length - 1].timestamp.getTime() - accSorted[0].timestamp.getTime();
+
+      if (accSpan <= BURST_WINDOW * params.minSpanMultiple) continue;
+
+      // Check if most transactions happen in a short burst relative to account's timeline
+      const minBurst = Math.ceil(accSorted.length * params.burstShare);
+      forEachWindow(accSorted, BURST_WINDOW, (start, end) => {
+        if (end - start < minBurst) return;
+        const burst = accSorted.slice(start, end);
+        addPattern(suspicious, acc, "dormant_activation", burst);
+        const before = start > 0 ? burst[0].timestamp.getTime() - accSorted[start - 1].timestamp.getTime() : 0;
+        const after = end < accSorted.length ? accSorted[end].timestamp.getTime() - burst[burst.length - 1].timestamp.getTime() : 0;
+        const idleDays = Math.max(before, after) / DAY_MS;
+        const counterparties = burst.map((t) => (t.sender_id === acc ? t.receiver_id : t.sender_id));
+        rings.push({
+          member_accounts: [acc, ...new Set(counterparties)],
+          pattern_type: "dormant_activation",
+          risk_score: dormantRiskScore(burst.length / accSorted.length, idleDays),
+          evidence: buildEvidence(burst),
+          details: {
+            type: "dormant_activation",
+            burst_count: burst.length,
+            total_count: accSorted.length,
+            idle_days: Math.round(idleDays * 10) / 10,
+          },
+        });
+        return false;
+      });
+    }
+
+    return { accountPatterns: suspicious, rings };
+  },
+};
@@ -0,0 +1,253 @@
+import { ProgressReporter } from "./types";
+
+export interface EnumerationResult {
+  paths: string[][];
+  // True when the limit was hit and some paths were not enumerated
+  truncated: boolean;
+}
+
+// Accounts numbered in first-appearance order (senders first) with compressed
+// adjacency, so the hot loops below index typed arrays instead of string maps
+interface IndexedGraph {
+  names: string[];
+  offsets: Int32Array;
+  targets: Int32Array;
+}
+
+function indexGraph(adj: Map<string, string[]>): IndexedGraph {
+  const ids = new Map<string, number>();
+  const names: string[] = [];
+  const idOf = (name: string) => {
+    let id = ids.get(name);
+    if (id === undefined) {
+      id = names.length;
+      ids.set(name, id);
+      names.push(name);
+    }
+    return id;
+  };
+  for (const node of adj.keys()) idOf(node);
+  let edges = 0;
+  for (const targets of adj.values()) {
+    for (const t of targets) idOf(t);
+    edges += targets.length;
+  }
+
+  const offsets = new Int32Array(names.length + 1);
+  const targets = new Int32Array(edges);
+  let e = 0;
+  for (let v = 0; v < names.length; v++) {
+    offsets[v] = e;
+    for (const t of adj.get(names[v]) || []) targets[e++] = ids.get(t)!;
+  }
+  offsets[names.length] = e;
+  return { names, offsets, targets };
+}
+
+function reverseGraph({ names, offsets, targets }: IndexedGraph): IndexedGraph {
+  const n = names.length;
+  const revOffsets = new Int32Array(n + 1);
+  for (let e = 0; e < targets.length; e++) revOffsets[targets[e] + 1]++;
+  for (let v = 0; v < n; v++) revOffsets[v + 1] += revOffsets[v];
+  const fill = revOffsets.slice(0, n);
+  const revTargets = new Int32Array(targets.length);
+  for (let v = 0; v < n; v++) {
+    for (let e = offsets[v]; e < offsets[v + 1]; e++) revTargets[fill[targets[e]]++] = v;
+  }
+  return { names, offsets: revOffsets, targets: revTargets };
+}
+
+// Tarjan's algorithm, iterative so 50k-account graphs cannot overflow the call stack.
+// Returns the component number of every account; components are numbered in reverse topological order.
+function componentIds({ names, offsets, targets }: IndexedGraph): { component: Int32Array; count: number } {
+  const n = names.length;
+  const index = new Int32Array(n).fill(-1);
+  const low = new Int32Array(n);
+  const onStack = new Uint8Array(n);
+  const component = new Int32Array(n);
+  const stack: number[] = [];
+  // Each frame is a node and the next edge to follow from it
+  const frameNode: number[] = [];
+  const frameEdge: number[] = [];
+  let counter = 0;
+  let count = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (index[root] !== -1) continue;
+    index[root] = low[root] = counter++;
+    stack.push(root);
+    onStack[root] = 1;
+    frameNode.push(root);
+    frameEdge.push(offsets[root]);
+
+    while (frameNode.length > 0) {
+      const top = frameNode.length - 1;
+      const v = frameNode[top];
+      if (frameEdge[top] < offsets[v + 1]) {
+        const w = targets[frameEdge[top]++];
+        if (index[w] === -1) {
+          index[w] = low[w] = counter++;
+          stack.push(w);
+          onStack[w] = 1;
+          frameNode.push(w);
+          frameEdge.push(offsets[w]);
+        } else if (onStack[w]) {
+          low[v] = Math.min(low[v], index[w]);
+        }
+        continue;
+      }
+      frameNode.pop();
+      frameEdge.pop();
+      if (frameNode.length > 0) {
+        const parent = frameNode[frameNode.length - 1];
+        low[parent] = Math.min(low[parent], low[v]);
+      }
+      if (low[v] === index[v]) {
+        let w: number;
+        do {
+          w = stack.pop()!;
+          onStack[w] = 0;
+          component[w] = count;
+        } while (w !== v);
+        count++;
+      }
+    }
+  }
+  return { component, count };
+}
+
+// Strongly connected components of the transfer graph, as lists of account IDs
+export function stronglyConnectedComponents(adj: Map<string, string[]>): string[][] {
+  const graph = indexGraph(adj);
+  const { component, count } = componentIds(graph);
+  const components: string[][] = Array.from({ length: count }, () => []);
+  graph.names.forEach((name, v) => components[component[v]].push(name));
+  return components;
+}
+
+// Enumerate simple cycles of minLength..maxLength accounts, Johnson-style: cycles
+// never leave a strongly connected component, and each is rooted at its lowest-
+// ordered member so it is found exactly once. Johnson's blocking sets are unsound
+// under a length bound, so branches are pruned by the BFS distance back to the root.
+export function enumerateCycles(
+  adj: Map<string, string[]>,
+  minLength: number,
+  maxLength: number,
+  limit: number,
+  report?: ProgressReporter
+): EnumerationResult {
+  const cycles: string[][] = [];
+  const graph = indexGraph(adj);
+  const reverse = reverseGraph(graph);
+  const { names, offsets, targets } = graph;
+  const n = names.length;
+  const { component, count } = componentIds(graph);
+  const size = new Int32Array(count);
+  for (let v = 0; v < n; v++) size[component[v]]++;
+
+  // Distances are valid only where stamp matches the current root, so nothing is cleared between roots
+  const dist = new Int32Array(n);
+  const stamp = new Int32Array(n).fill(-1);
+  const onPath = new Uint8Array(n);
+  const path: number[] = [];
+  let root = 0;
+
+  const extend = (v: number): boolean => {
+    for (let e = offsets[v]; e < offsets[v + 1]; e++) {
+      const w = targets[e];
+      if (w === root) {
+        if (path.length >= minLength) {
+          cycles.push(path.map((p) => names[p]));
+          if (cycles.length >= limit) return false;
+        }
+        continue;
+      }
+      if (stamp[w] !== root || onPath[w] || path.length + dist[w] > maxLength) continue;
+      path.push(w);
+      onPath[w] = 1;
+      const keepGoing = extend(w);
+      path.pop();
+      onPath[w] = 0;
+      if (!keepGoing) return false;
+    }
+    return true;
+  };
+
+  // Roots follow first appearance in the adjacency list, so results are stable run to run
+  for (root = 0; root < n; root++) {
+    report?.(root / n);
+    const comp = component[root];
+    if (size[comp] < Math.max(minLength, 2)) continue;
+
+    // Hops from each nearby account back to the root, through the root's component
+    // and never through an account ordered before it
+    dist[root] = 0;
+    stamp[root] = root;
+    let frontier = [root];
+    for (let d = 1; d < maxLength && frontier.length > 0; d++) {
+      const next: number[] = [];
+      for (const v of frontier) {
+        for (let e = reverse.offsets[v]; e < reverse.offsets[v + 1]; e++) {
+          const u = reverse.targets[e];
+          if (u < root || stamp[u] === root || component[u] !== comp) continue;
+          stamp[u] = root;
+          dist[u] = d;
+          next.push(u);
+        }
+      }
+      frontier = next;
+    }
+
+    path.push(root);
+    onPath[root] = 1;
+    const finished = extend(root);
+    path.pop();
+    onPath[root] = 0;
+    if (!finished) return { paths: cycles, truncated: true };
+  }
+  return { paths: cycles, truncated: false };
+}
+
+// Enumerate simple paths of minLength..maxLength accounts from every sender.
+// Only accounts passing canContinue may sit in the middle of a path, so the
+// search never expands through the hubs that make dense graphs explode.
+export function enumeratePaths(
+  adj: Map<string, string[]>,
+  minLength: number,
+  maxLength: number,
+  canContinue: (node: string) => boolean,
+  limit: number,
+  report?: ProgressReporter
+): EnumerationResult {
+  const paths: string[][] = [];
+  const starts = Array.from(adj.keys());
+
+  for (let n = 0; n < starts.length; n++) {
+    report?.(n / starts.length);
+    const path = [starts[n]];
+    const onPath = new Set(path);
+    const visit = (): boolean => {
+      if (path.length >= minLength) {
+        paths.push([...path]);
+        if (paths.length >= limit) return false;
+      }
+      const node = path[path.length - 1];
+      if (path.length >= maxLength || (path.length > 1 && !canContinue(node))) return true;
+      // Reverse order matches the stack-based search this replaced, keeping ring numbering stable
+      const neighbors = adj.get(node) || [];
+      for (let i = neighbors.length - 1; i >= 0; i--) {
+        const next = neighbors[i];
+        if (onPath.has(next)) continue;
+        path.push(next);
+        onPath.add(next);
+        const keepGoing = visit();
+        path.pop();
+        onPath.delete(next);
+        if (!keepGoing) return false;
+      }
+      return true;
+    };
+    if (!visit()) return { paths, truncated: true };
+  }
+  return { paths, truncated: false };
+}
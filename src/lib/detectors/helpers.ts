@@ -0,0 +1,73 @@
+import { Evidence, PatternEvidence, Transaction } from "../types";
+import { ConfigField, DetectorParams } from "./types";
+
+export function pairKey(sender: string, receiver: string): string {
+  return `${sender}->${receiver}`;
+}
+
+// Transfers along consecutive accounts of a path; closed paths include the edge back to the start
+export function pathTransactions(
+  pairTransactions: Map<string, Transaction[]>,
+  path: string[],
+  closed: boolean
+): Transaction[] {
+  const txs: Transaction[] = [];
+  const hops = closed ? path.length : path.length - 1;
+  for (let i = 0; i < hops; i++) {
+    txs.push(...(pairTransactions.get(pairKey(path[i], path[(i + 1) % path.length])) || []));
+  }
+  return txs;
+}
+
+export function buildEvidence(transactions: Transaction[]): Evidence {
+  let start = Infinity;
+  let end = -Infinity;
+  const ids = new Set<string>();
+  for (const t of transactions) {
+    ids.add(t.transaction_id);
+    start = Math.min(start, t.timestamp.getTime());
+    end = Math.max(end, t.timestamp.getTime());
+  }
+  return {
+    transaction_ids: Array.from(ids),
+    window_start: new Date(start === Infinity ? 0 : start).toISOString(),
+    window_end: new Date(end === -Infinity ? 0 : end).toISOString(),
+  };
+}
+
+// Union of several hits: all transaction ids, window widened to cover every one
+export function mergeEvidence(list: Evidence[]): Evidence {
+  if (list.length === 0) return { transaction_ids: [], window_start: new Date(0).toISOString(), window_end: new Date(0).toISOString() };
+  const ids = new Set<string>();
+  let start = list[0].window_start;
+  let end = list[0].window_end;
+  for (const e of list) {
+    for (const id of e.transaction_ids) ids.add(id);
+    if (e.window_start < start) start = e.window_start;
+    if (e.window_end > end) end = e.window_end;
+  }
+  return { transaction_ids: Array.from(ids), window_start: start, window_end: end };
+}
+
+// Record a pattern hit; repeated hits of the same pattern merge their evidence
+export function addPattern(
+  map: Map<string, PatternEvidence[]>,
+  account: string,
+  pattern: string,
+  transactions: Transaction[]
+): void {
+  const hits = map.get(account) || [];
+  const evidence = buildEvidence(transactions);
+  const idx = hits.findIndex((h) => h.pattern === pattern);
+  if (idx === -1) hits.push({ pattern, ...evidence });
+  else hits[idx] = { pattern, ...mergeEvidence([hits[idx], evidence]) };
+  map.set(account, hits);
+}
+
+export function defaultParams(schema: ConfigField[]): DetectorParams {
+  const params: DetectorParams = {};
+  for (const field of schema) {
+    params[field.key] = Array.isArray(field.default) ? [...field.default] : field.default;
+  }
+  return params;
+}
@@ -0,0 +1,71 @@
+import { PatternEvidence, Transaction } from "../types";
+import { DetectedRing, Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence } from "./helpers";
+import { forEachWindow } from "./windows";
+
+interface VelocityParams {
+  [key: string]: number;
+  windowMinutes: number;
+  minTransactions: number;
+}
+
+// Ring score from 50 to 100: more sends than required and a tighter burst both push it up
+function velocityRiskScore(count: number, minTransactions: number, spanMs: number, windowMs: number): number {
+  const score = 50 + 25 * Math.min(count / (minTransactions * 2), 1) + 25 * (1 - Math.min(spanMs / windowMs, 1));
+  return Math.round(score * 10) / 10;
+}
+
+// Detect high-velocity transactions (rapid-fire sends)
+export const highVelocityDetector: Detector<VelocityParams> = {
+  id: "velocity",
+  label: "High Velocity",
+  color: "hsl(200, 70%, 55%)",
+  weights: {
+    high_velocity: 18,
+  },
+  configSchema: [
+    { key: "windowMinutes", label: "Rapid window", type: "number", default: 30, min: 1, max: 1440, step: 1, unit: "minutes" },
+    { key: "minTransactions", label: "Sends in window", type: "number", default: 4, min: 2, max: 100, step: 1, unit: "transactions" },
+  ],
+  run({ transactions }, { windowMinutes, minTransactions }, report): DetectorOutput {
+    const suspicious = new Map<string, PatternEvidence[]>();
+    const rings: DetectedRing[] = [];
+    const RAPID_WINDOW_MS = windowMinutes * 60 * 1000;
+
+    const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // Group by sender
+    const senderTxs = new Map<string, Transaction[]>();
+    for (const t of sorted) {
+      if (!senderTxs.has(t.sender_id)) senderTxs.set(t.sender_id, []);
+      senderTxs.get(t.sender_id)!.push(t);
+    }
+
+    let done = 0;
+    for (const [sender, txs] of senderTxs) {
+      report(done++ / senderTxs.size);
+      // The first window with enough sends is the evidence
+      forEachWindow(txs, RAPID_WINDOW_MS, (start, end) => {
+        if (end - start < minTransactions) return;
+        const burst = txs.slice(start, end);
+        addPattern(suspicious, sender, "high_velocity", burst);
+        const spanMs = burst[burst.length - 1].timestamp.getTime() - burst[0].timestamp.getTime();
+        rings.push({
+          member_accounts: [sender, ...new Set(burst.map((t) => t.receiver_id))],
+          pattern_type: "high_velocity",
+          risk_score: velocityRiskScore(burst.length, minTransactions, spanMs, RAPID_WINDOW_MS),
+          evidence: buildEvidence(burst),
+          details: {
+            type: "high_velocity",
+            window_minutes: windowMinutes,
+            transaction_count: burst.length,
+            span_minutes: Math.round(spanMs / 60000),
+          },
+        });
+        return false;
+      });
+    }
+
+    return { accountPatterns: suspicious, rings };
+  },
+};
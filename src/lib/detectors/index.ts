@@ -0,0 +1,4 @@
+export * from "./types";
+export { addPattern, buildEvidence, mergeEvidence, pairKey, pathTransactions, defaultParams } from "./helpers";
+export { DETECTOR_MODULES } from "./modules";
+export { getDetectors, getDetector, findDetectorForPattern, getPatternWeights } from "./registry";
@@ -0,0 +1,79 @@
+import { PatternEvidence } from "../types";
+import { Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence, pathTransactions } from "./helpers";
+import { enumeratePaths } from "./enumeration";
+
+// Chains reported before the result is truncated
+const MAX_CHAINS = 20000;
+
+interface ShellParams {
+  [key: string]: number;
+  minChainLength: number;
+  maxChainLength: number;
+  maxIntermediaryActivity: number;
+}
+
+// Detect layered shell networks: chains of 3+ hops with low-activity intermediaries
+export const layeredShellDetector: Detector<ShellParams> = {
+  id: "shell",
+  label: "Shell Network",
+  color: "hsl(270, 60%, 60%)",
+  weights: {
+    layered_shell: 25,
+    low_activity_intermediary: 15,
+  },
+  configSchema: [
+    { key: "minChainLength", label: "Minimum chain length", type: "number", default: 4, min: 3, max: 8, step: 1, unit: "accounts" },
+    { key: "maxChainLength", label: "Maximum chain length", type: "number", default: 6, min: 4, max: 8, step: 1, unit: "accounts" },
+    {
+      key: "maxIntermediaryActivity",
+      label: "Shell activity limit",
+      type: "number",
+      default: 3,
+      min: 1,
+      max: 50,
+      step: 1,
+      unit: "transactions",
+      description: "Intermediaries with at most this many transactions count as shells",
+    },
+  ],
+  validate({ minChainLength, maxChainLength }) {
+    return minChainLength > maxChainLength ? ["Minimum chain length cannot exceed the maximum"] : [];
+  },
+  run({ adj, txCounts, pairTransactions }, { minChainLength, maxChainLength, maxIntermediaryActivity }, report): DetectorOutput {
+    const accountPatterns = new Map<string, PatternEvidence[]>();
+    // Every intermediary must be low-activity, so the search only passes through shells
+    const { paths: chains, truncated } = enumeratePaths(
+      adj,
+      minChainLength,
+      maxChainLength,
+      (n) => (txCounts.get(n) || 0) <= maxIntermediaryActivity,
+      MAX_CHAINS,
+      report
+    );
+
+    const chainTxs = chains.map((chain) => pathTransactions(pairTransactions, chain, false));
+    chains.forEach((chain, c) => {
+      chain.forEach((acc, i) => {
+        addPattern(accountPatterns, acc, "layered_shell", chainTxs[c]);
+        const count = txCounts.get(acc) || 0;
+        if (count <= maxIntermediaryActivity && i > 0 && i < chain.length - 1) {
+          // The hops into and out of the shell itself
+          const hops = pathTransactions(pairTransactions, chain.slice(i - 1, i + 2), false);
+          addPattern(accountPatterns, acc, "low_activity_intermediary", hops);
+        }
+      });
+    });
+
+    return {
+      accountPatterns,
+      rings: chains.map((chain, c) => ({
+        member_accounts: chain,
+        pattern_type: "layered_shell",
+        risk_score: Math.min(75 + chain.length * 3, 100),
+        evidence: buildEvidence(chainTxs[c]),
+      })),
+      truncated,
+    };
+  },
+};
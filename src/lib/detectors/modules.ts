@@ -0,0 +1,21 @@
+import { Detector } from "./types";
+import { cycleDetector } from "./cycles";
+import { smurfingDetector } from "./smurfing";
+import { layeredShellDetector } from "./layeredShells";
+import { highVelocityDetector } from "./highVelocity";
+import { structuringDetector } from "./structuring";
+import { roundTripDetector } from "./roundTrips";
+import { dormantActivationDetector } from "./dormantActivation";
+
+// The detectors every analysis runs, in run order: ring IDs are numbered in the order detectors emit them.
+// This list is the extension point. The page and the analysis worker both build their registry from it,
+// so an in-house typology is added here (from its own module) and never registered at runtime.
+export const DETECTOR_MODULES: readonly Detector[] = [
+  cycleDetector,
+  smurfingDetector,
+  layeredShellDetector,
+  highVelocityDetector,
+  structuringDetector,
+  roundTripDetector,
+  dormantActivationDetector,
+];
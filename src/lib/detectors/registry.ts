@@ -0,0 +1,32 @@
+import { Detector } from "./types";
+import { DETECTOR_MODULES } from "./modules";
+
+// Read-only view of DETECTOR_MODULES. Registering at runtime would only reach the thread that did it,
+// leaving the worker running a different set than the legend and scoring describe.
+const detectors: readonly Detector[] = DETECTOR_MODULES;
+
+// Config, progress stages and ring numbering are keyed by id, so a clash is a build mistake
+for (const [i, d] of detectors.entries()) {
+  if (detectors.findIndex((other) => other.id === d.id) !== i) throw new Error(`Duplicate detector id "${d.id}"`);
+}
+
+export function getDetectors(): Detector[] {
+  return [...detectors];
+}
+
+export function getDetector(id: string): Detector | undefined {
+  return detectors.find((d) => d.id === id);
+}
+
+// Map a pattern name (e.g. "fan_in") back to the detector that emits it
+export function findDetectorForPattern(pattern: string): Detector | undefined {
+  return detectors.find((d) => pattern in d.weights);
+}
+
+export function getPatternWeights(): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const d of detectors) {
+    for (const [pattern, weight] of Object.entries(d.weights)) weights.set(pattern, weight);
+  }
+  return weights;
+}
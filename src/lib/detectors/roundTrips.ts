@@ -0,0 +1,92 @@
+import { PatternEvidence, RoundTripLeg, Transaction } from "../types";
+import { DetectedRing, Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence, pairKey } from "./helpers";
+
+interface RoundTripParams {
+  [key: string]: number;
+  tolerance: number;
+  windowDays: number;
+}
+
+// Legs at which the leg-count part of the ring score saturates
+const FULL_LEG_COUNT = 5;
+
+// Ring score from 50 to 100: more legs, fuller returns and quicker returns all push it up
+function roundTripRiskScore(legs: RoundTripLeg[], windowMs: number): number {
+  const ratio = legs.reduce((s, l) => s + l.amount_ratio, 0) / legs.length;
+  const gapMs = (legs.reduce((s, l) => s + l.gap_hours, 0) / legs.length) * 60 * 60 * 1000;
+  const score = 50 + 20 * Math.min(legs.length / FULL_LEG_COUNT, 1) + 15 * ratio + 15 * (1 - Math.min(gapMs / windowMs, 1));
+  return Math.round(score * 10) / 10;
+}
+
+// Detect round-trip flows (A→B→A patterns with similar amounts)
+export const roundTripDetector: Detector<RoundTripParams> = {
+  id: "round_trip",
+  label: "Round-Trip",
+  color: "hsl(160, 60%, 50%)",
+  weights: {
+    round_trip: 20,
+  },
+  configSchema: [
+    {
+      key: "tolerance",
+      label: "Amount tolerance",
+      type: "number",
+      default: 0.15,
+      min: 0,
+      max: 0.9,
+      step: 0.01,
+      description: "Allowed relative difference between the outbound and returning amount",
+    },
+    { key: "windowDays", label: "Return window", type: "number", default: 7, min: 1, max: 365, step: 1, unit: "days" },
+  ],
+  run({ pairTransactions }, { tolerance, windowDays }, report): DetectorOutput {
+    const suspicious = new Map<string, PatternEvidence[]>();
+    const WINDOW_MS = windowDays * 24 * 60 * 60 * 1000;
+
+    const rings: DetectedRing[] = [];
+
+    let done = 0;
+    for (const txs of pairTransactions.values()) {
+      report(done++ / pairTransactions.size);
+      const a = txs[0].sender_id;
+      const b = txs[0].receiver_id;
+      const reverseTxs = pairTransactions.get(pairKey(b, a));
+      if (!reverseTxs) continue;
+
+      // Both directions of a pair see the same matches; the ring is built from one of them
+      const legs: RoundTripLeg[] = [];
+      const legTxs: Transaction[] = [];
+      for (const t1 of txs) {
+        for (const t2 of reverseTxs) {
+          const timeDiff = Math.abs(t1.timestamp.getTime() - t2.timestamp.getTime());
+          const amountRatio = Math.min(t1.amount, t2.amount) / Math.max(t1.amount, t2.amount);
+          if (timeDiff <= WINDOW_MS && amountRatio >= 1 - tolerance) {
+            addPattern(suspicious, a, "round_trip", [t1, t2]);
+            addPattern(suspicious, b, "round_trip", [t1, t2]);
+            if (a > b) continue;
+            const [first, second] = t1.timestamp.getTime() <= t2.timestamp.getTime() ? [t1, t2] : [t2, t1];
+            legs.push({
+              first_id: first.transaction_id,
+              second_id: second.transaction_id,
+              amount_ratio: Math.round(amountRatio * 1000) / 1000,
+              gap_hours: Math.round((timeDiff / (60 * 60 * 1000)) * 10) / 10,
+            });
+            legTxs.push(t1, t2);
+          }
+        }
+      }
+      if (legs.length === 0) continue;
+
+      rings.push({
+        member_accounts: [a, b],
+        pattern_type: "round_trip",
+        risk_score: roundTripRiskScore(legs, WINDOW_MS),
+        evidence: buildEvidence(legTxs),
+        details: { type: "round_trip", legs },
+      });
+    }
+
+    return { accountPatterns: suspicious, rings };
+  },
+};
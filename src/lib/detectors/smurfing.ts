@@ -0,0 +1,145 @@
+import { PatternEvidence, Transaction } from "../types";
+import { DetectedRing, Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence } from "./helpers";
+import { createCoverage, createDistinctCounter, forEachWindow } from "./windows";
+
+interface SmurfingParams {
+  [key: string]: number;
+  windowHours: number;
+  minCounterparties: number;
+}
+
+// Sources at which the source-count part of the ring score saturates
+const FULL_SOURCE_COUNT = 10;
+
+// Ring score from 50 to 100: more sources, more uniform deposits and a faster exit all push it up
+function hubRiskScore(sources: number, inflow: Transaction[], downstream: Transaction[], windowMs: number): number {
+  const amounts = inflow.map((t) => t.amount);
+  const mean = amounts.reduce((s, a) => s + a, 0) / amounts.length;
+  const variance = amounts.reduce((s, a) => s + (a - mean) ** 2, 0) / amounts.length;
+  const uniformity = mean > 0 ? Math.max(0, 1 - Math.sqrt(variance) / mean) : 0;
+
+  // Exit delay: from the last deposit until half of the collected amount has moved on
+  const lastIn = inflow[inflow.length - 1].timestamp.getTime();
+  const collected = mean * amounts.length;
+  let moved = 0;
+  let speed = 0;
+  for (const t of downstream) {
+    moved += t.amount;
+    if (moved >= collected / 2) {
+      speed = 1 - Math.min(Math.max(t.timestamp.getTime() - lastIn, 0) / windowMs, 1);
+      break;
+    }
+  }
+
+  const score = 50 + 20 * Math.min(sources / FULL_SOURCE_COUNT, 1) + 15 * uniformity + 15 * speed;
+  return Math.round(score * 10) / 10;
+}
+
+// Detect smurfing: fan-in/fan-out within 72h windows, one ring per aggregator hub
+export const smurfingDetector: Detector<SmurfingParams> = {
+  id: "smurfing",
+  label: "Smurfing",
+  color: "hsl(30, 80%, 55%)",
+  weights: {
+    fan_in: 20,
+    fan_out: 20,
+    smurfing_source: 10,
+  },
+  configSchema: [
+    { key: "windowHours", label: "Fan window", type: "number", default: 72, min: 1, max: 720, step: 1, unit: "hours" },
+    {
+      key: "minCounterparties",
+      label: "Distinct counterparties",
+      type: "number",
+      default: 3,
+      min: 2,
+      max: 100,
+      step: 1,
+      description: "Senders (fan-in) or receivers (fan-out) needed inside one window",
+    },
+  ],
+  run({ transactions }, { windowHours, minCounterparties }, report): DetectorOutput {
+    const suspicious = new Map<string, PatternEvidence[]>();
+    const WINDOW_MS = windowHours * 60 * 60 * 1000;
+    const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // Fan-in: many senders → one receiver
+    const hubs = new Map<string, { inflow: Transaction[]; sources: string[] }>();
+    const receiverMap = new Map<string, Transaction[]>();
+    for (const t of sorted) {
+      if (!receiverMap.has(t.receiver_id)) receiverMap.set(t.receiver_id, []);
+      receiverMap.get(t.receiver_id)!.push(t);
+    }
+
+    // Fan-in and fan-out passes each count for half of this stage
+    let done = 0;
+    for (const [receiver, txs] of receiverMap) {
+      report(done++ / receiverMap.size / 2);
+      const senders = createDistinctCounter<string>();
+      const coverage = createCoverage(txs);
+      forEachWindow(
+        txs,
+        WINDOW_MS,
+        (start, end) => {
+          if (senders.size >= minCounterparties) coverage.add(start, end);
+        },
+        { enter: (t) => senders.add(t.sender_id), leave: (t) => senders.remove(t.sender_id) }
+      );
+      if (coverage.transactions.length === 0) continue;
+
+      // Evidence is the union of every flagged window; each source cites its own transfers in it
+      addPattern(suspicious, receiver, "fan_in", coverage.transactions);
+      const bySender = new Map<string, Transaction[]>();
+      for (const t of coverage.transactions) {
+        if (!bySender.has(t.sender_id)) bySender.set(t.sender_id, []);
+        bySender.get(t.sender_id)!.push(t);
+      }
+      for (const [s, sent] of bySender) addPattern(suspicious, s, "smurfing_source", sent);
+      hubs.set(receiver, { inflow: coverage.transactions, sources: Array.from(bySender.keys()) });
+    }
+
+    // Fan-out: one sender → many receivers
+    const senderMap = new Map<string, Transaction[]>();
+    for (const t of sorted) {
+      if (!senderMap.has(t.sender_id)) senderMap.set(t.sender_id, []);
+      senderMap.get(t.sender_id)!.push(t);
+    }
+
+    done = 0;
+    for (const [sender, txs] of senderMap) {
+      report(0.5 + done++ / senderMap.size / 2);
+      const receivers = createDistinctCounter<string>();
+      const coverage = createCoverage(txs);
+      forEachWindow(
+        txs,
+        WINDOW_MS,
+        (start, end) => {
+          if (receivers.size >= minCounterparties) coverage.add(start, end);
+        },
+        { enter: (t) => receivers.add(t.receiver_id), leave: (t) => receivers.remove(t.receiver_id) }
+      );
+      if (coverage.transactions.length > 0) addPattern(suspicious, sender, "fan_out", coverage.transactions);
+    }
+
+    // Each hub rings with its sources and the accounts it pays on to while the deposits
+    // arrive or within one window after the last of them
+    const rings: DetectedRing[] = [];
+    for (const [hub, { inflow, sources }] of hubs) {
+      const from = inflow[0].timestamp.getTime();
+      const until = inflow[inflow.length - 1].timestamp.getTime() + WINDOW_MS;
+      const downstream = (senderMap.get(hub) || []).filter(
+        (t) => t.timestamp.getTime() >= from && t.timestamp.getTime() <= until
+      );
+      const members = new Set([hub, ...sources, ...downstream.map((t) => t.receiver_id)]);
+      rings.push({
+        member_accounts: Array.from(members),
+        pattern_type: "smurfing",
+        risk_score: hubRiskScore(sources.length, inflow, downstream, WINDOW_MS),
+        evidence: buildEvidence([...inflow, ...downstream]),
+      });
+    }
+
+    return { accountPatterns: suspicious, rings };
+  },
+};
@@ -0,0 +1,89 @@
+import { PatternEvidence, Transaction } from "../types";
+import { DetectedRing, Detector, DetectorOutput } from "./types";
+import { addPattern, buildEvidence } from "./helpers";
+
+interface StructuringParams {
+  [key: string]: number | number[];
+  thresholds: number[];
+  margin: number;
+  minHits: number;
+}
+
+// Recipients at which the spread part of the ring score saturates
+const FULL_RECIPIENT_COUNT = 5;
+
+// Ring score from 50 to 100: more near-threshold sends, amounts hugging the threshold
+// and a wider spread of recipients all push it up
+function structuringRiskScore(hits: number, minHits: number, closeness: number, recipients: number): number {
+  const score =
+    50 + 20 * Math.min(hits / (minHits * 3), 1) + 15 * closeness + 15 * Math.min(recipients / FULL_RECIPIENT_COUNT, 1);
+  return Math.round(score * 10) / 10;
+}
+
+// Detect structuring: amounts just below reporting thresholds
+export const structuringDetector: Detector<StructuringParams> = {
+  id: "structuring",
+  label: "Structuring",
+  color: "hsl(45, 85%, 55%)",
+  weights: {
+    structuring: 22,
+  },
+  configSchema: [
+    {
+      key: "thresholds",
+      label: "Reporting thresholds",
+      type: "number_list",
+      default: [10000, 5000, 3000],
+      min: 1,
+      description: "Amounts in the reporting currency that trigger mandatory reports",
+    },
+    { key: "margin", label: "Margin below threshold", type: "number", default: 500, min: 1, step: 50 },
+    { key: "minHits", label: "Near-threshold sends", type: "number", default: 3, min: 1, max: 100, step: 1, unit: "transactions" },
+  ],
+  run({ transactions }, { thresholds, margin, minHits }, report): DetectorOutput {
+    const suspicious = new Map<string, PatternEvidence[]>();
+    const rings: DetectedRing[] = [];
+
+    const senderTxs = new Map<string, Transaction[]>();
+    for (const t of transactions) {
+      if (!senderTxs.has(t.sender_id)) senderTxs.set(t.sender_id, []);
+      senderTxs.get(t.sender_id)!.push(t);
+    }
+
+    let done = 0;
+    for (const [sender, txs] of senderTxs) {
+      report(done++ / senderTxs.size);
+      let structuringCount = 0;
+      let closeness = 0;
+      const nearThreshold: Transaction[] = [];
+      const perThreshold = new Map<number, number>();
+      for (const t of txs) {
+        for (const threshold of thresholds) {
+          if (t.amount >= threshold - margin && t.amount < threshold) {
+            structuringCount++;
+            nearThreshold.push(t);
+            perThreshold.set(threshold, (perThreshold.get(threshold) || 0) + 1);
+            closeness += 1 - (threshold - t.amount) / margin;
+          }
+        }
+      }
+      if (structuringCount < minHits) continue;
+
+      addPattern(suspicious, sender, "structuring", nearThreshold);
+      const recipients = new Set(nearThreshold.map((t) => t.receiver_id));
+      rings.push({
+        member_accounts: [sender, ...recipients],
+        pattern_type: "structuring",
+        risk_score: structuringRiskScore(structuringCount, minHits, closeness / structuringCount, recipients.size),
+        evidence: buildEvidence(nearThreshold),
+        details: {
+          type: "structuring",
+          margin,
+          hits: Array.from(perThreshold, ([threshold, count]) => ({ threshold, count })),
+        },
+      });
+    }
+
+    return { accountPatterns: suspicious, rings };
+  },
+};
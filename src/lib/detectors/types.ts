@@ -0,0 +1,52 @@
+import { DetectorParams, DetectorParamValue, FraudRing, PatternEvidence, Transaction } from "../types";
+
+export type { DetectorParams, DetectorParamValue };
+
+// Reports the completed fraction (0-1) of the current stage
+export type ProgressReporter = (fraction: number) => void;
+
+export interface ConfigField {
+  key: string;
+  label: string;
+  type: "number" | "number_list";
+  default: DetectorParamValue;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  description?: string;
+}
+
+// Shared graph facts computed once per run and handed to every detector
+export interface DetectorContext {
+  transactions: Transaction[];
+  adj: Map<string, string[]>;
+  txCounts: Map<string, number>;
+  sentAmounts: Map<string, number>;
+  recvAmounts: Map<string, number>;
+  // Transfers per directed account pair, keyed by pairKey(sender, receiver)
+  pairTransactions: Map<string, Transaction[]>;
+}
+
+// A ring before the pipeline assigns its RING_xxx id
+export type DetectedRing = Omit<FraudRing, "ring_id">;
+
+export interface DetectorOutput {
+  // Each flagged account's pattern hits with the transactions behind them
+  accountPatterns: Map<string, PatternEvidence[]>;
+  rings: DetectedRing[];
+  // Set when the detector stopped at its result cap or search budget, so findings are incomplete
+  truncated?: boolean;
+}
+
+export interface Detector<P extends DetectorParams = DetectorParams> {
+  id: string;
+  label: string;
+  color: string;
+  // Default score weight for each pattern name this detector can emit
+  weights: Record<string, number>;
+  configSchema: ConfigField[];
+  // Cross-field rules the per-field min/max cannot express; returns messages for invalid params
+  validate?(params: P): string[];
+  run(ctx: DetectorContext, params: P, report: ProgressReporter): DetectorOutput;
+}
@@ -0,0 +1,60 @@
+import { Transaction } from "../types";
+
+export interface WindowHooks {
+  // A transfer slid into the window
+  enter?: (t: Transaction) => void;
+  // A transfer slid out of the window
+  leave?: (t: Transaction) => void;
+}
+
+// Walk the windows [t_i, t_i + windowMs] of a time-sorted list with two pointers, in one pass.
+// visit gets each window as the half-open index range [start, end); returning false stops the walk.
+export function forEachWindow(
+  txs: Transaction[],
+  windowMs: number,
+  visit: (start: number, end: number) => boolean | void,
+  hooks: WindowHooks = {}
+): void {
+  let start = 0;
+  let end = 0;
+  for (let i = 0; i < txs.length; i++) {
+    const from = txs[i].timestamp.getTime();
+    // Earlier transfers at the same instant stay in the window
+    // Pointers advance outside the optional calls, which skip their arguments when no hook is set
+    for (; txs[start].timestamp.getTime() < from; start++) hooks.leave?.(txs[start]);
+    for (; end < txs.length && txs[end].timestamp.getTime() <= from + windowMs; end++) hooks.enter?.(txs[end]);
+    if (visit(start, end) === false) return;
+  }
+}
+
+// Multiset of keys that knows how many distinct keys it holds
+export function createDistinctCounter<K>() {
+  const counts = new Map<K, number>();
+  return {
+    add(key: K) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    },
+    remove(key: K) {
+      const n = counts.get(key)! - 1;
+      if (n === 0) counts.delete(key);
+      else counts.set(key, n);
+    },
+    get size() {
+      return counts.size;
+    },
+  };
+}
+
+// Transfers covered by any of the flagged windows, in list order. Windows only move
+// forward, so each one adds at most the transfers past the previous window's end.
+export function createCoverage(txs: Transaction[]) {
+  const covered: Transaction[] = [];
+  let coveredEnd = 0;
+  return {
+    add(start: number, end: number) {
+      for (let j = Math.max(start, coveredEnd); j < end; j++) covered.push(txs[j]);
+      coveredEnd = Math.max(coveredEnd, end);
+    },
+    transactions: covered,
+  };
+}
@@ -0,0 +1,61 @@
+import { CaseWorkflow, Disposition, DispositionState } from "./types";
+
+const ANALYST_STORAGE_KEY = "forensics.analystName";
+
+export const DISPOSITION_STATES: { state: DispositionState; label: string; className: string }[] = [
+  { state: "new", label: "New", className: "border-primary/50 text-primary" },
+  { state: "under_review", label: "Under Review", className: "border-warning/50 text-warning" },
+  { state: "escalated", label: "Escalated", className: "border-destructive/50 text-destructive" },
+  { state: "closed_false_positive", label: "Closed – False Positive", className: "border-border text-muted-foreground" },
+  { state: "closed_sar_filed", label: "Closed – SAR Filed", className: "border-success/50 text-success" },
+];
+
+export function getDispositionLabel(state: DispositionState): string {
+  return DISPOSITION_STATES.find((s) => s.state === state)?.label ?? state;
+}
+
+export function createWorkflow(id: string = ""): CaseWorkflow {
+  return { id, dispositions: {}, audit_trail: [] };
+}
+
+export function getDisposition(workflow: CaseWorkflow, accountId: string): DispositionState {
+  return workflow.dispositions[accountId]?.state ?? "new";
+}
+
+// Apply a triage change and append it to the audit trail; returns a new workflow
+export function applyDisposition(
+  workflow: CaseWorkflow,
+  accountId: string,
+  change: Omit<Disposition, "updated_at">,
+  actor: string
+): CaseWorkflow {
+  const timestamp = new Date().toISOString();
+  return {
+    ...workflow,
+    dispositions: { ...workflow.dispositions, [accountId]: { ...change, updated_at: timestamp } },
+    audit_trail: [
+      ...workflow.audit_trail,
+      {
+        account_id: accountId,
+        from_state: getDisposition(workflow, accountId),
+        to_state: change.state,
+        assignee: change.assignee,
+        note: change.note,
+        actor,
+        timestamp,
+      },
+    ],
+  };
+}
+
+export function loadAnalystName(): string {
+  try {
+    return localStorage.getItem(ANALYST_STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveAnalystName(name: string): void {
+  localStorage.setItem(ANALYST_STORAGE_KEY, name);
+}
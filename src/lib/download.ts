@@ -0,0 +1,10 @@
+// Trigger a browser download for in-memory content
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,128 @@
+import { EgoDirection, EgoNetwork, GraphEdge, NodePosition } from "./types";
+
+export interface EgoAdjacency {
+  // Counterparties per account, largest total flow first
+  downstream: Map<string, string[]>;
+  upstream: Map<string, string[]>;
+}
+
+// Most neighbours one expansion adds; expanding again adds the next batch
+export const EXPAND_LIMIT = 25;
+
+const HOP_X = 220;
+const ROW_Y = 70;
+
+export function buildAdjacency(edges: GraphEdge[]): EgoAdjacency {
+  const flows = { downstream: new Map<string, Map<string, number>>(), upstream: new Map<string, Map<string, number>>() };
+  const add = (map: Map<string, Map<string, number>>, from: string, to: string, amount: number) => {
+    let totals = map.get(from);
+    if (!totals) map.set(from, (totals = new Map()));
+    totals.set(to, (totals.get(to) ?? 0) + amount);
+  };
+  for (const e of edges) {
+    if (e.source === e.target) continue;
+    add(flows.downstream, e.source, e.target, e.amount);
+    add(flows.upstream, e.target, e.source, e.amount);
+  }
+  const rank = (map: Map<string, Map<string, number>>) =>
+    new Map(
+      Array.from(map, ([id, totals]) => [
+        id,
+        Array.from(totals)
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .map(([n]) => n),
+      ])
+    );
+  return { downstream: rank(flows.downstream), upstream: rank(flows.upstream) };
+}
+
+export function createEgoNetwork(root: string): EgoNetwork {
+  return { root, positions: {}, pinned: [], hidden: {} };
+}
+
+// Counterparties in one direction that are neither drawn nor hidden
+export function pendingNeighbours(ego: EgoNetwork, adjacency: EgoAdjacency, id: string, direction: EgoDirection): string[] {
+  return (adjacency[direction].get(id) ?? []).filter((n) => !(n in ego.positions) && !(n in ego.hidden));
+}
+
+// Nearest free slot in the column at x, searching alternately above and below y
+function freeSlot(taken: NodePosition[], x: number, y: number): NodePosition {
+  for (let i = 0; ; i++) {
+    const candidate = { x, y: y + Math.ceil(i / 2) * ROW_Y * (i % 2 === 0 ? 1 : -1) };
+    const clash = taken.some((p) => Math.abs(p.x - x) < HOP_X / 2 && Math.abs(p.y - candidate.y) < ROW_Y / 2);
+    if (!clash) return candidate;
+  }
+}
+
+// Add the next hop from one account: senders in a column to its left, receivers to its right.
+// Accounts already drawn never move.
+export function expandNode(
+  ego: EgoNetwork,
+  adjacency: EgoAdjacency,
+  id: string,
+  direction: EgoDirection,
+  limit = EXPAND_LIMIT
+): EgoNetwork {
+  const origin = ego.positions[id];
+  if (!origin) return ego;
+  const fresh = pendingNeighbours(ego, adjacency, id, direction).slice(0, limit);
+  if (fresh.length === 0) return ego;
+  const x = origin.x + (direction === "downstream" ? HOP_X : -HOP_X);
+  const taken = Object.values(ego.positions);
+  const positions = { ...ego.positions };
+  fresh.forEach((n, i) => {
+    const slot = freeSlot(taken, x, origin.y + (i - (fresh.length - 1) / 2) * ROW_Y);
+    positions[n] = slot;
+    taken.push(slot);
+  });
+  return { ...ego, positions };
+}
+
+// The root with its first hop in both directions
+export function startEgoNetwork(adjacency: EgoAdjacency, root: string): EgoNetwork {
+  const base: EgoNetwork = { ...createEgoNetwork(root), positions: { [root]: { x: 0, y: 0 } } };
+  return expandNode(expandNode(base, adjacency, root, "upstream"), adjacency, root, "downstream");
+}
+
+// Remove the counterparties that hang off this account alone, undoing its expansions.
+// The root and pinned accounts stay.
+export function collapseNode(ego: EgoNetwork, adjacency: EgoAdjacency, id: string): EgoNetwork {
+  const linked = (n: string) => [...(adjacency.upstream.get(n) ?? []), ...(adjacency.downstream.get(n) ?? [])];
+  const pinned = new Set(ego.pinned);
+  const leaves = new Set(
+    linked(id).filter(
+      (n) =>
+        n in ego.positions &&
+        n !== ego.root &&
+        !pinned.has(n) &&
+        linked(n).every((m) => m === id || !(m in ego.positions))
+    )
+  );
+  if (leaves.size === 0) return ego;
+  const positions = Object.fromEntries(Object.entries(ego.positions).filter(([n]) => !leaves.has(n)));
+  return { ...ego, positions };
+}
+
+export function hideNode(ego: EgoNetwork, id: string): EgoNetwork {
+  if (id === ego.root || !(id in ego.positions)) return ego;
+  const { [id]: position, ...positions } = ego.positions;
+  return {
+    ...ego,
+    positions,
+    pinned: ego.pinned.filter((n) => n !== id),
+    hidden: { ...ego.hidden, [id]: position },
+  };
+}
+
+export function unhideAll(ego: EgoNetwork): EgoNetwork {
+  return { ...ego, positions: { ...ego.positions, ...ego.hidden }, hidden: {} };
+}
+
+export function togglePin(ego: EgoNetwork, id: string): EgoNetwork {
+  const pinned = ego.pinned.includes(id) ? ego.pinned.filter((n) => n !== id) : [...ego.pinned, id];
+  return { ...ego, pinned };
+}
+
+export function moveNodes(ego: EgoNetwork, moved: Record<string, NodePosition>): EgoNetwork {
+  return { ...ego, positions: { ...ego.positions, ...moved } };
+}
@@ -0,0 +1,318 @@
+import Papa from "papaparse";
+import { EntityResolution, KycRecord, MergeKey, MergeReason, ResolvedEntity, SkippedMergeValue, Transaction } from "./types";
+
+export const MERGE_KEY_LABELS: Record<MergeKey, string> = {
+  phone: "Shared phone",
+  device: "Shared device",
+  name_dob: "Same name and date of birth",
+  address: "Same address",
+};
+
+// Similarity needed before two values count as the same person or place
+const FUZZY_NAME_THRESHOLD = 0.92;
+const FUZZY_ADDRESS_THRESHOLD = 0.8;
+// Fuzzy matching is pairwise within a block; huge blocks (placeholder DOBs and the like) are skipped
+const MAX_FUZZY_BLOCK = 500;
+// An exact value on more accounts than this is a placeholder or shared line, not one person, and is skipped
+export const MAX_SHARED_VALUE = 10;
+
+const KYC_HEADER_ALIASES: Record<keyof KycRecord, string[]> = {
+  account_id: ["account_id", "accountid", "account", "iban", "acc"],
+  name: ["name", "full_name", "fullname", "customer_name"],
+  dob: ["dob", "date_of_birth", "birth_date", "birthdate"],
+  phone: ["phone", "mobile", "phone_number", "msisdn"],
+  device: ["device", "device_id", "deviceid", "fingerprint"],
+  address: ["address", "street_address", "residential_address"],
+};
+
+// Parse a customer/KYC file; only the account column is required
+export function parseKycRecords(file: File): Promise<KycRecord[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase().replace(/\s+/g, "_"),
+      complete: (results) => {
+        const fields = results.meta.fields || [];
+        const columns: Partial<Record<keyof KycRecord, string>> = {};
+        for (const [key, aliases] of Object.entries(KYC_HEADER_ALIASES) as [keyof KycRecord, string[]][]) {
+          const header = aliases.find((a) => fields.includes(a));
+          if (header) columns[key] = header;
+        }
+        if (!columns.account_id) {
+          reject(new Error("KYC file needs an account_id column."));
+          return;
+        }
+        const records: KycRecord[] = [];
+        for (const row of results.data) {
+          const account_id = String(row[columns.account_id] ?? "").trim();
+          if (!account_id) continue;
+          const record: KycRecord = { account_id };
+          for (const key of ["name", "dob", "phone", "device", "address"] as const) {
+            const value = columns[key] ? String(row[columns[key]!] ?? "").trim() : "";
+            if (value) record[key] = value;
+          }
+          records.push(record);
+        }
+        if (records.length === 0) {
+          reject(new Error("No KYC records with an account_id found."));
+          return;
+        }
+        resolve(records);
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+// Accents are dropped from Latin letters only; vowel signs in other scripts are part of the name
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/(\p{Script=Latin})\p{M}+/gu, "$1")
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{M}\s]/gu, "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+// Empty when either part is missing or the name has no letters left, so a shared DOB alone never merges
+function nameDobKey(r: KycRecord): string {
+  const name = r.name ? normalizeName(r.name) : "";
+  return name && r.dob ? `${name}|${normalizeDob(r.dob)}` : "";
+}
+
+function normalizeDob(dob: string): string {
+  const d = new Date(dob);
+  return isNaN(d.getTime()) ? dob.trim() : d.toISOString().slice(0, 10);
+}
+
+// Compare on the national number so "+44 7700 900123" and "07700900123" match
+function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : "";
+}
+
+// Common street-type abbreviations, so "High St" and "High Street" compare equal
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  st: "street",
+  rd: "road",
+  ave: "avenue",
+  av: "avenue",
+  ln: "lane",
+  dr: "drive",
+  ct: "court",
+  pl: "place",
+  sq: "square",
+  blvd: "boulevard",
+  apt: "apartment",
+  fl: "floor",
+};
+
+function addressTokens(address: string): string[] {
+  return address
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((t) => ADDRESS_ABBREVIATIONS[t] ?? t);
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const range = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  for (const t of setA) if (setB.has(t)) shared++;
+  return shared / (setA.size + setB.size - shared);
+}
+
+// Union-find over account IDs
+function createUnionFind() {
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    let node = x;
+    while (node !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+  const union = (a: string, b: string): boolean => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra === rb) return false;
+    parent.set(rb, ra);
+    return true;
+  };
+  return { find, union };
+}
+
+// Merge accounts that share a phone, device, name+DOB or address, exactly or by fuzzy match
+export function resolveEntities(records: KycRecord[]): EntityResolution {
+  const byAccount = new Map<string, KycRecord>();
+  for (const r of records) byAccount.set(r.account_id, { ...byAccount.get(r.account_id), ...r });
+  const accounts = Array.from(byAccount.values());
+
+  const uf = createUnionFind();
+  const reasons: MergeReason[] = [];
+  const skipped: SkippedMergeValue[] = [];
+  const link = (key: MergeKey, match: MergeReason["match"], a: string, b: string, value: string, similarity?: number) => {
+    if (!uf.union(a, b)) return;
+    reasons.push({ key, match, accounts: [a, b], value, ...(similarity !== undefined ? { similarity } : {}) });
+  };
+
+  // Exact keys: every account in a group joins the first one
+  const exactGroups = (key: MergeKey, keyOf: (r: KycRecord) => string) => {
+    const groups = new Map<string, string[]>();
+    for (const r of accounts) {
+      const k = keyOf(r);
+      if (!k) continue;
+      if (!groups.has(k)) groups.set(k, []);
+      groups.get(k)!.push(r.account_id);
+    }
+    for (const [value, members] of groups) {
+      if (members.length > MAX_SHARED_VALUE) {
+        skipped.push({ key, match: "exact", value, account_count: members.length });
+        continue;
+      }
+      for (let i = 1; i < members.length; i++) link(key, "exact", members[0], members[i], value);
+    }
+  };
+  exactGroups("phone", (r) => (r.phone ? normalizePhone(r.phone) : ""));
+  exactGroups("device", (r) => (r.device ? r.device.trim().toLowerCase() : ""));
+  exactGroups("name_dob", nameDobKey);
+  exactGroups("address", (r) => (r.address ? addressTokens(r.address).join(" ") : ""));
+
+  // Fuzzy keys, compared pairwise within a block of plausible matches
+  const fuzzyBlocks = (
+    key: MergeKey,
+    blockOf: (r: KycRecord) => string,
+    valueOf: (r: KycRecord) => string,
+    similarity: (a: KycRecord, b: KycRecord) => number,
+    threshold: number
+  ) => {
+    const blocks = new Map<string, KycRecord[]>();
+    for (const r of accounts) {
+      const b = blockOf(r);
+      if (!b) continue;
+      if (!blocks.has(b)) blocks.set(b, []);
+      blocks.get(b)!.push(r);
+    }
+    for (const [value, block] of blocks) {
+      if (block.length > MAX_FUZZY_BLOCK) skipped.push({ key, match: "fuzzy", value, account_count: block.length });
+      if (block.length < 2 || block.length > MAX_FUZZY_BLOCK) continue;
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const score = similarity(block[i], block[j]);
+          if (score >= threshold) {
+            link(key, "fuzzy", block[i].account_id, block[j].account_id, valueOf(block[i]), Math.round(score * 100) / 100);
+          }
+        }
+      }
+    }
+  };
+  // Typos in the name of someone with the same date of birth
+  fuzzyBlocks(
+    "name_dob",
+    (r) => (nameDobKey(r) ? normalizeDob(r.dob!) : ""),
+    nameDobKey,
+    (a, b) => jaroWinkler(normalizeName(a.name!), normalizeName(b.name!)),
+    FUZZY_NAME_THRESHOLD
+  );
+  // Reworded addresses that share house number and postcode digits
+  fuzzyBlocks(
+    "address",
+    (r) => (r.address ? addressTokens(r.address).filter((t) => /\d/.test(t)).sort().join(" ") : ""),
+    (r) => addressTokens(r.address!).join(" "),
+    (a, b) => jaccard(addressTokens(a.address!), addressTokens(b.address!)),
+    FUZZY_ADDRESS_THRESHOLD
+  );
+
+  const members = new Map<string, string[]>();
+  for (const r of accounts) {
+    const root = uf.find(r.account_id);
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(r.account_id);
+  }
+
+  const groups = Array.from(members.values())
+    .filter((m) => m.length > 1)
+    .map((m) => m.sort())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+  const entities: ResolvedEntity[] = groups.map((accs, i) => {
+    const set = new Set(accs);
+    return {
+      entity_id: `ENT_${String(i + 1).padStart(3, "0")}`,
+      accounts: accs,
+      name: accs.map((a) => byAccount.get(a)?.name).find(Boolean),
+      reasons: reasons.filter((r) => set.has(r.accounts[0])),
+    };
+  });
+
+  skipped.sort((a, b) => b.account_count - a.account_count || a.key.localeCompare(b.key));
+  return { record_count: byAccount.size, entities, skipped };
+}
+
+export function buildEntityIndex(entities: ResolvedEntity[]): Map<string, ResolvedEntity> {
+  const index = new Map<string, ResolvedEntity>();
+  for (const e of entities) for (const acc of e.accounts) index.set(acc, e);
+  return index;
+}
+
+// Rewrite transfers onto entity IDs; transfers inside one entity are internal moves and are dropped
+export function projectToEntities(
+  transactions: Transaction[],
+  entities: ResolvedEntity[]
+): { transactions: Transaction[]; internal: number } {
+  if (entities.length === 0) return { transactions, internal: 0 };
+  const index = buildEntityIndex(entities);
+  const projected: Transaction[] = [];
+  let internal = 0;
+  for (const t of transactions) {
+    const sender = index.get(t.sender_id)?.entity_id ?? t.sender_id;
+    const receiver = index.get(t.receiver_id)?.entity_id ?? t.receiver_id;
+    if (sender === receiver) {
+      internal++;
+      continue;
+    }
+    projected.push(sender === t.sender_id && receiver === t.receiver_id ? t : { ...t, sender_id: sender, receiver_id: receiver });
+  }
+  return { transactions: projected, internal };
+}
@@ -0,0 +1,163 @@
+import Papa from "papaparse";
+import {
+  AnalysisResult,
+  DetectionMetrics,
+  EvaluationReport,
+  GroundTruthLabel,
+  MissedMule,
+  PrecisionRecallPoint,
+  SuspiciousAccount,
+} from "./types";
+import { Detector, getDetectors } from "./detectors";
+
+const LABEL_HEADER_ALIASES: Record<"account_id" | "is_mule" | "typology", string[]> = {
+  account_id: ["account_id", "accountid", "account", "acc"],
+  is_mule: ["is_mule", "mule", "label", "is_fraud", "fraud"],
+  typology: ["typology", "pattern", "pattern_type", "scheme"],
+};
+
+function parseFlag(value: string): boolean | undefined {
+  const v = value.trim().toLowerCase();
+  if (["1", "true", "yes", "y", "mule", "fraud"].includes(v)) return true;
+  if (["0", "false", "no", "n", "legit", "normal", ""].includes(v)) return false;
+  return undefined;
+}
+
+// Parse a ground-truth file (account_id, is_mule, typology); rows with an unreadable flag are skipped
+export function parseGroundTruth(file: File): Promise<GroundTruthLabel[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase().replace(/\s+/g, "_"),
+      complete: (results) => {
+        const fields = results.meta.fields || [];
+        const column = (key: keyof typeof LABEL_HEADER_ALIASES) => LABEL_HEADER_ALIASES[key].find((a) => fields.includes(a));
+        const accountColumn = column("account_id");
+        const muleColumn = column("is_mule");
+        const typologyColumn = column("typology");
+        if (!accountColumn || !muleColumn) {
+          reject(new Error("Label file needs account_id and is_mule columns."));
+          return;
+        }
+        const labels: GroundTruthLabel[] = [];
+        for (const row of results.data) {
+          const account_id = String(row[accountColumn] ?? "").trim();
+          const is_mule = parseFlag(String(row[muleColumn] ?? ""));
+          if (!account_id || is_mule === undefined) continue;
+          labels.push({
+            account_id,
+            is_mule,
+            typology: typologyColumn ? String(row[typologyColumn] ?? "").trim() : "",
+            instance_id: String(row.instance_id ?? "").trim(),
+            role: String(row.role ?? "").trim(),
+          });
+        }
+        if (labels.length === 0) {
+          reject(new Error("No labelled accounts found."));
+          return;
+        }
+        resolve(labels);
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+function f1Score(precision: number | null, recall: number | null): number | null {
+  if (precision === null || recall === null) return null;
+  return precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+}
+
+function metrics(tp: number, fp: number, fn: number): DetectionMetrics {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : null;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : null;
+  return { true_positives: tp, false_positives: fp, false_negatives: fn, precision, recall, f1: f1Score(precision, recall) };
+}
+
+// A typology belongs to a detector when it names the detector or one of its patterns,
+// so labels may say "shell", "layered_shell" or "high_velocity" alike
+function detectsTypology(detector: Detector, typology: string): boolean {
+  return typology === detector.id || typology in detector.weights;
+}
+
+// Scored accounts keyed by account; at entity level every member account carries its entity's result
+function accountScores(result: AnalysisResult): Map<string, SuspiciousAccount> {
+  const members = new Map(result.entities.map((e) => [e.entity_id, e.accounts]));
+  const scores = new Map<string, SuspiciousAccount>();
+  for (const sa of result.suspicious_accounts) {
+    for (const account_id of members.get(sa.account_id) ?? [sa.account_id]) {
+      scores.set(account_id, account_id === sa.account_id ? sa : { ...sa, account_id });
+    }
+  }
+  return scores;
+}
+
+// Precision and recall at every distinct score, walking accounts from the highest score down
+function precisionRecallCurve(scored: SuspiciousAccount[], mules: Set<string>): PrecisionRecallPoint[] {
+  const sorted = [...scored].sort((a, b) => b.suspicion_score - a.suspicion_score);
+  const curve: PrecisionRecallPoint[] = [];
+  let tp = 0;
+  let fp = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (mules.has(sorted[i].account_id)) tp++;
+    else fp++;
+    if (i + 1 < sorted.length && sorted[i + 1].suspicion_score === sorted[i].suspicion_score) continue;
+    const { precision, recall, f1 } = metrics(tp, fp, mules.size - tp);
+    curve.push({ cutoff: sorted[i].suspicion_score, precision: precision ?? 0, recall: recall ?? 0, f1: f1 ?? 0 });
+  }
+  return curve;
+}
+
+// Compare an analysis run against ground truth. The run should use a score floor of 0 so the
+// curve can look below the reporting floor; `cutoff` is the floor being judged. Accounts
+// missing from the labels count as legitimate. A detector's precision counts every mule it
+// flags, its recall only the mules of its own typology.
+export function evaluateDetection(result: AnalysisResult, labels: GroundTruthLabel[], cutoff: number): EvaluationReport {
+  const mules = new Set(labels.filter((l) => l.is_mule).map((l) => l.account_id));
+  const scores = accountScores(result);
+  const scored = Array.from(scores.values());
+  const flagged = scored.filter((sa) => sa.suspicion_score >= cutoff);
+
+  const false_positives = flagged.filter((sa) => !mules.has(sa.account_id));
+  const false_negatives: MissedMule[] = labels
+    .filter((l) => l.is_mule && !((scores.get(l.account_id)?.suspicion_score ?? -Infinity) >= cutoff))
+    .map((label) => ({ label, score: scores.get(label.account_id)?.suspicion_score }));
+  const overall = metrics(flagged.length - false_positives.length, false_positives.length, false_negatives.length);
+
+  const detectors = getDetectors().map((d) => {
+    const hits = flagged.filter((sa) => sa.detected_patterns.some((p) => p in d.weights));
+    const hitIds = new Set(hits.map((sa) => sa.account_id));
+    const tp = hits.filter((sa) => mules.has(sa.account_id)).length;
+    const own = labels.filter((l) => l.is_mule && detectsTypology(d, l.typology));
+    const found = own.filter((l) => hitIds.has(l.account_id)).length;
+    const precision = hits.length > 0 ? tp / hits.length : null;
+    const recall = own.length > 0 ? found / own.length : null;
+    return {
+      detector: d.id,
+      label: d.label,
+      true_positives: tp,
+      false_positives: hits.length - tp,
+      false_negatives: own.length - found,
+      precision,
+      recall,
+      f1: f1Score(precision, recall),
+    };
+  });
+
+  const curve = precisionRecallCurve(scored, mules);
+  let best: PrecisionRecallPoint | null = null;
+  for (const point of curve) if (point.f1 > 0 && (!best || point.f1 > best.f1)) best = point;
+
+  return {
+    cutoff,
+    label_count: labels.length,
+    mule_count: mules.size,
+    overall,
+    detectors,
+    curve,
+    best_cutoff: best ? best.cutoff : null,
+    false_positives,
+    false_negatives,
+  };
+}
@@ -0,0 +1,70 @@
+import Papa from "papaparse";
+import { AnalysisResult, GraphEdge, PatternEvidence, RingDetails, RingType } from "./types";
+
+export type EvidenceSubject = { kind: "account" | "ring"; id: string };
+
+export const RING_TYPE_LABELS: Record<RingType, string> = {
+  cycle: "Circular Routing",
+  smurfing: "Smurfing",
+  layered_shell: "Layered Shell",
+  round_trip: "Round-Trip",
+  structuring: "Structuring",
+  high_velocity: "High Velocity",
+  dormant_activation: "Dormant Burst",
+};
+
+// Evidence sections for an account (one per pattern) or a ring (a single section)
+export function getSubjectEvidence(result: AnalysisResult, subject: EvidenceSubject): PatternEvidence[] {
+  if (subject.kind === "account") {
+    return result.suspicious_accounts.find((a) => a.account_id === subject.id)?.evidence ?? [];
+  }
+  const ring = result.fraud_rings.find((r) => r.ring_id === subject.id);
+  return ring ? [{ pattern: ring.pattern_type, ...ring.evidence }] : [];
+}
+
+// One-line reading of a ring's typology-specific evidence
+export function describeRingDetails(details: RingDetails): string {
+  switch (details.type) {
+    case "round_trip": {
+      const ratio = details.legs.reduce((s, l) => s + l.amount_ratio, 0) / details.legs.length;
+      const gap = details.legs.reduce((s, l) => s + l.gap_hours, 0) / details.legs.length;
+      return `${details.legs.length} out-and-back legs • ${Math.round(ratio * 100)}% returned on average • ${gap.toFixed(1)}h average return`;
+    }
+    case "structuring":
+      return `${details.hits.map((h) => `${h.count} under ${h.threshold.toLocaleString()}`).join(", ")} • within ${details.margin.toLocaleString()}`;
+    case "high_velocity":
+      return `${details.transaction_count} sends in ${details.span_minutes} min • window ${details.window_minutes} min`;
+    case "dormant_activation":
+      return `${details.burst_count} of ${details.total_count} transfers in the burst • ${details.idle_days} days quiet`;
+  }
+}
+
+// One row per cited transfer, suitable for attaching to a SAR
+export function buildEvidenceCSV(
+  subject: EvidenceSubject,
+  sections: PatternEvidence[],
+  edgesById: Map<string, GraphEdge>,
+  reportingCurrency: string
+): string {
+  const rows = sections.flatMap((section) =>
+    section.transaction_ids.map((id) => {
+      const edge = edgesById.get(id);
+      return {
+        subject_type: subject.kind,
+        subject_id: subject.id,
+        pattern: section.pattern,
+        window_start: section.window_start,
+        window_end: section.window_end,
+        transaction_id: id,
+        timestamp: edge ? edge.timestamp.toISOString() : "",
+        sender_id: edge?.source ?? "",
+        receiver_id: edge?.target ?? "",
+        amount: edge?.amount ?? "",
+        currency: reportingCurrency,
+        original_amount: edge?.originalAmount ?? "",
+        original_currency: edge?.originalCurrency ?? "",
+      };
+    })
+  );
+  return Papa.unparse(rows);
+}
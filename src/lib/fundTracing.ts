@@ -0,0 +1,317 @@
+import Papa from "papaparse";
+import { AllocationRule, FundTrace, GraphEdge, TraceHop, TraceOptions, TraceSource, TraceTerminal } from "./types";
+
+export const ALLOCATION_RULES: { rule: AllocationRule; label: string; description: string }[] = [
+  { rule: "fifo", label: "FIFO", description: "Money leaves in the order it arrived" },
+  { rule: "lifo", label: "LIFO", description: "The latest deposit is spent first" },
+  { rule: "proportional", label: "Proportional", description: "Every payment carries a pro-rata slice of the balance" },
+];
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+  direction: "downstream",
+  rule: "fifo",
+  max_hops: 6,
+  min_amount: 1,
+};
+
+// Most hops one trace draws; branches past it stop, and their money is reported as stopped rather than as an endpoint
+export const MAX_TRACE_HOPS = 2000;
+
+const EPSILON = 1e-9;
+
+// One account's transfers in time order, deposits before payments at the same instant
+interface Ledger {
+  events: GraphEdge[];
+  inflow: boolean[];
+  // Deposits received before each event
+  received: Float64Array;
+  // Payments made before each event, counting only what known deposits covered
+  paid: Float64Array;
+  // Part of each payment covered by the balance; the rest came from funds outside the data
+  funded: Float64Array;
+}
+
+export interface FundLedgers {
+  accounts: Map<string, Ledger>;
+  edges: Map<string, GraphEdge>;
+  // Position of each transfer in its sender's and its receiver's ledger
+  outIndex: Map<string, number>;
+  inIndex: Map<string, number>;
+}
+
+interface Piece {
+  index: number;
+  amount: number;
+}
+
+export function buildLedgers(edges: GraphEdge[]): FundLedgers {
+  const entries = new Map<string, { edge: GraphEdge; inflow: boolean }[]>();
+  const add = (account: string, edge: GraphEdge, inflow: boolean) => {
+    let list = entries.get(account);
+    if (!list) entries.set(account, (list = []));
+    list.push({ edge, inflow });
+  };
+  for (const e of edges) {
+    if (e.source === e.target) continue;
+    add(e.source, e, false);
+    add(e.target, e, true);
+  }
+
+  const accounts = new Map<string, Ledger>();
+  const outIndex = new Map<string, number>();
+  const inIndex = new Map<string, number>();
+  for (const [account, list] of entries) {
+    list.sort(
+      (a, b) =>
+        a.edge.timestamp.getTime() - b.edge.timestamp.getTime() ||
+        Number(b.inflow) - Number(a.inflow) ||
+        a.edge.transactionId.localeCompare(b.edge.transactionId)
+    );
+    const n = list.length;
+    const ledger: Ledger = {
+      events: list.map((x) => x.edge),
+      inflow: list.map((x) => x.inflow),
+      received: new Float64Array(n),
+      paid: new Float64Array(n),
+      funded: new Float64Array(n),
+    };
+    let received = 0;
+    let paid = 0;
+    list.forEach(({ edge, inflow }, i) => {
+      ledger.received[i] = received;
+      ledger.paid[i] = paid;
+      if (inflow) {
+        received += edge.amount;
+        inIndex.set(edge.transactionId, i);
+      } else {
+        ledger.funded[i] = Math.min(edge.amount, Math.max(received - paid, 0));
+        paid += ledger.funded[i];
+        outIndex.set(edge.transactionId, i);
+      }
+    });
+    accounts.set(account, ledger);
+  }
+  return { accounts, edges: new Map(edges.map((e) => [e.transactionId, e])), outIndex, inIndex };
+}
+
+function balanceBefore(ledger: Ledger, i: number): number {
+  return Math.max(ledger.received[i] - ledger.paid[i], 0);
+}
+
+// Share of the balance each payment takes under the proportional rule
+function paymentRatio(ledger: Ledger, i: number): number {
+  const balance = balanceBefore(ledger, i);
+  return balance > EPSILON ? ledger.funded[i] / balance : 0;
+}
+
+// Later payments that spent the deposit at index i, and how much of it each took
+function spendDeposit(ledger: Ledger, i: number, rule: AllocationRule): Piece[] {
+  const pieces: Piece[] = [];
+  let left = ledger.events[i].amount;
+  // Money the rule spends before this deposit: older funds for FIFO, newer deposits for LIFO
+  let first = rule === "fifo" ? balanceBefore(ledger, i) : 0;
+  for (let e = i + 1; e < ledger.events.length && left > EPSILON; e++) {
+    if (ledger.inflow[e]) {
+      if (rule === "lifo") first += ledger.events[e].amount;
+      continue;
+    }
+    let take: number;
+    if (rule === "proportional") {
+      take = left * paymentRatio(ledger, e);
+    } else {
+      const fromFirst = Math.min(first, ledger.funded[e]);
+      first -= fromFirst;
+      take = Math.min(left, ledger.funded[e] - fromFirst);
+    }
+    if (take > EPSILON) pieces.push({ index: e, amount: take });
+    left -= take;
+  }
+  return pieces;
+}
+
+// Earlier deposits that paid for the payment at index k, and how much each gave
+function fundPayment(ledger: Ledger, k: number, rule: AllocationRule): Piece[] {
+  const pieces: Piece[] = [];
+  if (rule === "fifo") {
+    // The balance is a queue of deposits; this payment drew the slice just after everything paid before it
+    const start = ledger.paid[k];
+    const end = start + ledger.funded[k];
+    for (let j = k - 1; j >= 0; j--) {
+      if (!ledger.inflow[j]) continue;
+      const lo = ledger.received[j];
+      const hi = lo + ledger.events[j].amount;
+      if (hi <= start) break;
+      const overlap = Math.min(hi, end) - Math.max(lo, start);
+      if (overlap > EPSILON) pieces.push({ index: j, amount: overlap });
+    }
+  } else if (rule === "lifo") {
+    const stack: Piece[] = [];
+    const draw = (amount: number, record: boolean) => {
+      while (amount > EPSILON && stack.length > 0) {
+        const top = stack[stack.length - 1];
+        const take = Math.min(top.amount, amount);
+        if (record) pieces.push({ index: top.index, amount: take });
+        top.amount -= take;
+        amount -= take;
+        if (top.amount <= EPSILON) stack.pop();
+      }
+    };
+    for (let e = 0; e < k; e++) {
+      if (ledger.inflow[e]) stack.push({ index: e, amount: ledger.events[e].amount });
+      else draw(ledger.funded[e], false);
+    }
+    draw(ledger.funded[k], true);
+  } else {
+    // Each deposit shrank by every payment's ratio since it arrived
+    let factor = paymentRatio(ledger, k);
+    for (let j = k - 1; j >= 0 && factor > EPSILON; j--) {
+      if (ledger.inflow[j]) {
+        const amount = ledger.events[j].amount * factor;
+        if (amount > EPSILON) pieces.push({ index: j, amount });
+      } else {
+        factor *= 1 - paymentRatio(ledger, j);
+      }
+    }
+  }
+  return pieces;
+}
+
+function createHop(edge: GraphEdge, traced: number, options: TraceOptions, depth: number): TraceHop {
+  return {
+    transaction_id: edge.transactionId,
+    sender_id: edge.source,
+    receiver_id: edge.target,
+    timestamp: edge.timestamp.toISOString(),
+    transfer_amount: edge.amount,
+    traced_amount: traced,
+    account_id: options.direction === "downstream" ? edge.target : edge.source,
+    depth,
+    retained: traced,
+    children: [],
+  };
+}
+
+// Follow money from a transfer or an account: downstream to where it went, upstream to where it came from.
+// Returns null when the source is not in the data.
+export function traceFunds(ledgers: FundLedgers, source: TraceSource, options: TraceOptions): FundTrace | null {
+  const downstream = options.direction === "downstream";
+  let start: GraphEdge[];
+  let origin: string;
+  if (source.kind === "transaction") {
+    const edge = ledgers.edges.get(source.id);
+    if (!edge || edge.source === edge.target) return null;
+    start = [edge];
+    origin = downstream ? edge.source : edge.target;
+  } else {
+    const ledger = ledgers.accounts.get(source.id);
+    if (!ledger) return null;
+    start = ledger.events.filter((_, i) => ledger.inflow[i] !== downstream);
+    origin = source.id;
+  }
+
+  let hopCount = 0;
+  let untraced = 0;
+  const retained = new Map<string, number>();
+  const stopped = new Map<string, TraceTerminal>();
+
+  const makeHops = (edges: { edge: GraphEdge; traced: number }[], depth: number): TraceHop[] => {
+    const hops: TraceHop[] = [];
+    for (const { edge, traced } of edges) {
+      if (traced < options.min_amount) {
+        untraced += traced;
+        continue;
+      }
+      hopCount++;
+      hops.push(createHop(edge, traced, options, depth));
+    }
+    return hops;
+  };
+
+  const follow = (hop: TraceHop, path: Set<string>) => {
+    const account = hop.account_id;
+    if (path.has(account)) hop.stop = "cycle";
+    else if (hop.depth >= options.max_hops) hop.stop = "max_hops";
+    else if (hopCount >= MAX_TRACE_HOPS) hop.stop = "node_limit";
+    if (hop.stop) {
+      hop.retained = 0;
+      const key = `${hop.stop}|${account}`;
+      const entry = stopped.get(key);
+      if (entry) entry.amount += hop.traced_amount;
+      else stopped.set(key, { account_id: account, amount: hop.traced_amount, share: 0, stop: hop.stop });
+      return;
+    }
+    const ledger = ledgers.accounts.get(account);
+    const index = downstream ? ledgers.inIndex.get(hop.transaction_id) : ledgers.outIndex.get(hop.transaction_id);
+    const pieces = downstream ? spendDeposit(ledger, index, options.rule) : fundPayment(ledger, index, options.rule);
+    // Pieces are in units of the whole transfer; the traced share scales them down
+    const scale = hop.traced_amount / hop.transfer_amount;
+    const next = pieces.map((p) => ({ edge: ledger.events[p.index], traced: p.amount * scale }));
+    hop.retained -= next.reduce((sum, n) => sum + n.traced, 0);
+    hop.children = makeHops(next, hop.depth + 1).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    path.add(account);
+    for (const child of hop.children) follow(child, path);
+    path.delete(account);
+    if (hop.retained < EPSILON) hop.retained = 0;
+    else retained.set(account, (retained.get(account) ?? 0) + hop.retained);
+  };
+
+  const total = start.reduce((sum, e) => sum + e.amount, 0);
+  const hops = makeHops(
+    start.map((edge) => ({ edge, traced: edge.amount })),
+    1
+  );
+  for (const hop of hops) follow(hop, new Set([origin]));
+
+  const byAmount = (a: TraceTerminal, b: TraceTerminal) => b.amount - a.amount || a.account_id.localeCompare(b.account_id);
+  const terminals: TraceTerminal[] = Array.from(retained, ([account_id, amount]) => ({
+    account_id,
+    amount,
+    share: total > 0 ? amount / total : 0,
+  })).sort(byAmount);
+  const stops = Array.from(stopped.values(), (t) => ({ ...t, share: total > 0 ? t.amount / total : 0 })).sort(byAmount);
+
+  return { source, options, total, hops, terminals, stopped: stops, untraced, hop_count: hopCount };
+}
+
+// Hops in tree order, each with the transfer it branched from
+export function flattenTrace(trace: FundTrace): { hop: TraceHop; parent: TraceHop | null }[] {
+  const rows: { hop: TraceHop; parent: TraceHop | null }[] = [];
+  const walk = (hop: TraceHop, parent: TraceHop | null) => {
+    rows.push({ hop, parent });
+    for (const child of hop.children) walk(child, hop);
+  };
+  for (const hop of trace.hops) walk(hop, null);
+  return rows;
+}
+
+// One row per hop of the tracing tree, in tree order
+export function buildTraceCSV(trace: FundTrace, reportingCurrency: string): string {
+  const rows = flattenTrace(trace).map(({ hop, parent }) => ({
+    depth: hop.depth,
+    parent_transaction_id: parent?.transaction_id ?? "",
+    transaction_id: hop.transaction_id,
+    timestamp: hop.timestamp,
+    sender_id: hop.sender_id,
+    receiver_id: hop.receiver_id,
+    transfer_amount: hop.transfer_amount.toFixed(2),
+    traced_amount: hop.traced_amount.toFixed(2),
+    share_of_source: trace.total > 0 ? (hop.traced_amount / trace.total).toFixed(4) : "",
+    account_id: hop.account_id,
+    retained: hop.retained.toFixed(2),
+    stop: hop.stop ?? "",
+    currency: reportingCurrency,
+  }));
+  return Papa.unparse(rows);
+}
+
+// Where the money came to rest, then where tracing stopped following it (with the reason in `stop`)
+export function buildTerminalsCSV(trace: FundTrace, reportingCurrency: string): string {
+  const rows = [...trace.terminals, ...trace.stopped].map((t) => ({
+    account_id: t.account_id,
+    amount: t.amount.toFixed(2),
+    share_of_source: t.share.toFixed(4),
+    stop: t.stop ?? "",
+    currency: reportingCurrency,
+  }));
+  return Papa.unparse(rows);
+}
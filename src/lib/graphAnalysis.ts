@@ -1,4 +1,41 @@
-import { Transaction, AnalysisResult, FraudRing, SuspiciousAccount, GraphNode, GraphEdge } from "./types";
+import {
+  Transaction,
+  AnalysisResult,
+  DetectionConfig,
+  EntitySettings,
+  AccountProfile,
+  AnalysisProgress,
+  FraudRing,
+  SuspiciousAccount,
+  ScoreContribution,
+  PatternEvidence,
+  GraphNode,
+  GraphEdge,
+  GraphEdgeRows,
+  TransactionStore,
+} from "./types";
+import { DEFAULT_REPORTING_CURRENCY, formatCurrency } from "./currency";
+import {
+  DetectorContext,
+  ProgressReporter,
+  findDetectorForPattern,
+  getDetectors,
+  getPatternWeights,
+  mergeEvidence,
+  pairKey,
+} from "./detectors";
+import { DEFAULT_SCORE_FLOOR, resolveDetectionConfig } from "./detectionConfig";
+import { buildEntityIndex, projectToEntities } from "./entityResolution";
+import { buildProfileIndex } from "./accountProfiles";
+
+// Pseudo-stages bracketing the detectors in progress reports
+const GRAPH_STAGE = { id: "graph", label: "Graph build" };
+const SCORING_STAGE = { id: "scoring", label: "Scoring" };
+
+// Stages in run order: graph build, one per registered detector, then scoring
+export function getAnalysisStages(): { id: string; label: string }[] {
+  return [GRAPH_STAGE, ...getDetectors().map((d) => ({ id: d.id, label: d.label })), SCORING_STAGE];
+}
 
 // Build adjacency list from transactions
 function buildAdjacencyList(transactions: Transaction[]): Map<string, string[]> {
@@ -12,348 +49,173 @@ function buildAdjacencyList(transactions: Transaction[]): Map<string, string[]>
   return adj;
 }
 
-// Detect cycles of length 3-5 using DFS with early pruning
-function detectCycles(adj: Map<string, string[]>, maxLength: number = 5): string[][] {
-  const cycles: string[][] = [];
-  const seen = new Set<string>();
-  const nodes = Array.from(adj.keys());
-
-  for (const start of nodes) {
-    const stack: { node: string; path: string[] }[] = [{ node: start, path: [start] }];
-    while (stack.length > 0) {
-      const { node, path } = stack.pop()!;
-      const neighbors = adj.get(node) || [];
-      for (const next of neighbors) {
-        if (next === start && path.length >= 3 && path.length <= maxLength) {
-          const sorted = [...path].sort().join(",");
-          if (!seen.has(sorted)) {
-            seen.add(sorted);
-            cycles.push([...path]);
-          }
-        } else if (!path.includes(next) && path.length < maxLength) {
-          stack.push({ node: next, path: [...path, next] });
-        }
-      }
-    }
-  }
-  return cycles;
-}
-
-// Detect smurfing: fan-in/fan-out within 72h windows
-function detectSmurfing(transactions: Transaction[]): Map<string, string[]> {
-  const suspicious = new Map<string, string[]>();
-  const WINDOW_MS = 72 * 60 * 60 * 1000;
-  const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-  // Fan-in: many senders → one receiver
-  const receiverMap = new Map<string, Transaction[]>();
-  for (const t of sorted) {
-    if (!receiverMap.has(t.receiver_id)) receiverMap.set(t.receiver_id, []);
-    receiverMap.get(t.receiver_id)!.push(t);
-  }
-
-  for (const [receiver, txs] of receiverMap) {
-    for (let i = 0; i < txs.length; i++) {
-      const windowStart = txs[i].timestamp.getTime();
-      const window = txs.filter(
-        (t) => t.timestamp.getTime() >= windowStart &&
-               t.timestamp.getTime() <= windowStart + WINDOW_MS
-      );
-      const uniqueSenders = new Set(window.map((t) => t.sender_id));
-      if (uniqueSenders.size >= 3) {
-        const patterns = suspicious.get(receiver) || [];
-        if (!patterns.includes("fan_in")) patterns.push("fan_in");
-        suspicious.set(receiver, patterns);
-        for (const s of uniqueSenders) {
-          const sp = suspicious.get(s) || [];
-          if (!sp.includes("smurfing_source")) sp.push("smurfing_source");
-          suspicious.set(s, sp);
-        }
-      }
-    }
-  }
-
-  // Fan-out: one sender → many receivers
-  const senderMap = new Map<string, Transaction[]>();
-  for (const t of sorted) {
-    if (!senderMap.has(t.sender_id)) senderMap.set(t.sender_id, []);
-    senderMap.get(t.sender_id)!.push(t);
-  }
-
-  for (const [sender, txs] of senderMap) {
-    for (let i = 0; i < txs.length; i++) {
-      const windowStart = txs[i].timestamp.getTime();
-      const window = txs.filter(
-        (t) => t.timestamp.getTime() >= windowStart &&
-               t.timestamp.getTime() <= windowStart + WINDOW_MS
-      );
-      const uniqueReceivers = new Set(window.map((t) => t.receiver_id));
-      if (uniqueReceivers.size >= 3) {
-        const patterns = suspicious.get(sender) || [];
-        if (!patterns.includes("fan_out")) patterns.push("fan_out");
-        suspicious.set(sender, patterns);
-      }
-    }
-  }
-
-  return suspicious;
-}
-
-// Detect layered shell networks: chains of 3+ hops with low-activity intermediaries
-function detectLayeredShells(
-  adj: Map<string, string[]>,
-  transactionCounts: Map<string, number>
-): string[][] {
-  const chains: string[][] = [];
-  const seen = new Set<string>();
-  const nodes = Array.from(adj.keys());
-
-  for (const start of nodes) {
-    const stack: { node: string; path: string[] }[] = [{ node: start, path: [start] }];
-    while (stack.length > 0) {
-      const { node, path } = stack.pop()!;
-      if (path.length >= 4) {
-        const intermediaries = path.slice(1, -1);
-        const allLowActivity = intermediaries.every(
-          (n) => (transactionCounts.get(n) || 0) <= 3
-        );
-        if (allLowActivity) {
-          const key = path.join(",");
-          if (!seen.has(key)) {
-            seen.add(key);
-            chains.push([...path]);
-          }
-        }
-      }
-      if (path.length < 6) {
-        const neighbors = adj.get(node) || [];
-        for (const next of neighbors) {
-          if (!path.includes(next)) {
-            stack.push({ node: next, path: [...path, next] });
-          }
-        }
-      }
-    }
-  }
-  return chains;
-}
-
-// NEW: Detect high-velocity transactions (rapid-fire sends/receives)
-function detectHighVelocity(transactions: Transaction[]): Map<string, string[]> {
-  const suspicious = new Map<string, string[]>();
-  const RAPID_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
-  const MIN_RAPID_TXS = 4;
-
-  const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-  // Group by sender
-  const senderTxs = new Map<string, Transaction[]>();
-  for (const t of sorted) {
-    if (!senderTxs.has(t.sender_id)) senderTxs.set(t.sender_id, []);
-    senderTxs.get(t.sender_id)!.push(t);
-  }
-
-  for (const [sender, txs] of senderTxs) {
-    for (let i = 0; i < txs.length; i++) {
-      const windowStart = txs[i].timestamp.getTime();
-      const rapid = txs.filter(
-        (t) => t.timestamp.getTime() >= windowStart &&
-               t.timestamp.getTime() <= windowStart + RAPID_WINDOW_MS
-      );
-      if (rapid.length >= MIN_RAPID_TXS) {
-        const pats = suspicious.get(sender) || [];
-        if (!pats.includes("high_velocity")) pats.push("high_velocity");
-        suspicious.set(sender, pats);
-        break;
-      }
-    }
-  }
-
-  return suspicious;
-}
-
-// NEW: Detect round-amount structuring (amounts just below reporting thresholds)
-function detectStructuring(transactions: Transaction[]): Map<string, string[]> {
-  const suspicious = new Map<string, string[]>();
-  const THRESHOLDS = [10000, 5000, 3000]; // Common reporting thresholds
-  const MARGIN = 500; // Within $500 below threshold
-
-  const senderTxs = new Map<string, Transaction[]>();
-  for (const t of transactions) {
-    if (!senderTxs.has(t.sender_id)) senderTxs.set(t.sender_id, []);
-    senderTxs.get(t.sender_id)!.push(t);
-  }
-
-  for (const [sender, txs] of senderTxs) {
-    let structuringCount = 0;
-    for (const t of txs) {
-      for (const threshold of THRESHOLDS) {
-        if (t.amount >= threshold - MARGIN && t.amount < threshold) {
-          structuringCount++;
-        }
-      }
-    }
-    // If 3+ transactions are just below thresholds, flag
-    if (structuringCount >= 3) {
-      const pats = suspicious.get(sender) || [];
-      if (!pats.includes("structuring")) pats.push("structuring");
-      suspicious.set(sender, pats);
-    }
-  }
-
-  return suspicious;
-}
-
-// NEW: Detect round-trip flows (A→B→A patterns with similar amounts)
-function detectRoundTrips(transactions: Transaction[]): Map<string, string[]> {
-  const suspicious = new Map<string, string[]>();
-  const TOLERANCE = 0.15; // 15% amount tolerance
-  const WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
-
-  // Build pair map
-  const pairMap = new Map<string, Transaction[]>();
-  for (const t of transactions) {
-    const key = `${t.sender_id}->${t.receiver_id}`;
-    if (!pairMap.has(key)) pairMap.set(key, []);
-    pairMap.get(key)!.push(t);
-  }
-
-  for (const [key, txs] of pairMap) {
-    const [a, b] = key.split("->");
-    const reverseKey = `${b}->${a}`;
-    const reverseTxs = pairMap.get(reverseKey);
-    if (!reverseTxs) continue;
-
-    for (const t1 of txs) {
-      for (const t2 of reverseTxs) {
-        const timeDiff = Math.abs(t1.timestamp.getTime() - t2.timestamp.getTime());
-        const amountRatio = Math.min(t1.amount, t2.amount) / Math.max(t1.amount, t2.amount);
-        if (timeDiff <= WINDOW_MS && amountRatio >= 1 - TOLERANCE) {
-          for (const acc of [a, b]) {
-            const pats = suspicious.get(acc) || [];
-            if (!pats.includes("round_trip")) pats.push("round_trip");
-            suspicious.set(acc, pats);
-          }
-        }
-      }
-    }
-  }
-
-  return suspicious;
-}
-
-// NEW: Detect dormant account activation (accounts with sudden activity bursts)
-function detectDormantActivation(transactions: Transaction[]): Map<string, string[]> {
-  const suspicious = new Map<string, string[]>();
-  const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  
-  if (sorted.length === 0) return suspicious;
-
-  const totalSpan = sorted[sorted.length - 1].timestamp.getTime() - sorted[0].timestamp.getTime();
-  if (totalSpan < 7 * 24 * 60 * 60 * 1000) return suspicious; // Need at least 7 days of data
-
-  const accountTxs = new Map<string, Transaction[]>();
-  for (const t of sorted) {
-    for (const id of [t.sender_id, t.receiver_id]) {
-      if (!accountTxs.has(id)) accountTxs.set(id, []);
-      accountTxs.get(id)!.push(t);
-    }
-  }
-
-  const BURST_WINDOW = 48 * 60 * 60 * 1000; // 48 hours
-
-  for (const [acc, txs] of accountTxs) {
-    if (txs.length < 4) continue;
-    const accSorted = txs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-    const accSpan = accSorted[accSorted.length - 1].timestamp.getTime() - accSorted[0].timestamp.getTime();
-    
-    // Check if most transactions happen in a short burst relative to account's timeline
-    for (let i = 0; i < accSorted.length; i++) {
-      const burstTxs = accSorted.filter(
-        (t) => t.timestamp.getTime() >= accSorted[i].timestamp.getTime() &&
-               t.timestamp.getTime() <= accSorted[i].timestamp.getTime() + BURST_WINDOW
-      );
-      if (burstTxs.length >= Math.ceil(accSorted.length * 0.7) && accSpan > BURST_WINDOW * 3) {
-        const pats = suspicious.get(acc) || [];
-        if (!pats.includes("dormant_activation")) pats.push("dormant_activation");
-        suspicious.set(acc, pats);
-        break;
-      }
-    }
-  }
-
-  return suspicious;
+// Display names for the score factors that are not detector patterns
+export const SCORE_FACTOR_LABELS: Record<string, string> = {
+  multi_pattern_bonus: "Multi-pattern bonus",
+  ring_bonus: "Ring membership",
+  pass_through_bonus: "Pass-through flow",
+  new_account_throughput: "New account throughput",
+  income_mismatch: "Flow above declared income",
+  high_risk_rating: "High KYC risk rating",
+  merchant_discount: "Merchant discount",
+  payroll_discount: "Payroll discount",
+  score_cap: "Score cap",
+};
+
+// Profile-based scoring: what counts as "new", "high throughput" and "far above income"
+const NEW_ACCOUNT_DAYS = 30;
+const NEW_ACCOUNT_THROUGHPUT = 10000;
+const INCOME_MULTIPLE = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Customer master attributes plus the flow figures they are compared against
+interface ProfileSignals {
+  profile: AccountProfile;
+  // Sent plus received within NEW_ACCOUNT_DAYS of opening
+  earlyThroughput: number;
+  // Inflows scaled to a year over the dataset's time span
+  annualInflow: number;
+  currency: string;
 }
 
 // Calculate suspicion score for an account - ENHANCED
+// Returns every step that moved the score so the total can be explained
 function calcSuspicionScore(
-  accountId: string,
   patterns: string[],
-  ringCount: number,
+  patternWeights: Map<string, number>,
+  ringIds: string[],
   txCount: number,
   totalSent: number,
-  totalReceived: number
-): number {
+  totalReceived: number,
+  signals?: ProfileSignals
+): ScoreContribution[] {
+  const contributions: ScoreContribution[] = [];
   let score = 0;
-  
-  // Pattern-based scoring (refined weights)
-  if (patterns.includes("cycle_length_3")) score += 30;
-  if (patterns.includes("cycle_length_4")) score += 25;
-  if (patterns.includes("cycle_length_5")) score += 20;
-  if (patterns.includes("fan_in")) score += 20;
-  if (patterns.includes("fan_out")) score += 20;
-  if (patterns.includes("smurfing_source")) score += 10;
-  if (patterns.includes("layered_shell")) score += 25;
-  if (patterns.includes("low_activity_intermediary")) score += 15;
-  
-  // New pattern scores
-  if (patterns.includes("high_velocity")) score += 18;
-  if (patterns.includes("structuring")) score += 22;
-  if (patterns.includes("round_trip")) score += 20;
-  if (patterns.includes("dormant_activation")) score += 15;
+  const add = (factor: string, points: number, evidence: string) => {
+    if (points === 0) return;
+    contributions.push({ factor, points, evidence });
+    score += points;
+  };
+
+  // Pattern-based scoring: each detector declares the weight of the patterns it emits
+  for (const p of patterns) {
+    const detector = findDetectorForPattern(p);
+    add(p, patternWeights.get(p) || 0, detector ? `Flagged by ${detector.label}` : "Flagged by a detector");
+  }
 
   // Multi-pattern bonus: accounts with diverse fraud signals are more suspicious
   const patternCount = patterns.length;
-  if (patternCount >= 3) score += 10;
-  if (patternCount >= 5) score += 10;
+  if (patternCount >= 3) {
+    add("multi_pattern_bonus", patternCount >= 5 ? 20 : 10, `${patternCount} distinct patterns`);
+  }
 
   // Multi-ring involvement
-  score += Math.min(ringCount * 5, 15);
+  add("ring_bonus", Math.min(ringIds.length * 5, 15), `Member of ${ringIds.join(", ")}`);
 
   // Flow asymmetry bonus (money mules receive and forward, creating imbalance)
   if (totalSent > 0 && totalReceived > 0) {
     const flowRatio = Math.min(totalSent, totalReceived) / Math.max(totalSent, totalReceived);
     // Pass-through accounts (receive and forward similar amounts) are suspicious
     if (flowRatio > 0.6 && flowRatio < 0.95 && txCount >= 3) {
-      score += 8;
+      add("pass_through_bonus", 8, `Sent/received ratio ${flowRatio.toFixed(2)} over ${txCount} transactions`);
+    }
+  }
+
+  if (signals) {
+    const { profile, earlyThroughput, annualInflow, currency } = signals;
+    // Fresh accounts moving large sums are a classic mule signature
+    if (profile.opened_at && earlyThroughput >= NEW_ACCOUNT_THROUGHPUT) {
+      add(
+        "new_account_throughput",
+        10,
+        `Opened ${profile.opened_at}, moved ${formatCurrency(earlyThroughput, currency)} in its first ${NEW_ACCOUNT_DAYS} days`
+      );
+    }
+    if (profile.declared_income && annualInflow >= profile.declared_income * INCOME_MULTIPLE) {
+      const multiple = annualInflow / profile.declared_income;
+      add(
+        "income_mismatch",
+        multiple >= 10 ? 15 : 10,
+        `Inflows of ${formatCurrency(annualInflow, currency)}/yr are ${multiple.toFixed(1)}× declared income of ${formatCurrency(profile.declared_income, currency)}`
+      );
+    }
+    if (profile.risk_rating === "high") {
+      add("high_risk_rating", 5, `Rated high risk at onboarding${profile.country ? ` (${profile.country})` : ""}`);
     }
   }
 
   // High-volume merchant filter (reduce score if high tx count with balanced flow)
   if (txCount > 20) {
     const ratio = Math.min(totalSent, totalReceived) / Math.max(totalSent, totalReceived, 1);
-    if (ratio > 0.3) score = Math.max(score - 15, 0); // Likely merchant
+    if (ratio > 0.3) {
+      // Likely merchant
+      add("merchant_discount", -Math.min(15, score), `${txCount} transactions with balanced flow (ratio ${ratio.toFixed(2)})`);
+    }
   }
 
   // Payroll filter: consistent outbound-only with many receivers
   if (totalReceived === 0 && txCount > 10) {
-    score = Math.max(score - 20, 0);
+    add("payroll_discount", -Math.min(20, score), `Outbound only across ${txCount} transactions`);
   }
 
-  return Math.min(score, 100);
+  if (score > 100) add("score_cap", 100 - score, "Scores are capped at 100");
+
+  return contributions;
+}
+
+// Build a reporter for one stage that only emits when the whole percentage changes
+function stageReporter(
+  stage: string,
+  onProgress?: (progress: AnalysisProgress) => void
+): ProgressReporter & { done: () => void } {
+  let lastPct = -1;
+  const reporter = ((fraction: number) => {
+    const pct = Math.floor(fraction * 100);
+    if (!onProgress || pct === lastPct) return;
+    lastPct = pct;
+    onProgress({ stage, percent: pct, done: false });
+  }) as ProgressReporter & { done: () => void };
+  reporter.done = () => onProgress?.({ stage, percent: 100, done: true });
+  return reporter;
+}
+
+export interface AnalyzeOptions {
+  // Currency all transaction amounts have already been normalised to
+  reportingCurrency?: string;
+  // Detector parameters; anything missing falls back to the registry defaults
+  config?: DetectionConfig;
+  // At entity level, accounts merged by entity resolution are analysed as one node
+  entitySettings?: EntitySettings;
+  // Customer master attributes used by the profile score factors
+  profiles?: AccountProfile[];
+  onProgress?: (progress: AnalysisProgress) => void;
 }
 
 // Main analysis function
-export function analyzeTransactions(transactions: Transaction[]): AnalysisResult {
+export function analyzeTransactions(
+  accountTransactions: Transaction[],
+  options: AnalyzeOptions = {}
+): AnalysisResult {
+  const { reportingCurrency = DEFAULT_REPORTING_CURRENCY, entitySettings, profiles = [], onProgress } = options;
+  const config = resolveDetectionConfig(options.config);
+  const level = entitySettings?.level === "entity" && entitySettings.resolution ? "entity" : "account";
+  const entities = level === "entity" ? entitySettings!.resolution!.entities : [];
   const startTime = performance.now();
 
+  const graphStage = stageReporter(GRAPH_STAGE.id, onProgress);
+  graphStage(0);
+  const { transactions } = projectToEntities(accountTransactions, entities);
   const adj = buildAdjacencyList(transactions);
   const allAccounts = new Set<string>();
   const txCounts = new Map<string, number>();
   const sentAmounts = new Map<string, number>();
   const recvAmounts = new Map<string, number>();
+  const pairTransactions = new Map<string, Transaction[]>();
 
   for (const t of transactions) {
+    const key = pairKey(t.sender_id, t.receiver_id);
+    if (!pairTransactions.has(key)) pairTransactions.set(key, []);
+    pairTransactions.get(key)!.push(t);
     allAccounts.add(t.sender_id);
     allAccounts.add(t.receiver_id);
     txCounts.set(t.sender_id, (txCounts.get(t.sender_id) || 0) + 1);
@@ -362,129 +224,71 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
     recvAmounts.set(t.receiver_id, (recvAmounts.get(t.receiver_id) || 0) + t.amount);
   }
 
+  // Flow figures the profile factors compare against
+  const profileIndex = buildProfileIndex(profiles, entities);
+  const earlyThroughput = new Map<string, number>();
+  let firstTime = Infinity;
+  let lastTime = -Infinity;
+  if (profileIndex.size > 0) {
+    for (const t of transactions) {
+      const time = t.timestamp.getTime();
+      firstTime = Math.min(firstTime, time);
+      lastTime = Math.max(lastTime, time);
+      for (const id of [t.sender_id, t.receiver_id]) {
+        const opened = profileIndex.get(id)?.opened_at;
+        if (!opened) continue;
+        const age = time - new Date(opened).getTime();
+        if (age >= 0 && age <= NEW_ACCOUNT_DAYS * DAY_MS) {
+          earlyThroughput.set(id, (earlyThroughput.get(id) || 0) + t.amount);
+        }
+      }
+    }
+  }
+  // Short datasets are treated as a month so a single burst does not annualise absurdly
+  const spanDays = Math.max((lastTime - firstTime) / DAY_MS, NEW_ACCOUNT_DAYS);
+  graphStage.done();
+
   const fraudRings: FraudRing[] = [];
   const accountRings = new Map<string, string[]>();
-  const accountPatterns = new Map<string, string[]>();
+  const accountPatterns = new Map<string, PatternEvidence[]>();
   let ringCounter = 0;
-
-  // 1. Cycle detection
-  const cycles = detectCycles(adj);
-  for (const cycle of cycles) {
-    ringCounter++;
-    const ringId = `RING_${String(ringCounter).padStart(3, "0")}`;
-    const patternName = `cycle_length_${cycle.length}`;
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: cycle,
-      pattern_type: "cycle",
-      risk_score: Math.min(70 + cycle.length * 5, 100),
-    });
-    for (const acc of cycle) {
-      const rings = accountRings.get(acc) || [];
-      rings.push(ringId);
-      accountRings.set(acc, rings);
-      const pats = accountPatterns.get(acc) || [];
-      if (!pats.includes(patternName)) pats.push(patternName);
-      accountPatterns.set(acc, pats);
+  const truncatedDetectors: string[] = [];
+
+  const ctx: DetectorContext = { transactions, adj, txCounts, sentAmounts, recvAmounts, pairTransactions };
+
+  for (const detector of getDetectors()) {
+    const stage = stageReporter(detector.id, onProgress);
+    const output = detector.run(ctx, config.detectors[detector.id], stage);
+    stage.done();
+    if (output.truncated) truncatedDetectors.push(detector.id);
+
+    for (const ring of output.rings) {
+      ringCounter++;
+      const ringId = `RING_${String(ringCounter).padStart(3, "0")}`;
+      fraudRings.push({ ring_id: ringId, ...ring });
+      for (const acc of ring.member_accounts) {
+        const rings = accountRings.get(acc) || [];
+        rings.push(ringId);
+        accountRings.set(acc, rings);
+      }
     }
-  }
-
-  // 2. Smurfing detection
-  const smurfingResults = detectSmurfing(transactions);
-  const smurfingAccounts = Array.from(smurfingResults.keys());
-  if (smurfingAccounts.length >= 2) {
-    ringCounter++;
-    const ringId = `RING_${String(ringCounter).padStart(3, "0")}`;
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: smurfingAccounts,
-      pattern_type: "smurfing",
-      risk_score: 80,
-    });
-    for (const [acc, pats] of smurfingResults) {
-      const rings = accountRings.get(acc) || [];
-      rings.push(ringId);
-      accountRings.set(acc, rings);
+    for (const [acc, hits] of output.accountPatterns) {
       const existing = accountPatterns.get(acc) || [];
-      for (const p of pats) {
-        if (!existing.includes(p)) existing.push(p);
+      for (const hit of hits) {
+        const idx = existing.findIndex((e) => e.pattern === hit.pattern);
+        if (idx === -1) existing.push(hit);
+        else existing[idx] = { pattern: hit.pattern, ...mergeEvidence([existing[idx], hit]) };
       }
       accountPatterns.set(acc, existing);
     }
   }
 
-  // 3. Layered shell detection
-  const shells = detectLayeredShells(adj, txCounts);
-  for (const chain of shells) {
-    ringCounter++;
-    const ringId = `RING_${String(ringCounter).padStart(3, "0")}`;
-    fraudRings.push({
-      ring_id: ringId,
-      member_accounts: chain,
-      pattern_type: "layered_shell",
-      risk_score: Math.min(75 + chain.length * 3, 100),
-    });
-    for (const acc of chain) {
-      const rings = accountRings.get(acc) || [];
-      rings.push(ringId);
-      accountRings.set(acc, rings);
-      const pats = accountPatterns.get(acc) || [];
-      if (!pats.includes("layered_shell")) pats.push("layered_shell");
-      const count = txCounts.get(acc) || 0;
-      if (count <= 3 && chain.indexOf(acc) > 0 && chain.indexOf(acc) < chain.length - 1) {
-        if (!pats.includes("low_activity_intermediary")) pats.push("low_activity_intermediary");
-      }
-      accountPatterns.set(acc, pats);
-    }
-  }
-
-  // 4. NEW: High-velocity detection
-  const velocityResults = detectHighVelocity(transactions);
-  for (const [acc, pats] of velocityResults) {
-    const existing = accountPatterns.get(acc) || [];
-    for (const p of pats) {
-      if (!existing.includes(p)) existing.push(p);
-    }
-    accountPatterns.set(acc, existing);
-  }
-
-  // 5. NEW: Structuring detection
-  const structuringResults = detectStructuring(transactions);
-  for (const [acc, pats] of structuringResults) {
-    const existing = accountPatterns.get(acc) || [];
-    for (const p of pats) {
-      if (!existing.includes(p)) existing.push(p);
-    }
-    accountPatterns.set(acc, existing);
-  }
-
-  // 6. NEW: Round-trip detection
-  const roundTripResults = detectRoundTrips(transactions);
-  for (const [acc, pats] of roundTripResults) {
-    const existing = accountPatterns.get(acc) || [];
-    for (const p of pats) {
-      if (!existing.includes(p)) existing.push(p);
-    }
-    accountPatterns.set(acc, existing);
-    // Also track in rings
-    if (!accountRings.has(acc)) accountRings.set(acc, []);
-  }
-
-  // 7. NEW: Dormant activation detection
-  const dormantResults = detectDormantActivation(transactions);
-  for (const [acc, pats] of dormantResults) {
-    const existing = accountPatterns.get(acc) || [];
-    for (const p of pats) {
-      if (!existing.includes(p)) existing.push(p);
-    }
-    accountPatterns.set(acc, existing);
-    if (!accountRings.has(acc)) accountRings.set(acc, []);
-  }
-
   // Build suspicious accounts list
+  const scoringStage = stageReporter(SCORING_STAGE.id, onProgress);
   const suspiciousAccounts: SuspiciousAccount[] = [];
-  
-  // Include accounts from rings AND accounts flagged by new detectors
+  const patternWeights = getPatternWeights();
+
+  // Include accounts from rings AND accounts flagged by ring-less detectors
   const allFlaggedAccounts = new Set([
     ...accountRings.keys(),
     ...accountPatterns.keys(),
@@ -492,85 +296,56 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
 
   for (const acc of allFlaggedAccounts) {
     const rings = accountRings.get(acc) || [];
-    const patterns = accountPatterns.get(acc) || [];
+    const evidence = accountPatterns.get(acc) || [];
+    const patterns = evidence.map((e) => e.pattern);
     if (patterns.length === 0) continue;
     
-    const score = calcSuspicionScore(
-      acc,
+    const profile = profileIndex.get(acc);
+    const contributions = calcSuspicionScore(
       patterns,
-      rings.length,
+      patternWeights,
+      rings,
       txCounts.get(acc) || 0,
       sentAmounts.get(acc) || 0,
-      recvAmounts.get(acc) || 0
+      recvAmounts.get(acc) || 0,
+      profile && {
+        profile,
+        earlyThroughput: earlyThroughput.get(acc) || 0,
+        annualInflow: ((recvAmounts.get(acc) || 0) * 365) / spanDays,
+        currency: reportingCurrency,
+      }
     );
-    if (score >= 15) {
+    const score = contributions.reduce((sum, c) => sum + c.points, 0);
+    if (score >= (config.score_floor ?? DEFAULT_SCORE_FLOOR)) {
       suspiciousAccounts.push({
         account_id: acc,
         suspicion_score: Math.round(score * 10) / 10,
         detected_patterns: patterns,
         ring_id: rings[0] || "STANDALONE",
+        score_contributions: contributions,
+        evidence,
       });
     }
   }
 
   suspiciousAccounts.sort((a, b) => b.suspicion_score - a.suspicion_score);
+  scoringStage.done();
 
   const endTime = performance.now();
 
-  // Build pattern breakdown: count unique accounts per algorithm group
-  const patternGroups = [
-    {
-      name: "cycle",
-      label: "Circular Routing",
-      patterns: ["cycle_length_3", "cycle_length_4", "cycle_length_5"],
-      color: "hsl(0, 70%, 55%)",
-    },
-    {
-      name: "smurfing",
-      label: "Smurfing",
-      patterns: ["fan_in", "fan_out", "smurfing_source"],
-      color: "hsl(30, 80%, 55%)",
-    },
-    {
-      name: "shell",
-      label: "Shell Network",
-      patterns: ["layered_shell", "low_activity_intermediary"],
-      color: "hsl(270, 60%, 60%)",
-    },
-    {
-      name: "velocity",
-      label: "High Velocity",
-      patterns: ["high_velocity"],
-      color: "hsl(200, 70%, 55%)",
-    },
-    {
-      name: "structuring",
-      label: "Structuring",
-      patterns: ["structuring"],
-      color: "hsl(45, 85%, 55%)",
-    },
-    {
-      name: "round_trip",
-      label: "Round-Trip",
-      patterns: ["round_trip"],
-      color: "hsl(160, 60%, 50%)",
-    },
-    {
-      name: "dormant",
-      label: "Dormant Burst",
-      patterns: ["dormant_activation"],
-      color: "hsl(310, 60%, 60%)",
-    },
-  ];
-
-  const pattern_breakdown = patternGroups.map((group) => {
+  // Build pattern breakdown: count unique accounts per detector
+  const pattern_breakdown = getDetectors().map((detector) => {
     const count = suspiciousAccounts.filter((sa) =>
-      sa.detected_patterns.some((p) => group.patterns.includes(p))
+      sa.detected_patterns.some((p) => p in detector.weights)
     ).length;
-    return { name: group.name, label: group.label, count, color: group.color };
+    return { name: detector.id, label: detector.label, count, color: detector.color };
   });
 
   return {
+    reporting_currency: reportingCurrency,
+    detection_config: config,
+    analysis_level: level,
+    entities,
     suspicious_accounts: suspiciousAccounts,
     fraud_rings: fraudRings,
     summary: {
@@ -579,53 +354,91 @@ export function analyzeTransactions(transactions: Transaction[]): AnalysisResult
       fraud_rings_detected: fraudRings.length,
       processing_time_seconds: Math.round((endTime - startTime) / 100) / 10,
       pattern_breakdown,
+      truncated_detectors: truncatedDetectors,
     },
   };
 }
 
-// Build graph data for visualization
+// Build graph data for visualization, reading the columnar store directly; edges stay as row indexes
+// until expandGraphEdges turns them into objects
 export function buildGraphData(
-  transactions: Transaction[],
-  result: AnalysisResult
-): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  store: TransactionStore,
+  result: AnalysisResult,
+  profiles: AccountProfile[] = []
+): { nodes: GraphNode[]; edges: GraphEdgeRows } {
   const nodeMap = new Map<string, GraphNode>();
   const suspiciousMap = new Map<string, SuspiciousAccount>();
+  // Same projection the analysis ran on, so node IDs match the result
+  // Reports saved before entity resolution have no entities list
+  const entities = result.entities ?? [];
+  const entityIndex = buildEntityIndex(entities);
+  const entityMap = new Map(entities.map((e) => [e.entity_id, e]));
+  const profileIndex = buildProfileIndex(profiles, entities);
+  // Node ID of each interned account
+  const nodeIds = store.accountIds.map((a) => entityIndex.get(a)?.entity_id ?? a);
 
   for (const sa of result.suspicious_accounts) {
     suspiciousMap.set(sa.account_id, sa);
   }
 
-  for (const t of transactions) {
-    for (const id of [t.sender_id, t.receiver_id]) {
-      if (!nodeMap.has(id)) {
-        const sa = suspiciousMap.get(id);
-        nodeMap.set(id, {
-          id,
-          totalSent: 0,
-          totalReceived: 0,
-          transactionCount: 0,
-          isSuspicious: !!sa,
-          ringIds: sa ? [sa.ring_id] : [],
-          patterns: sa?.detected_patterns || [],
-          suspicionScore: sa?.suspicion_score || 0,
-        });
-      }
+  const nodeFor = (id: string): GraphNode => {
+    let node = nodeMap.get(id);
+    if (!node) {
+      const sa = suspiciousMap.get(id);
+      node = {
+        id,
+        totalSent: 0,
+        totalReceived: 0,
+        transactionCount: 0,
+        isSuspicious: !!sa,
+        ringIds: sa ? [sa.ring_id] : [],
+        patterns: sa?.detected_patterns || [],
+        suspicionScore: sa?.suspicion_score || 0,
+        scoreContributions: sa?.score_contributions || [],
+        entity: entityMap.get(id),
+        profile: profileIndex.get(id),
+        originalTotals: {},
+      };
+      nodeMap.set(id, node);
     }
-    const sender = nodeMap.get(t.sender_id)!;
-    sender.totalSent += t.amount;
+    return node;
+  };
+
+  const rows = new Int32Array(store.length);
+  let edgeCount = 0;
+  for (let i = 0; i < store.length; i++) {
+    const source = nodeIds[store.senders[i]];
+    const target = nodeIds[store.receivers[i]];
+    // Transfers inside one entity are internal moves, as in projectToEntities
+    if (source === target) continue;
+    const amount = store.amounts[i];
+    const originalAmount = store.originalAmounts[i];
+    const currency = store.currencyCodes[store.currencies[i]];
+    const sender = nodeFor(source);
+    const receiver = nodeFor(target);
+    sender.totalSent += amount;
     sender.transactionCount++;
-    const receiver = nodeMap.get(t.receiver_id)!;
-    receiver.totalReceived += t.amount;
+    if (!sender.originalTotals[currency]) sender.originalTotals[currency] = { sent: 0, received: 0 };
+    sender.originalTotals[currency].sent += originalAmount;
+    receiver.totalReceived += amount;
     receiver.transactionCount++;
+    if (!receiver.originalTotals[currency]) receiver.originalTotals[currency] = { sent: 0, received: 0 };
+    receiver.originalTotals[currency].received += originalAmount;
+    rows[edgeCount++] = i;
   }
 
-  const edges: GraphEdge[] = transactions.map((t) => ({
-    source: t.sender_id,
-    target: t.receiver_id,
-    amount: t.amount,
-    transactionId: t.transaction_id,
-    timestamp: t.timestamp,
-  }));
+  return { nodes: Array.from(nodeMap.values()), edges: { rows: rows.slice(0, edgeCount), nodeIds } };
+}
 
-  return { nodes: Array.from(nodeMap.values()), edges };
+// One edge object per transfer, read from the same store the rows were built on
+export function expandGraphEdges(store: TransactionStore, { rows, nodeIds }: GraphEdgeRows): GraphEdge[] {
+  return Array.from(rows, (i) => ({
+    source: nodeIds[store.senders[i]],
+    target: nodeIds[store.receivers[i]],
+    amount: store.amounts[i],
+    transactionId: store.transactionIds[i],
+    timestamp: new Date(store.timestamps[i]),
+    originalAmount: store.originalAmounts[i],
+    originalCurrency: store.currencyCodes[store.currencies[i]],
+  }));
 }
@@ -0,0 +1,321 @@
+import { GraphLayout, GraphLayoutType, NodePosition } from "./types";
+import { createRandom } from "./random";
+
+export interface LayoutRequest {
+  type: GraphLayoutType;
+  seed: number;
+  nodes: string[];
+  // Directed links between nodes; parallel transfers are collapsed by the caller
+  edges: [string, string][];
+  // Ring per node for the clustered layout; nodes outside every ring are absent
+  clusters: Record<string, string>;
+}
+
+export const GRAPH_LAYOUTS: { type: GraphLayoutType; label: string; description: string }[] = [
+  { type: "force", label: "Force-directed", description: "Linked accounts pull together, everything else spreads out" },
+  { type: "hierarchical", label: "Flow (left to right)", description: "Money moves rightwards, one column per hop" },
+  { type: "clustered", label: "Clustered by ring", description: "Each ring laid out on its own, unringed accounts last" },
+];
+
+export const DEFAULT_LAYOUT_SEED = 1;
+
+export function createGraphLayout(type: GraphLayoutType = "force", seed = DEFAULT_LAYOUT_SEED): GraphLayout {
+  return { type, seed, positions: {} };
+}
+
+// Ideal distance between linked nodes
+const SPACING = 90;
+const LAYER_GAP = 200;
+const ROW_GAP = 80;
+const CLUSTER_GAP = 140;
+
+type Positions = Map<string, NodePosition>;
+
+function cellKey(x: number, y: number): number {
+  return x * 65536 + y;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+function bounds(positions: Positions) {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of positions.values()) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  if (positions.size === 0) return { minX: 0, minY: 0, width: 0, height: 0 };
+  return { minX, minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Shift so the top-left node sits at the origin
+function normalize(positions: Positions): Positions {
+  const { minX, minY } = bounds(positions);
+  const out: Positions = new Map();
+  for (const [id, p] of positions) out.set(id, { x: p.x - minX, y: p.y - minY });
+  return out;
+}
+
+// Fruchterman–Reingold. Repulsion only reaches nodes in neighbouring grid cells,
+// which keeps each iteration close to linear on large graphs.
+function forceLayout(nodes: string[], edges: [string, string][], random: () => number): Positions {
+  const n = nodes.length;
+  const positions: Positions = new Map();
+  if (n === 0) return positions;
+  if (n === 1) return new Map([[nodes[0], { x: 0, y: 0 }]]);
+
+  const side = Math.sqrt(n) * SPACING;
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    xs[i] = random() * side;
+    ys[i] = random() * side;
+  }
+  const index = new Map(nodes.map((id, i) => [id, i]));
+  const links: [number, number][] = [];
+  for (const [s, t] of edges) {
+    const a = index.get(s);
+    const b = index.get(t);
+    if (a !== undefined && b !== undefined && a !== b) links.push([a, b]);
+  }
+
+  const k = SPACING;
+  const cell = 2 * k;
+  const iterations = n > 2000 ? 50 : n > 500 ? 120 : 300;
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+  let temperature = side / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    const grid = new Map<number, number[]>();
+    for (let i = 0; i < n; i++) {
+      const key = cellKey(Math.floor(xs[i] / cell), Math.floor(ys[i] / cell));
+      const bucket = grid.get(key);
+      if (bucket) bucket.push(i);
+      else grid.set(key, [i]);
+    }
+    for (let i = 0; i < n; i++) {
+      const cx = Math.floor(xs[i] / cell);
+      const cy = Math.floor(ys[i] / cell);
+      for (let gx = cx - 1; gx <= cx + 1; gx++) {
+        for (let gy = cy - 1; gy <= cy + 1; gy++) {
+          const bucket = grid.get(cellKey(gx, gy));
+          if (!bucket) continue;
+          for (const j of bucket) {
+            if (j <= i) continue;
+            let ddx = xs[i] - xs[j];
+            let ddy = ys[i] - ys[j];
+            const d2 = ddx * ddx + ddy * ddy;
+            if (d2 > cell * cell) continue;
+            let dist = Math.sqrt(d2);
+            // Coincident nodes get pushed apart in a seeded direction
+            if (dist < 0.01) {
+              ddx = random() - 0.5;
+              ddy = random() - 0.5;
+              dist = Math.sqrt(ddx * ddx + ddy * ddy) || 0.01;
+            }
+            const force = (k * k) / dist;
+            dx[i] += (ddx / dist) * force;
+            dy[i] += (ddy / dist) * force;
+            dx[j] -= (ddx / dist) * force;
+            dy[j] -= (ddy / dist) * force;
+          }
+        }
+      }
+    }
+
+    for (const [a, b] of links) {
+      const ddx = xs[a] - xs[b];
+      const ddy = ys[a] - ys[b];
+      const dist = Math.sqrt(ddx * ddx + ddy * ddy) || 0.01;
+      const force = (dist * dist) / k;
+      dx[a] -= (ddx / dist) * force;
+      dy[a] -= (ddy / dist) * force;
+      dx[b] += (ddx / dist) * force;
+      dy[b] += (ddy / dist) * force;
+    }
+
+    // Weak gravity stops disconnected components drifting apart
+    const centre = side / 2;
+    for (let i = 0; i < n; i++) {
+      dx[i] += (centre - xs[i]) * 0.002;
+      dy[i] += (centre - ys[i]) * 0.002;
+      const len = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (len === 0) continue;
+      const step = Math.min(len, temperature);
+      xs[i] += (dx[i] / len) * step;
+      ys[i] += (dy[i] / len) * step;
+    }
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  for (let i = 0; i < n; i++) positions.set(nodes[i], { x: xs[i], y: ys[i] });
+  return normalize(positions);
+}
+
+// Longest-path layering on the graph with cycle-closing edges dropped, then a few
+// barycentre sweeps to untangle each column. The seed picks the starting order.
+function hierarchicalLayout(nodes: string[], edges: [string, string][], random: () => number): Positions {
+  const order = shuffle(nodes, random);
+  const known = new Set(nodes);
+  const out = new Map<string, string[]>(nodes.map((id) => [id, []]));
+  for (const [s, t] of edges) {
+    if (s !== t && known.has(s) && known.has(t)) out.get(s)!.push(t);
+  }
+
+  // Iterative DFS: an edge back into the current path would close a cycle, so it is skipped
+  const state = new Map<string, 1 | 2>();
+  const forward = new Map<string, string[]>(nodes.map((id) => [id, []]));
+  for (const root of order) {
+    if (state.has(root)) continue;
+    const stack: { id: string; next: number }[] = [{ id: root, next: 0 }];
+    state.set(root, 1);
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const targets = out.get(frame.id)!;
+      if (frame.next >= targets.length) {
+        state.set(frame.id, 2);
+        stack.pop();
+        continue;
+      }
+      const target = targets[frame.next++];
+      const seen = state.get(target);
+      if (seen === 1) continue;
+      forward.get(frame.id)!.push(target);
+      if (seen === undefined) {
+        state.set(target, 1);
+        stack.push({ id: target, next: 0 });
+      }
+    }
+  }
+
+  // Kahn's algorithm over the acyclic edges; each node sits one column right of its deepest parent
+  const indegree = new Map<string, number>(nodes.map((id) => [id, 0]));
+  for (const targets of forward.values()) for (const t of targets) indegree.set(t, indegree.get(t)! + 1);
+  const layer = new Map<string, number>();
+  const queue = order.filter((id) => indegree.get(id) === 0);
+  for (const id of queue) layer.set(id, 0);
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    for (const t of forward.get(id)!) {
+      layer.set(t, Math.max(layer.get(t) ?? 0, layer.get(id)! + 1));
+      indegree.set(t, indegree.get(t)! - 1);
+      if (indegree.get(t) === 0) queue.push(t);
+    }
+  }
+
+  const columns: string[][] = [];
+  for (const id of order) {
+    const l = layer.get(id) ?? 0;
+    (columns[l] ??= []).push(id);
+  }
+
+  const parents = new Map<string, string[]>(nodes.map((id) => [id, []]));
+  for (const [s, targets] of forward) for (const t of targets) parents.get(t)!.push(s);
+  const rank = new Map<string, number>();
+  const setRanks = (column: string[]) => column.forEach((id, i) => rank.set(id, i - (column.length - 1) / 2));
+  columns.forEach(setRanks);
+
+  const barycentre = (id: string, neighbours: string[]) =>
+    neighbours.length > 0 ? neighbours.reduce((sum, p) => sum + rank.get(p)!, 0) / neighbours.length : rank.get(id)!;
+  for (let sweep = 0; sweep < 4; sweep++) {
+    const downwards = sweep % 2 === 0;
+    const sequence = downwards ? columns.slice(1) : columns.slice(0, -1).reverse();
+    for (const column of sequence) {
+      const keys = new Map(
+        column.map((id) => [id, barycentre(id, downwards ? parents.get(id)! : forward.get(id)!)])
+      );
+      column.sort((a, b) => keys.get(a)! - keys.get(b)!);
+      setRanks(column);
+    }
+  }
+
+  const positions: Positions = new Map();
+  columns.forEach((column, l) => {
+    for (const id of column) positions.set(id, { x: l * LAYER_GAP, y: rank.get(id)! * ROW_GAP });
+  });
+  return normalize(positions);
+}
+
+// Each ring gets its own force layout; the blocks are then packed in rows,
+// largest first, with accounts outside every ring as the final block
+function clusteredLayout(
+  nodes: string[],
+  edges: [string, string][],
+  clusters: Record<string, string>,
+  random: () => number
+): Positions {
+  const groups = new Map<string, string[]>();
+  const loose: string[] = [];
+  for (const id of nodes) {
+    const ring = clusters[id];
+    if (ring === undefined) loose.push(id);
+    else if (groups.has(ring)) groups.get(ring)!.push(id);
+    else groups.set(ring, [id]);
+  }
+
+  const blocks = [...groups.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .map(([, members]) => members);
+  if (loose.length > 0) blocks.push(loose);
+
+  const laid = blocks.map((members) => {
+    const inside = new Set(members);
+    const positions = forceLayout(
+      members,
+      edges.filter(([s, t]) => inside.has(s) && inside.has(t)),
+      random
+    );
+    return { positions, ...bounds(positions) };
+  });
+
+  const totalArea = laid.reduce((sum, b) => sum + (b.width + CLUSTER_GAP) * (b.height + CLUSTER_GAP), 0);
+  const rowWidth = Math.max(Math.sqrt(totalArea) * 1.2, ...laid.map((b) => b.width));
+
+  const positions: Positions = new Map();
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  for (const block of laid) {
+    if (x > 0 && x + block.width > rowWidth) {
+      x = 0;
+      y += rowHeight + CLUSTER_GAP;
+      rowHeight = 0;
+    }
+    for (const [id, p] of block.positions) positions.set(id, { x: x + p.x, y: y + p.y });
+    x += block.width + CLUSTER_GAP;
+    rowHeight = Math.max(rowHeight, block.height);
+  }
+  return positions;
+}
+
+// Positions for every node; the same request always produces the same layout
+export function layoutGraph(request: LayoutRequest): Record<string, NodePosition> {
+  // Sorting first makes the result independent of the order nodes arrive in
+  const nodes = Array.from(new Set(request.nodes)).sort();
+  const random = createRandom(request.seed);
+  const positions =
+    request.type === "hierarchical"
+      ? hierarchicalLayout(nodes, request.edges, random)
+      : request.type === "clustered"
+        ? clusteredLayout(nodes, request.edges, request.clusters, random)
+        : forceLayout(nodes, request.edges, random);
+  const out: Record<string, NodePosition> = {};
+  for (const [id, p] of positions) out[id] = { x: Math.round(p.x), y: Math.round(p.y) };
+  return out;
+}
@@ -0,0 +1,44 @@
+import { LayoutRequest, layoutGraph } from "./graphLayout";
+import { NodePosition } from "./types";
+
+export type LayoutWorkerResponse =
+  | { type: "result"; positions: Record<string, NodePosition> }
+  | { type: "error"; message: string };
+
+function abortError(): DOMException {
+  return new DOMException("Layout cancelled", "AbortError");
+}
+
+// Lay the graph out off the main thread; cancelling terminates the worker
+export function computeLayout(request: LayoutRequest, signal?: AbortSignal): Promise<Record<string, NodePosition>> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  // Environments without workers (tests, very old browsers) run inline
+  if (typeof Worker === "undefined") return Promise.resolve(layoutGraph(request));
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/layout.worker.ts", import.meta.url), { type: "module" });
+    const cleanup = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      const msg = event.data;
+      cleanup();
+      if (msg.type === "result") resolve(msg.positions);
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Layout worker failed"));
+    };
+
+    worker.postMessage(request);
+  });
+}
@@ -1,71 +1,308 @@
-import { Transaction } from "./types";
-
-// Generate sample transactions with embedded fraud patterns for demo
-export function generateSampleCSV(): string {
-  const rows: string[] = ["transaction_id,sender_id,receiver_id,amount,timestamp"];
-  let txId = 1;
-  const base = new Date("2024-06-01T08:00:00");
-
-  // Normal transactions
-  const normalAccounts = Array.from({ length: 30 }, (_, i) => `ACC_${String(i + 1).padStart(5, "0")}`);
-  for (let i = 0; i < 80; i++) {
-    const sender = normalAccounts[Math.floor(Math.random() * normalAccounts.length)];
-    let receiver = normalAccounts[Math.floor(Math.random() * normalAccounts.length)];
-    while (receiver === sender) receiver = normalAccounts[Math.floor(Math.random() * normalAccounts.length)];
-    const amount = (Math.random() * 5000 + 100).toFixed(2);
-    const ts = new Date(base.getTime() + Math.random() * 7 * 24 * 3600000);
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},${sender},${receiver},${amount},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
-  }
+import Papa from "papaparse";
+import { ConfigIssue, GroundTruthLabel, SyntheticConfig, SyntheticDataset } from "./types";
+import { ConfigField } from "./detectors";
+import { validateField } from "./detectionConfig";
+import { createRandom, randomSeed } from "./random";
+
+const BASE_TIME = Date.UTC(2024, 5, 1, 8);
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// What a typology gets to build one instance
+interface InjectionContext {
+  random: () => number;
+  // A fresh account for this instance; counterparties that are not mules pass mule = false
+  account(role: string, mule?: boolean): string;
+  transfer(sender: string, receiver: string, amount: number, time: number): void;
+  // Start time for an instance lasting durationMs, placed at random inside the date span
+  start(durationMs: number): number;
+}
+
+export interface SyntheticTypology {
+  // Id of the detector the typology is built to trigger
+  id: string;
+  label: string;
+  fields: ConfigField[];
+  inject(ctx: InjectionContext, params: Record<string, number>): void;
+}
+
+const countField: ConfigField = {
+  key: "count",
+  label: "Instances",
+  type: "number",
+  default: 1,
+  min: 0,
+  max: 1000,
+  step: 1,
+};
+
+// Amount jittered by up to ±spread of itself
+function jitter(random: () => number, amount: number, spread: number): number {
+  return amount * (1 - spread + random() * 2 * spread);
+}
+
+export const SYNTHETIC_TYPOLOGIES: SyntheticTypology[] = [
+  {
+    id: "cycle",
+    label: "Circular Routing",
+    fields: [
+      countField,
+      { key: "length", label: "Accounts in loop", type: "number", default: 3, min: 3, max: 10, step: 1 },
+      { key: "amount", label: "Starting amount", type: "number", default: 2250, min: 1 },
+      { key: "hopHours", label: "Time per hop", type: "number", default: 1, min: 0.1, max: 720, unit: "hours" },
+      { key: "skimPct", label: "Skim per hop", type: "number", default: 3.5, min: 0, max: 50, unit: "%" },
+    ],
+    inject({ random, account, transfer, start }, { length, amount, hopHours, skimPct }) {
+      const accs = Array.from({ length }, () => account("cycle_member"));
+      const from = start(length * hopHours * HOUR_MS);
+      // Each hop forwards the previous amount less a small skim
+      let value = jitter(random, amount, 0.1);
+      for (let i = 0; i < length; i++) {
+        transfer(accs[i], accs[(i + 1) % length], value, from + i * hopHours * HOUR_MS);
+        value *= 1 - (skimPct / 100) * (0.6 + random() * 0.8);
+      }
+    },
+  },
+  {
+    id: "smurfing",
+    label: "Smurfing",
+    fields: [
+      countField,
+      { key: "sources", label: "Sources", type: "number", default: 5, min: 2, max: 500, step: 1 },
+      { key: "targets", label: "Fan-out targets", type: "number", default: 3, min: 0, max: 500, step: 1 },
+      { key: "depositAmount", label: "Deposit amount", type: "number", default: 475, min: 1 },
+      { key: "depositHours", label: "Deposit period", type: "number", default: 48, min: 1, max: 720, unit: "hours" },
+    ],
+    inject({ random, account, transfer, start }, { sources, targets, depositAmount, depositHours }) {
+      const hub = account("aggregator");
+      const from = start((depositHours + 12) * HOUR_MS);
+      let collected = 0;
+      for (let i = 0; i < sources; i++) {
+        const amount = jitter(random, depositAmount, 0.05);
+        collected += amount;
+        transfer(account("source"), hub, amount, from + random() * depositHours * HOUR_MS);
+      }
+      // The hub pays most of it on shortly after the last deposit
+      for (let i = 0; i < targets; i++) {
+        const amount = jitter(random, (collected * 0.95) / targets, 0.03);
+        transfer(hub, account("target"), amount, from + (depositHours + 2 + random() * 10) * HOUR_MS);
+      }
+    },
+  },
+  {
+    id: "shell",
+    label: "Layered Shell",
+    fields: [
+      countField,
+      { key: "hops", label: "Hops", type: "number", default: 3, min: 2, max: 10, step: 1 },
+      { key: "amount", label: "Amount", type: "number", default: 3500, min: 1 },
+      { key: "hopHours", label: "Time per hop", type: "number", default: 2, min: 0.1, max: 720, unit: "hours" },
+    ],
+    inject({ random, account, transfer, start }, { hops, amount, hopHours }) {
+      const chain = [
+        account("origin"),
+        ...Array.from({ length: hops - 1 }, () => account("shell")),
+        account("destination"),
+      ];
+      const from = start(hops * hopHours * HOUR_MS);
+      let value = jitter(random, amount, 0.15);
+      for (let i = 0; i < hops; i++) {
+        transfer(chain[i], chain[i + 1], value, from + (i + 1) * hopHours * HOUR_MS);
+        value *= 0.97 + random() * 0.02;
+      }
+    },
+  },
+  {
+    id: "velocity",
+    label: "High Velocity",
+    fields: [
+      countField,
+      { key: "sends", label: "Sends in burst", type: "number", default: 5, min: 2, max: 500, step: 1 },
+      { key: "intervalMinutes", label: "Gap between sends", type: "number", default: 4, min: 0.1, max: 1440, unit: "minutes" },
+      { key: "amount", label: "Amount", type: "number", default: 900, min: 1 },
+    ],
+    inject({ random, account, transfer, start }, { sends, intervalMinutes, amount }) {
+      const sender = account("sender");
+      const from = start(sends * intervalMinutes * MINUTE_MS);
+      for (let i = 0; i < sends; i++) {
+        transfer(sender, account("beneficiary", false), jitter(random, amount, 0.1), from + i * intervalMinutes * MINUTE_MS);
+      }
+    },
+  },
+  {
+    id: "structuring",
+    label: "Structuring",
+    fields: [
+      countField,
+      { key: "sends", label: "Near-threshold sends", type: "number", default: 4, min: 1, max: 500, step: 1 },
+      { key: "threshold", label: "Reporting threshold", type: "number", default: 10000, min: 1 },
+      { key: "margin", label: "Margin below threshold", type: "number", default: 500, min: 1 },
+      { key: "intervalHours", label: "Gap between sends", type: "number", default: 24, min: 0.1, max: 720, unit: "hours" },
+    ],
+    inject({ random, account, transfer, start }, { sends, threshold, margin, intervalHours }) {
+      const sender = account("structurer");
+      const receiver = account("beneficiary", false);
+      const from = start(sends * intervalHours * HOUR_MS);
+      for (let i = 0; i < sends; i++) {
+        // Inside the margin but clear of the threshold itself
+        const amount = threshold - margin + random() * margin * 0.8;
+        transfer(sender, receiver, amount, from + (i + 1) * intervalHours * HOUR_MS);
+      }
+    },
+  },
+  {
+    id: "round_trip",
+    label: "Round-Trip",
+    fields: [
+      countField,
+      { key: "legs", label: "Out-and-back legs", type: "number", default: 3, min: 1, max: 100, step: 1 },
+      { key: "amount", label: "Amount", type: "number", default: 5100, min: 1 },
+      { key: "returnHours", label: "Return delay", type: "number", default: 12, min: 0.1, max: 720, unit: "hours" },
+    ],
+    inject({ random, account, transfer, start }, { legs, amount, returnHours }) {
+      const a = account("round_tripper");
+      const b = account("round_tripper");
+      // Legs two days apart; most of the money comes back each time
+      const from = start(((legs - 1) * 48 + returnHours) * HOUR_MS);
+      for (let i = 0; i < legs; i++) {
+        const out = jitter(random, amount, 0.02);
+        const sent = from + i * 48 * HOUR_MS;
+        transfer(a, b, out, sent);
+        transfer(b, a, out * (0.92 + random() * 0.06), sent + returnHours * HOUR_MS);
+      }
+    },
+  },
+  {
+    id: "dormant",
+    label: "Dormant Burst",
+    fields: [
+      countField,
+      { key: "burst", label: "Transfers in burst", type: "number", default: 5, min: 2, max: 500, step: 1 },
+      { key: "idleDays", label: "Quiet period", type: "number", default: 8, min: 1, max: 3650, unit: "days" },
+      { key: "amount", label: "Amount", type: "number", default: 1500, min: 1 },
+    ],
+    inject({ random, account, transfer, start }, { burst, idleDays, amount }) {
+      const acc = account("dormant");
+      const from = start(idleDays * DAY_MS + 6 * HOUR_MS);
+      transfer(acc, account("counterparty", false), jitter(random, amount, 0.3), from);
+      // After the quiet period the account both receives and moves money within a few hours
+      const wake = from + idleDays * DAY_MS;
+      for (let i = 0; i < burst; i++) {
+        const other = account("counterparty", false);
+        const time = wake + random() * 6 * HOUR_MS;
+        if (i % 2 === 0) transfer(other, acc, jitter(random, amount, 0.2), time);
+        else transfer(acc, other, jitter(random, amount, 0.2), time);
+      }
+    },
+  },
+];
+
+export const BACKGROUND_FIELDS: ConfigField[] = [
+  { key: "accounts", label: "Background accounts", type: "number", default: 30, min: 2, max: 200000, step: 1 },
+  { key: "transactions", label: "Background transactions", type: "number", default: 80, min: 0, max: 2000000, step: 1 },
+  { key: "span_days", label: "Date span", type: "number", default: 14, min: 1, max: 3650, unit: "days" },
+];
 
-  // Cycle: ACC_00101 -> ACC_00102 -> ACC_00103 -> ACC_00101
-  const cycleAccs = ["ACC_00101", "ACC_00102", "ACC_00103"];
-  for (let i = 0; i < 3; i++) {
-    const ts = new Date(base.getTime() + i * 3600000);
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},${cycleAccs[i]},${cycleAccs[(i + 1) % 3]},${(2000 + Math.random() * 500).toFixed(2)},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
+// Sizes match the original demo: a small population and one instance of each typology
+export function getDefaultSyntheticConfig(seed = randomSeed()): SyntheticConfig {
+  const typologies: SyntheticConfig["typologies"] = {};
+  for (const t of SYNTHETIC_TYPOLOGIES) {
+    typologies[t.id] = Object.fromEntries(t.fields.map((f) => [f.key, f.default as number]));
   }
+  return { seed, accounts: 30, transactions: 80, span_days: 14, typologies };
+}
 
-  // Smurfing: fan-in to ACC_00200
-  const smurfSources = ["ACC_00201", "ACC_00202", "ACC_00203", "ACC_00204", "ACC_00205"];
-  for (const src of smurfSources) {
-    const ts = new Date(base.getTime() + Math.random() * 48 * 3600000);
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},${src},ACC_00200,${(450 + Math.random() * 50).toFixed(2)},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
+export function validateSyntheticConfig(config: SyntheticConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (!Number.isInteger(config.seed)) issues.push({ detector: "background", key: "seed", message: "Must be a whole number" });
+  for (const field of BACKGROUND_FIELDS) {
+    const message = validateField(field, config[field.key as keyof SyntheticConfig] as number);
+    if (message) issues.push({ detector: "background", key: field.key, message });
   }
-  // fan-out from ACC_00200
-  const smurfTargets = ["ACC_00210", "ACC_00211", "ACC_00212"];
-  for (const tgt of smurfTargets) {
-    const ts = new Date(base.getTime() + 50 * 3600000 + Math.random() * 10 * 3600000);
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},ACC_00200,${tgt},${(700 + Math.random() * 100).toFixed(2)},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
+  for (const t of SYNTHETIC_TYPOLOGIES) {
+    for (const field of t.fields) {
+      const message = validateField(field, config.typologies[t.id]?.[field.key]);
+      if (message) issues.push({ detector: t.id, key: field.key, message });
+    }
   }
-
-  // Layered shell: ACC_00301 -> ACC_00302 -> ACC_00303 -> ACC_00304
-  const shellAccs = ["ACC_00301", "ACC_00302", "ACC_00303", "ACC_00304"];
-  for (let i = 0; i < shellAccs.length - 1; i++) {
-    const ts = new Date(base.getTime() + (i + 1) * 7200000);
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},${shellAccs[i]},${shellAccs[i + 1]},${(3000 + Math.random() * 1000).toFixed(2)},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
+  // Every typology instance emits transfers, so an empty dataset means no background and no instances
+  if (config.transactions === 0 && SYNTHETIC_TYPOLOGIES.every((t) => !config.typologies[t.id]?.count)) {
+    issues.push({
+      detector: "background",
+      key: "transactions",
+      message: "Add background transactions or at least one typology instance",
+    });
   }
+  return issues;
+}
 
-  // NEW: High-velocity burst (ACC_00400 sends 5 txs in 20 minutes)
-  for (let i = 0; i < 5; i++) {
-    const ts = new Date(base.getTime() + 72 * 3600000 + i * 4 * 60000); // 4 min apart
-    const target = `ACC_${String(410 + i).padStart(5, "0")}`;
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},ACC_00400,${target},${(800 + Math.random() * 200).toFixed(2)},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
-  }
+function formatTime(time: number): string {
+  return new Date(time).toISOString().replace("T", " ").slice(0, 19);
+}
+
+// Build the transactions CSV and its ground-truth labels. Background accounts come first
+// and injected instances get fresh accounts after them, so mules never trade with the background.
+export function generateSyntheticData(config: SyntheticConfig): SyntheticDataset {
+  const random = createRandom(config.seed);
+  const spanMs = config.span_days * DAY_MS;
+  const labels: GroundTruthLabel[] = [];
+  const transfers: { sender: string; receiver: string; amount: number; time: number }[] = [];
+  const newAccount = (label: Omit<GroundTruthLabel, "account_id">) => {
+    const id = `ACC_${String(labels.length + 1).padStart(5, "0")}`;
+    labels.push({ account_id: id, ...label });
+    return id;
+  };
 
-  // NEW: Structuring (ACC_00500 sends amounts just below $10,000 threshold)
-  for (let i = 0; i < 4; i++) {
-    const ts = new Date(base.getTime() + (i + 1) * 24 * 3600000);
-    const amount = (9500 + Math.random() * 400).toFixed(2); // $9,500 - $9,900
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},ACC_00500,ACC_00510,${amount},${ts.toISOString().replace("T", " ").slice(0, 19)}`);
+  const background = Array.from({ length: config.accounts }, () =>
+    newAccount({ is_mule: false, typology: "", instance_id: "", role: "background" })
+  );
+  for (let i = 0; i < config.transactions; i++) {
+    const sender = Math.floor(random() * background.length);
+    // Any other account, without rejection sampling
+    const receiver = (sender + 1 + Math.floor(random() * (background.length - 1))) % background.length;
+    transfers.push({
+      sender: background[sender],
+      receiver: background[receiver],
+      amount: random() * 5000 + 100,
+      time: BASE_TIME + random() * spanMs,
+    });
   }
 
-  // NEW: Round-trip flow (ACC_00600 <-> ACC_00601, similar amounts back and forth)
-  for (let i = 0; i < 3; i++) {
-    const amount = 5000 + Math.random() * 200;
-    const ts1 = new Date(base.getTime() + i * 48 * 3600000);
-    const ts2 = new Date(ts1.getTime() + 12 * 3600000); // 12 hours later
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},ACC_00600,ACC_00601,${amount.toFixed(2)},${ts1.toISOString().replace("T", " ").slice(0, 19)}`);
-    rows.push(`TXN_${String(txId++).padStart(5, "0")},ACC_00601,ACC_00600,${(amount * (0.92 + Math.random() * 0.06)).toFixed(2)},${ts2.toISOString().replace("T", " ").slice(0, 19)}`);
+  for (const typology of SYNTHETIC_TYPOLOGIES) {
+    const params = config.typologies[typology.id];
+    if (!params) continue;
+    for (let n = 1; n <= params.count; n++) {
+      const instance_id = `${typology.id}_${n}`;
+      typology.inject(
+        {
+          random,
+          account: (role, mule = true) => newAccount({ is_mule: mule, typology: typology.id, instance_id, role }),
+          transfer: (sender, receiver, amount, time) => transfers.push({ sender, receiver, amount, time }),
+          start: (durationMs) => BASE_TIME + random() * Math.max(spanMs - durationMs, 0),
+        },
+        params
+      );
+    }
   }
 
-  return rows.join("\n");
+  // Ids follow time order so the file reads like a ledger export
+  transfers.sort((a, b) => a.time - b.time);
+  const rows = ["transaction_id,sender_id,receiver_id,amount,timestamp"];
+  transfers.forEach((t, i) => {
+    rows.push(
+      `TXN_${String(i + 1).padStart(5, "0")},${t.sender},${t.receiver},${t.amount.toFixed(2)},${formatTime(t.time)}`
+    );
+  });
+
+  return { config, csv: rows.join("\n"), labels, transaction_count: transfers.length };
+}
+
+export function buildLabelsCSV(labels: GroundTruthLabel[]): string {
+  return Papa.unparse(labels.map((l) => ({ ...l, is_mule: l.is_mule ? 1 : 0 })));
+}
+
+// Demo dataset with embedded fraud patterns; random unless a seed is given
+export function generateSampleCSV(seed = randomSeed()): string {
+  return generateSyntheticData(getDefaultSyntheticConfig(seed)).csv;
 }
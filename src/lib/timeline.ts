@@ -0,0 +1,72 @@
+import { AnalysisResult, Evidence, GraphEdge, TimeWindow } from "./types";
+
+export function timeBounds(edges: GraphEdge[]): TimeWindow | null {
+  if (edges.length === 0) return null;
+  let start = Infinity;
+  let end = -Infinity;
+  for (const e of edges) {
+    const t = e.timestamp.getTime();
+    if (t < start) start = t;
+    if (t > end) end = t;
+  }
+  return { start, end };
+}
+
+export function inWindow(time: number, window: TimeWindow): boolean {
+  return time >= window.start && time <= window.end;
+}
+
+// Transfers inside the window, and while playing back only those up to the playhead
+export function visibleEdges(edges: GraphEdge[], window: TimeWindow | null, playhead: number | null): GraphEdge[] {
+  if (!window && playhead === null) return edges;
+  return edges.filter((e) => {
+    const t = e.timestamp.getTime();
+    return (!window || inWindow(t, window)) && (playhead === null || t <= playhead);
+  });
+}
+
+// Distinct transfer times inside the window, ascending; the stops of the playhead
+export function transferTimes(edges: GraphEdge[], window: TimeWindow | null): number[] {
+  const times = new Set<number>();
+  for (const e of edges) {
+    const t = e.timestamp.getTime();
+    if (!window || inWindow(t, window)) times.add(t);
+  }
+  return Array.from(times).sort((a, b) => a - b);
+}
+
+// Index of the last time at or before `time`, or -1 when every time is later
+export function stepAt(times: number[], time: number | null): number {
+  if (time === null) return -1;
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
+
+// Net position per account over the given transfers: received minus sent
+export function runningBalances(edges: GraphEdge[]): Map<string, number> {
+  const balances = new Map<string, number>();
+  for (const e of edges) {
+    balances.set(e.source, (balances.get(e.source) ?? 0) - e.amount);
+    balances.set(e.target, (balances.get(e.target) ?? 0) + e.amount);
+  }
+  return balances;
+}
+
+export function overlapsWindow(evidence: Evidence, window: TimeWindow): boolean {
+  return Date.parse(evidence.window_start) <= window.end && Date.parse(evidence.window_end) >= window.start;
+}
+
+// Keep the accounts and rings with evidence inside the window; scores and summary are unchanged
+export function filterResultByWindow(result: AnalysisResult, window: TimeWindow): AnalysisResult {
+  return {
+    ...result,
+    suspicious_accounts: result.suspicious_accounts.filter((sa) => sa.evidence.some((e) => overlapsWindow(e, window))),
+    fraud_rings: result.fraud_rings.filter((r) => overlapsWindow(r.evidence, window)),
+  };
+}
@@ -0,0 +1,121 @@
+import { Transaction, TransactionStore } from "./types";
+import { DEFAULT_REPORTING_CURRENCY } from "./currency";
+
+const MIN_CAPACITY = 1024;
+
+export function createTransactionStore(
+  initialCapacity: number = MIN_CAPACITY,
+  reportingCurrency: string = DEFAULT_REPORTING_CURRENCY
+): TransactionStore {
+  const capacity = Math.max(initialCapacity, MIN_CAPACITY);
+  return {
+    length: 0,
+    transactionIds: [],
+    accountIds: [],
+    accountIndex: new Map(),
+    senders: new Int32Array(capacity),
+    receivers: new Int32Array(capacity),
+    amounts: new Float64Array(capacity),
+    timestamps: new Float64Array(capacity),
+    reportingCurrency,
+    currencyCodes: [reportingCurrency],
+    currencies: new Int16Array(capacity),
+    originalAmounts: new Float64Array(capacity),
+  };
+}
+
+function internAccount(store: TransactionStore, accountId: string): number {
+  let idx = store.accountIndex.get(accountId);
+  if (idx === undefined) {
+    idx = store.accountIds.length;
+    store.accountIds.push(accountId);
+    store.accountIndex.set(accountId, idx);
+  }
+  return idx;
+}
+
+// Only a handful of currencies ever appear, so a linear scan beats a map here
+function internCurrency(store: TransactionStore, currency: string): number {
+  let idx = store.currencyCodes.indexOf(currency);
+  if (idx === -1) {
+    idx = store.currencyCodes.length;
+    store.currencyCodes.push(currency);
+  }
+  return idx;
+}
+
+// Double the typed columns when full so appends stay amortised O(1)
+function ensureCapacity(store: TransactionStore, needed: number): void {
+  if (needed <= store.amounts.length) return;
+  let capacity = Math.max(store.amounts.length * 2, MIN_CAPACITY);
+  while (capacity < needed) capacity *= 2;
+  const grow = <T extends Int16Array | Int32Array | Float64Array>(col: T, make: (n: number) => T): T => {
+    const next = make(capacity);
+    next.set(col.subarray(0, store.length));
+    return next;
+  };
+  store.senders = grow(store.senders, (n) => new Int32Array(n));
+  store.receivers = grow(store.receivers, (n) => new Int32Array(n));
+  store.amounts = grow(store.amounts, (n) => new Float64Array(n));
+  store.timestamps = grow(store.timestamps, (n) => new Float64Array(n));
+  store.currencies = grow(store.currencies, (n) => new Int16Array(n));
+  store.originalAmounts = grow(store.originalAmounts, (n) => new Float64Array(n));
+}
+
+export function appendTransaction(store: TransactionStore, t: Transaction): void {
+  ensureCapacity(store, store.length + 1);
+  const i = store.length;
+  store.transactionIds.push(t.transaction_id);
+  store.senders[i] = internAccount(store, t.sender_id);
+  store.receivers[i] = internAccount(store, t.receiver_id);
+  store.amounts[i] = t.amount;
+  store.timestamps[i] = t.timestamp.getTime();
+  store.currencies[i] = internCurrency(store, t.original_currency ?? store.reportingCurrency);
+  store.originalAmounts[i] = t.original_amount ?? t.amount;
+  store.length++;
+}
+
+export function getTransaction(store: TransactionStore, i: number): Transaction {
+  return {
+    transaction_id: store.transactionIds[i],
+    sender_id: store.accountIds[store.senders[i]],
+    receiver_id: store.accountIds[store.receivers[i]],
+    amount: store.amounts[i],
+    timestamp: new Date(store.timestamps[i]),
+    original_amount: store.originalAmounts[i],
+    original_currency: store.currencyCodes[store.currencies[i]],
+  };
+}
+
+// Copy without the unused tail capacity, e.g. before persisting; cloning a view would copy the whole buffer
+export function trimTransactionStore(store: TransactionStore): TransactionStore {
+  return {
+    ...store,
+    transactionIds: [...store.transactionIds],
+    accountIds: [...store.accountIds],
+    accountIndex: new Map(store.accountIndex),
+    currencyCodes: [...store.currencyCodes],
+    senders: store.senders.slice(0, store.length),
+    receivers: store.receivers.slice(0, store.length),
+    amounts: store.amounts.slice(0, store.length),
+    timestamps: store.timestamps.slice(0, store.length),
+    currencies: store.currencies.slice(0, store.length),
+    originalAmounts: store.originalAmounts.slice(0, store.length),
+  };
+}
+
+// Materialise row objects for the detectors, which still work on Transaction[]
+export function storeToTransactions(store: TransactionStore): Transaction[] {
+  const out: Transaction[] = new Array(store.length);
+  for (let i = 0; i < store.length; i++) out[i] = getTransaction(store, i);
+  return out;
+}
+
+export function storeFromTransactions(
+  transactions: Transaction[],
+  reportingCurrency: string = DEFAULT_REPORTING_CURRENCY
+): TransactionStore {
+  const store = createTransactionStore(transactions.length, reportingCurrency);
+  for (const t of transactions) appendTransaction(store, t);
+  return store;
+}
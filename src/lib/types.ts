@@ -2,8 +2,29 @@ export interface Transaction {
   transaction_id: string;
   sender_id: string;
   receiver_id: string;
+  // Amount in the reporting currency; detectors only ever see this value
   amount: number;
   timestamp: Date;
+  original_amount?: number;
+  original_currency?: string;
+}
+
+// The transfers behind a detection and the span of time they cover (ISO timestamps)
+export interface Evidence {
+  transaction_ids: string[];
+  window_start: string;
+  window_end: string;
+}
+
+export interface PatternEvidence extends Evidence {
+  pattern: string;
+}
+
+// One step of a suspicion score; the points of an account's contributions sum to its score
+export interface ScoreContribution {
+  factor: string;
+  points: number;
+  evidence: string;
 }
 
 export interface SuspiciousAccount {
@@ -11,13 +32,70 @@ export interface SuspiciousAccount {
   suspicion_score: number;
   detected_patterns: string[];
   ring_id: string;
+  // In the order they were applied, ending with any cap
+  score_contributions: ScoreContribution[];
+  // One entry per detected pattern
+  evidence: PatternEvidence[];
+}
+
+export type RingType =
+  | "cycle"
+  | "smurfing"
+  | "layered_shell"
+  | "round_trip"
+  | "structuring"
+  | "high_velocity"
+  | "dormant_activation";
+
+// One matched out-and-back pair of a round trip, earlier transfer first
+export interface RoundTripLeg {
+  first_id: string;
+  second_id: string;
+  // Smaller amount over larger, 1 when the money came back in full
+  amount_ratio: number;
+  gap_hours: number;
 }
 
+export interface RoundTripDetails {
+  type: "round_trip";
+  legs: RoundTripLeg[];
+}
+
+export interface StructuringDetails {
+  type: "structuring";
+  margin: number;
+  // Near-threshold sends per reporting threshold they stayed under
+  hits: { threshold: number; count: number }[];
+}
+
+export interface VelocityDetails {
+  type: "high_velocity";
+  window_minutes: number;
+  transaction_count: number;
+  // Time between the first and last send of the burst
+  span_minutes: number;
+}
+
+export interface DormantDetails {
+  type: "dormant_activation";
+  burst_count: number;
+  total_count: number;
+  // Longest quiet gap right before or after the burst
+  idle_days: number;
+}
+
+// Typology-specific evidence, for rings whose story is more than a set of transfers
+export type RingDetails = RoundTripDetails | StructuringDetails | VelocityDetails | DormantDetails;
+
 export interface FraudRing {
   ring_id: string;
   member_accounts: string[];
-  pattern_type: "cycle" | "smurfing" | "layered_shell";
+  pattern_type: RingType;
   risk_score: number;
+  evidence: Evidence;
+  // Transfers in flow order, for rings that trace a single movement of money
+  transaction_chain?: string[];
+  details?: RingDetails;
 }
 
 export interface PatternBreakdown {
@@ -33,14 +111,29 @@ export interface AnalysisSummary {
   fraud_rings_detected: number;
   processing_time_seconds: number;
   pattern_breakdown: PatternBreakdown[];
+  // Detectors that stopped at their result cap; absent on reports saved before caps existed
+  truncated_detectors?: string[];
 }
 
 export interface AnalysisResult {
+  reporting_currency: string;
+  // Parameters the detectors ran with, so a saved report can be reproduced
+  detection_config: DetectionConfig;
+  // Whether node IDs are raw accounts or resolved entities
+  analysis_level: AnalysisLevel;
+  // Merged entities the analysis ran over; empty at account level
+  entities: ResolvedEntity[];
   suspicious_accounts: SuspiciousAccount[];
   fraud_rings: FraudRing[];
   summary: AnalysisSummary;
 }
 
+export interface AnalysisProgress {
+  stage: string;
+  percent: number;
+  done: boolean;
+}
+
 export interface GraphNode {
   id: string;
   totalSent: number;
@@ -50,6 +143,13 @@ export interface GraphNode {
   ringIds: string[];
   patterns: string[];
   suspicionScore: number;
+  scoreContributions: ScoreContribution[];
+  // Set when the node is a merged entity rather than a single account
+  entity?: ResolvedEntity;
+  // Customer master attributes, when an account profile file was loaded
+  profile?: AccountProfile;
+  // Totals per original currency, before FX normalisation
+  originalTotals: Record<string, { sent: number; received: number }>;
 }
 
 export interface GraphEdge {
@@ -58,4 +158,419 @@ export interface GraphEdge {
   amount: number;
   transactionId: string;
   timestamp: Date;
+  originalAmount: number;
+  originalCurrency: string;
+}
+
+// Graph edges as store rows rather than objects, so the worker can hand them back without a copy;
+// transfers inside one entity are left out
+export interface GraphEdgeRows {
+  rows: Int32Array;
+  // Node ID of each interned account in the store
+  nodeIds: string[];
+}
+
+// Inclusive span of epoch milliseconds
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export type RequiredTransactionField = "transaction_id" | "sender_id" | "receiver_id" | "amount" | "timestamp";
+
+export type TransactionField = RequiredTransactionField | "currency";
+
+// Maps each canonical transaction field to the CSV header that holds it
+export type ColumnMapping = Record<RequiredTransactionField, string> & { currency?: string };
+
+export interface MappingProfile {
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  updated_at: string;
+}
+
+export interface CSVPreview {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export type RejectReason =
+  | "missing_field"
+  | "bad_amount"
+  | "non_positive_amount"
+  | "bad_date"
+  | "self_transfer"
+  | "duplicate_id"
+  | "missing_fx_rate";
+
+export interface RejectedRow {
+  // Spreadsheet-style row number: the header is row 1, the first data row is row 2
+  row_number: number;
+  raw: Record<string, string>;
+  reason: RejectReason;
+  detail: string;
+}
+
+export interface IngestionReport {
+  file_name: string;
+  headers: string[];
+  total_rows: number;
+  accepted_rows: number;
+  rejected_rows: RejectedRow[];
+  reason_counts: Record<RejectReason, number>;
+}
+
+// Columnar transaction storage: one typed array per numeric field, account IDs interned
+export interface TransactionStore {
+  length: number;
+  transactionIds: string[];
+  accountIds: string[];
+  accountIndex: Map<string, number>;
+  senders: Int32Array;
+  receivers: Int32Array;
+  amounts: Float64Array;
+  timestamps: Float64Array;
+  reportingCurrency: string;
+  currencyCodes: string[];
+  currencies: Int16Array;
+  originalAmounts: Float64Array;
+}
+
+export interface IngestionProgress {
+  bytes_read: number;
+  total_bytes: number;
+  accepted_rows: number;
+  rejected_rows: number;
+}
+
+export interface ParseResult {
+  store: TransactionStore;
+  report: IngestionReport;
+}
+
+export interface FxRate {
+  date: Date;
+  currency: string;
+  // Value of one unit of `currency` in the table's base currency
+  rate: number;
+}
+
+export interface CurrencySettings {
+  reporting_currency: string;
+  fx_rates: FxRate[];
+  // Currency the FX table's rates are quoted in; absent on settings saved before it was recorded,
+  // in which case the reporting currency is taken as the base
+  fx_base_currency?: string;
+}
+
+export type DetectorParamValue = number | number[];
+
+export type DetectorParams = Record<string, DetectorParamValue>;
+
+// Detector parameters keyed by detector id
+export interface DetectionConfig {
+  detectors: Record<string, DetectorParams>;
+  // Accounts scoring below this are not reported; absent on configs saved before it was tunable
+  score_floor?: number;
+}
+
+export interface DetectionPreset {
+  name: string;
+  config: DetectionConfig;
+  updated_at: string;
+}
+
+// One invalid parameter, or a detector-wide rule when key is omitted
+export interface ConfigIssue {
+  detector: string;
+  key?: string;
+  message: string;
+}
+
+export interface SourceFileInfo {
+  name: string;
+  size: number;
+  last_modified: string;
+}
+
+// Lightweight listing record; the heavy payload lives in CaseData under the same id
+export interface CaseSummary {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  source_file: SourceFileInfo;
+  transaction_count: number;
+  suspicious_accounts: number;
+  fraud_rings: number;
+}
+
+export interface CaseData {
+  id: string;
+  store: TransactionStore;
+  currency: CurrencySettings;
+  config: DetectionConfig;
+  result: AnalysisResult;
+  // Absent on cases saved before entity resolution existed
+  entity_settings?: EntitySettings;
+  profiles?: AccountProfile[];
+}
+
+export type InvestigationCase = CaseSummary & Omit<CaseData, "id">;
+
+export type DispositionState = "new" | "under_review" | "escalated" | "closed_false_positive" | "closed_sar_filed";
+
+export interface Disposition {
+  state: DispositionState;
+  assignee: string;
+  note: string;
+  updated_at: string;
+}
+
+export interface AuditEntry {
+  account_id: string;
+  from_state: DispositionState;
+  to_state: DispositionState;
+  assignee: string;
+  note: string;
+  // Analyst who made the change
+  actor: string;
+  timestamp: string;
+}
+
+// Triage state for a case; kept apart from CaseData so re-running the analysis keeps it
+export interface CaseWorkflow {
+  id: string;
+  // Accounts without an entry are still "new"
+  dispositions: Record<string, Disposition>;
+  audit_trail: AuditEntry[];
+}
+
+export type GraphLayoutType = "force" | "hierarchical" | "clustered";
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayout {
+  type: GraphLayoutType;
+  seed: number;
+  // Keyed by node id, including nodes the analyst dragged; empty until the layout is computed
+  positions: Record<string, NodePosition>;
+}
+
+// The graph arrangement of a case; stored beside the workflow so re-runs keep it too
+export interface CaseLayout extends GraphLayout {
+  id: string;
+}
+
+export type EgoDirection = "upstream" | "downstream";
+
+// Investigation view grown outwards from one account; only placed accounts are drawn
+export interface EgoNetwork {
+  root: string;
+  // Empty until the first hop around the root has been placed
+  positions: Record<string, NodePosition>;
+  // Pinned accounts stay put: collapsing never removes them and they cannot be dragged
+  pinned: string[];
+  // Hidden accounts keep their last position so they can be brought back, and expansion skips them
+  hidden: Record<string, NodePosition>;
+}
+
+// Which funds leave an account first when several deposits are mixed in its balance
+export type AllocationRule = "fifo" | "lifo" | "proportional";
+
+export type TraceSource = { kind: "transaction" | "account"; id: string };
+
+export interface TraceOptions {
+  direction: EgoDirection;
+  rule: AllocationRule;
+  max_hops: number;
+  // Branches carrying less than this are not followed
+  min_amount: number;
+}
+
+export type TraceStop = "cycle" | "max_hops" | "node_limit";
+
+// One transfer the traced money moved on, and the account it reached going the trace direction
+export interface TraceHop {
+  transaction_id: string;
+  sender_id: string;
+  receiver_id: string;
+  // ISO timestamp
+  timestamp: string;
+  transfer_amount: number;
+  // Portion of the transfer made of the source money
+  traced_amount: number;
+  account_id: string;
+  depth: number;
+  // Traced money that stayed at the account (downstream) or was its own funds (upstream); zero where tracing stopped
+  retained: number;
+  // Set when tracing stopped here; the whole traced amount is left unfollowed
+  stop?: TraceStop;
+  children: TraceHop[];
+}
+
+export interface TraceTerminal {
+  account_id: string;
+  amount: number;
+  // Fraction of the source total
+  share: number;
+  // Why tracing stopped here; absent where the money came to rest
+  stop?: TraceStop;
+}
+
+export interface FundTrace {
+  source: TraceSource;
+  options: TraceOptions;
+  total: number;
+  hops: TraceHop[];
+  // Where the money came to rest, largest amount first
+  terminals: TraceTerminal[];
+  // Money tracing stopped following, per account and reason, largest amount first; it may have moved on
+  stopped: TraceTerminal[];
+  // Money in branches below the minimum amount, which were not followed
+  untraced: number;
+  hop_count: number;
+}
+
+// One row of a customer/KYC file; every attribute but the account is optional
+export interface KycRecord {
+  account_id: string;
+  name?: string;
+  dob?: string;
+  phone?: string;
+  device?: string;
+  address?: string;
+}
+
+export type MergeKey = "phone" | "device" | "name_dob" | "address";
+
+// Why two accounts were joined into one entity
+export interface MergeReason {
+  key: MergeKey;
+  match: "exact" | "fuzzy";
+  accounts: [string, string];
+  // Normalised value that matched (for fuzzy matches, the first account's value)
+  value: string;
+  similarity?: number;
+}
+
+export interface ResolvedEntity {
+  entity_id: string;
+  accounts: string[];
+  name?: string;
+  reasons: MergeReason[];
+}
+
+// A value shared by too many accounts to point at one person, such as a placeholder device or a switchboard phone
+export interface SkippedMergeValue {
+  key: MergeKey;
+  match: "exact" | "fuzzy";
+  // Normalised value (for fuzzy keys, the block it stood for)
+  value: string;
+  account_count: number;
+}
+
+export interface EntityResolution {
+  record_count: number;
+  // Only entities that merge two or more accounts
+  entities: ResolvedEntity[];
+  // Values that were not used to merge; absent on resolutions saved before the cap existed
+  skipped?: SkippedMergeValue[];
+}
+
+export type AnalysisLevel = "account" | "entity";
+
+export interface EntitySettings {
+  resolution: EntityResolution | null;
+  level: AnalysisLevel;
+}
+
+export type CustomerType = "retail" | "business";
+
+export type RiskRating = "low" | "medium" | "high";
+
+// One row of the customer master file; every attribute but the account is optional
+export interface AccountProfile {
+  account_id: string;
+  // ISO date (YYYY-MM-DD)
+  opened_at?: string;
+  customer_type?: CustomerType;
+  // Annual, in the reporting currency
+  declared_income?: number;
+  country?: string;
+  risk_rating?: RiskRating;
+}
+
+// Seeded synthetic dataset: a random background population plus injected typology instances
+export interface SyntheticConfig {
+  seed: number;
+  accounts: number;
+  transactions: number;
+  span_days: number;
+  // Params per typology id; each has a `count` of instances to inject
+  typologies: Record<string, Record<string, number>>;
+}
+
+// Ground truth for one generated account
+export interface GroundTruthLabel {
+  account_id: string;
+  is_mule: boolean;
+  // Typology id of the injected instance, empty for background accounts
+  typology: string;
+  instance_id: string;
+  role: string;
+}
+
+export interface SyntheticDataset {
+  config: SyntheticConfig;
+  csv: string;
+  labels: GroundTruthLabel[];
+  transaction_count: number;
+}
+
+// Precision and recall are null when nothing was predicted or nothing was there to find
+export interface DetectionMetrics {
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface DetectorMetrics extends DetectionMetrics {
+  detector: string;
+  label: string;
+}
+
+// Quality if only accounts scoring at least `cutoff` were reported
+export interface PrecisionRecallPoint {
+  cutoff: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface MissedMule {
+  label: GroundTruthLabel;
+  // Absent when no detector raised anything on the account
+  score?: number;
+}
+
+export interface EvaluationReport {
+  cutoff: number;
+  label_count: number;
+  mule_count: number;
+  overall: DetectionMetrics;
+  detectors: DetectorMetrics[];
+  // Highest cutoff first
+  curve: PrecisionRecallPoint[];
+  // Cutoff with the best F1; the higher one on ties
+  best_cutoff: number | null;
+  false_positives: SuspiciousAccount[];
+  false_negatives: MissedMule[];
 }
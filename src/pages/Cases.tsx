@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, Check, Copy, FolderOpen, Pencil, Shield, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CaseSummary } from "@/lib/types";
+import { deleteCase, duplicateCase, listCases, renameCase } from "@/lib/cases";
+import { useToast } from "@/hooks/use-toast";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const Cases = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [cases, setCases] = useState<CaseSummary[] | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<CaseSummary | null>(null);
+
+  const showError = useCallback(
+    (err: unknown, fallback: string) => {
+      toast({ title: "Error", description: (err as Error).message || fallback, variant: "destructive" });
+    },
+    [toast]
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setCases(await listCases());
+    } catch (err) {
+      setCases([]);
+      showError(err, "Failed to load cases");
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRename = async () => {
+    if (!editing || !editing.name.trim()) return;
+    try {
+      await renameCase(editing.id, editing.name.trim());
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      showError(err, "Failed to rename case");
+    }
+  };
+
+  const handleDuplicate = async (c: CaseSummary) => {
+    try {
+      const copy = await duplicateCase(c.id);
+      toast({ title: "Case Duplicated", description: `Created "${copy.name}".` });
+      await refresh();
+    } catch (err) {
+      showError(err, "Failed to duplicate case");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteCase(pendingDelete.id);
+      toast({ title: "Case Deleted", description: `"${pendingDelete.name}" was removed.` });
+      setPendingDelete(null);
+      await refresh();
+    } catch (err) {
+      showError(err, "Failed to delete case");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-center">
+              <Shield className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-base font-bold text-foreground tracking-tight">ForensicsEngine</h1>
+              <p className="text-[10px] text-muted-foreground font-mono uppercase tracking-widest">Case Workspace</p>
+            </div>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => navigate("/")} className="gap-2 text-xs">
+            <ArrowLeft className="w-3.5 h-3.5" />
+            New Analysis
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div>
+          <h2 className="text-xl font-bold text-foreground">Cases</h2>
+          <p className="text-xs text-muted-foreground">
+            Every analysis is saved in this browser with its transactions, settings and results.
+          </p>
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="bg-card border border-border rounded-lg overflow-hidden"
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Case</th>
+                  <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Source File</th>
+                  <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Transactions</th>
+                  <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Flagged</th>
+                  <th className="text-left p-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">Updated</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {(cases ?? []).map((c) => (
+                  <tr key={c.id} className="border-b border-border/50 hover:bg-muted/20 transition-colors">
+                    <td className="p-3">
+                      {editing?.id === c.id ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            value={editing.name}
+                            onChange={(e) => setEditing({ id: c.id, name: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleRename();
+                              if (e.key === "Escape") setEditing(null);
+                            }}
+                            autoFocus
+                            className="h-7 w-56 text-xs"
+                          />
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleRename}>
+                            <Check className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(null)}>
+                            <X className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => navigate(`/cases/${c.id}`)}
+                          className="text-sm font-medium text-foreground hover:text-primary transition-colors text-left"
+                        >
+                          {c.name}
+                        </button>
+                      )}
+                    </td>
+                    <td className="p-3 font-mono text-xs text-muted-foreground">
+                      {c.source_file.name} • {formatBytes(c.source_file.size)}
+                    </td>
+                    <td className="p-3 font-mono text-xs text-foreground">{c.transaction_count.toLocaleString()}</td>
+                    <td className="p-3 font-mono text-xs text-foreground">
+                      {c.suspicious_accounts} accounts • {c.fraud_rings} rings
+                    </td>
+                    <td className="p-3 font-mono text-xs text-muted-foreground">
+                      {new Date(c.updated_at).toLocaleString()}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => navigate(`/cases/${c.id}`)}>
+                          <FolderOpen className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setEditing({ id: c.id, name: c.name })}
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDuplicate(c)}>
+                          <Copy className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setPendingDelete(c)}>
+                          <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {cases?.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                      No saved cases yet. Run an analysis to create one.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      </main>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete case?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" and its stored transactions and results will be permanently removed from this
+              browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Cases;
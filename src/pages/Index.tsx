@@ -1,6 +1,7 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useMemo, useRef, startTransition } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
-import { Download, Shield, Zap, FileText, BarChart3, Network, BookOpen } from "lucide-react";
+import { Download, Shield, Zap, FileText, FileSearch, BarChart3, Network, BookOpen, FolderOpen, Gauge, Route } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import FileUpload from "@/components/FileUpload";
@@ -8,81 +9,623 @@ import DashboardStats from "@/components/DashboardStats";
 import PatternBreakdownChart from "@/components/PatternBreakdownChart";
 import RiskScoreHistogram from "@/components/RiskScoreHistogram";
 import TransactionGraph from "@/components/TransactionGraph";
+import TimelinePanel from "@/components/TimelinePanel";
 import FraudRingTable from "@/components/FraudRingTable";
 import SuspiciousAccountsTable from "@/components/SuspiciousAccountsTable";
-import { parseCSV } from "@/lib/csvParser";
-import { analyzeTransactions, buildGraphData } from "@/lib/graphAnalysis";
-import { generateSampleCSV } from "@/lib/sampleData";
-import { Transaction, AnalysisResult, GraphNode, GraphEdge } from "@/lib/types";
+import ColumnMappingPanel from "@/components/ColumnMappingPanel";
+import IngestionReportPanel from "@/components/IngestionReportPanel";
+import IngestionProgressPanel from "@/components/IngestionProgressPanel";
+import AnalysisProgressPanel from "@/components/AnalysisProgressPanel";
+import CurrencySettingsPanel from "@/components/CurrencySettingsPanel";
+import DetectionSettingsPanel from "@/components/DetectionSettingsPanel";
+import EntityResolutionPanel from "@/components/EntityResolutionPanel";
+import AccountProfilesPanel from "@/components/AccountProfilesPanel";
+import SyntheticDataPanel from "@/components/SyntheticDataPanel";
+import EvaluationPanel from "@/components/EvaluationPanel";
+import EvidencePanel from "@/components/EvidencePanel";
+import FundTracePanel from "@/components/FundTracePanel";
+import DispositionDialog from "@/components/DispositionDialog";
+import AuditTrailPanel from "@/components/AuditTrailPanel";
+import { parseCSV, buildRejectsCSV } from "@/lib/csvParser";
+import { downloadFile } from "@/lib/download";
+import {
+  DEFAULT_COLUMN_MAPPING,
+  readCSVPreview,
+  isMappingComplete,
+  loadMappingProfiles,
+  findMatchingProfile,
+} from "@/lib/columnMapping";
+import { generateDataset, runAnalysis } from "@/lib/analysisClient";
+import { buildGraphData, expandGraphEdges } from "@/lib/graphAnalysis";
+import {
+  createCase,
+  describeSourceFile,
+  getCase,
+  getCaseLayout,
+  getCaseWorkflow,
+  saveCaseLayout,
+  saveCaseWorkflow,
+  updateCaseAnalysis,
+} from "@/lib/cases";
+import { applyDisposition, createWorkflow, loadAnalystName, saveAnalystName } from "@/lib/disposition";
+import { DEFAULT_REPORTING_CURRENCY } from "@/lib/currency";
+import {
+  DEFAULT_SCORE_FLOOR,
+  getDefaultDetectionConfig,
+  resolveDetectionConfig,
+  validateDetectionConfig,
+} from "@/lib/detectionConfig";
+import { EvidenceSubject } from "@/lib/evidence";
+import { getDefaultSyntheticConfig } from "@/lib/sampleData";
+import { createGraphLayout } from "@/lib/graphLayout";
+import { createEgoNetwork } from "@/lib/egoNetwork";
+import { filterResultByWindow, runningBalances, timeBounds, transferTimes, visibleEdges } from "@/lib/timeline";
+import {
+  AnalysisResult,
+  GraphNode,
+  GraphEdgeRows,
+  ColumnMapping,
+  CSVPreview,
+  ParseResult,
+  TransactionStore,
+  IngestionProgress,
+  AnalysisProgress,
+  CurrencySettings,
+  DetectionConfig,
+  EntitySettings,
+  AccountProfile,
+  CaseLayout,
+  CaseSummary,
+  CaseWorkflow,
+  Disposition,
+  SourceFileInfo,
+  SuspiciousAccount,
+  SyntheticConfig,
+  GroundTruthLabel,
+  GraphLayout,
+  EgoNetwork,
+  TimeWindow,
+  TraceSource,
+} from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 
+// Where a transaction store came from, recorded with the case it is saved to
+interface AnalysisOrigin {
+  source: SourceFileInfo;
+  // FX settings the store was normalised with at ingestion
+  currency: CurrencySettings;
+  caseId?: string;
+}
+
+const DEFAULT_ENTITY_SETTINGS: EntitySettings = { resolution: null, level: "account" };
+
 const Index = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { caseId } = useParams();
+  const navigate = useNavigate();
+  const [store, setStore] = useState<TransactionStore | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [graphNodes, setGraphNodes] = useState<GraphNode[]>([]);
-  const [graphEdges, setGraphEdges] = useState<GraphEdge[]>([]);
+  const [graphEdgeRows, setGraphEdgeRows] = useState<GraphEdgeRows | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [pendingUpload, setPendingUpload] = useState<{ file: File; preview: CSVPreview } | null>(null);
+  const [pendingReview, setPendingReview] = useState<(ParseResult & { origin: AnalysisOrigin }) | null>(null);
+  const [ingestion, setIngestion] = useState<{ fileName: string; progress: IngestionProgress } | null>(null);
+  const ingestAbortRef = useRef<AbortController | null>(null);
+  const [analysisStages, setAnalysisStages] = useState<Record<string, AnalysisProgress> | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>({
+    reporting_currency: DEFAULT_REPORTING_CURRENCY,
+    fx_rates: [],
+  });
+  const [detectionConfig, setDetectionConfig] = useState<DetectionConfig>(() => getDefaultDetectionConfig());
+  const configValid = validateDetectionConfig(detectionConfig).length === 0;
+  const [entitySettings, setEntitySettings] = useState<EntitySettings>(DEFAULT_ENTITY_SETTINGS);
+  const [accountProfiles, setAccountProfiles] = useState<AccountProfile[]>([]);
+  const [syntheticConfig, setSyntheticConfig] = useState<SyntheticConfig>(() => getDefaultSyntheticConfig());
+  // Ground truth for the loaded data, and the floor-free run it is judged against
+  const [groundTruth, setGroundTruth] = useState<GroundTruthLabel[] | null>(null);
+  const [evaluationResult, setEvaluationResult] = useState<AnalysisResult | null>(null);
+  const [activeTab, setActiveTab] = useState("graph");
+  const [evidenceSubject, setEvidenceSubject] = useState<EvidenceSubject | null>(null);
+  const [focusedRingId, setFocusedRingId] = useState<string | null>(null);
+  const [egoNetwork, setEgoNetwork] = useState<EgoNetwork | null>(null);
+  const [traceSource, setTraceSource] = useState<TraceSource | null>(null);
+  // Time window over the graph and tables, and the playback position inside it
+  const [timeWindow, setTimeWindow] = useState<TimeWindow | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [origin, setOrigin] = useState<AnalysisOrigin | null>(null);
+  const [activeCase, setActiveCase] = useState<CaseSummary | null>(null);
+  const [workflow, setWorkflow] = useState<CaseWorkflow>(() => createWorkflow());
+  // Graph arrangement; the id stays empty until the analysis is saved as a case
+  const [graphLayout, setGraphLayout] = useState<CaseLayout>(() => ({ ...createGraphLayout(), id: "" }));
+  const [analyst, setAnalyst] = useState(() => loadAnalystName());
+  const [triageAccount, setTriageAccount] = useState<SuspiciousAccount | null>(null);
+  // Case currently in the workspace, so navigating to its own URL does not reload it
+  const loadedCaseIdRef = useRef<string | null>(null);
   const { toast } = useToast();
 
-  const processTransactions = useCallback((txs: Transaction[]) => {
-    const analysisResult = analyzeTransactions(txs);
-    const graphData = buildGraphData(txs, analysisResult);
-    setTransactions(txs);
-    setResult(analysisResult);
-    setGraphNodes(graphData.nodes);
-    setGraphEdges(graphData.edges);
+  const resetWorkspace = useCallback(() => {
+    loadedCaseIdRef.current = null;
+    setResult(null);
+    setStore(null);
+    setGraphNodes([]);
+    setGraphEdgeRows(null);
+    setOrigin(null);
+    setActiveCase(null);
+    setWorkflow(createWorkflow());
+    setGraphLayout({ ...createGraphLayout(), id: "" });
+    setGroundTruth(null);
+    setEvaluationResult(null);
   }, []);
 
-  const handleFileSelect = useCallback(
-    async (file: File) => {
-      setIsProcessing(true);
+  // Every completed analysis is saved: new data becomes a case, re-runs update the open one
+  const saveAnalysis = useCallback(
+    async (parsedStore: TransactionStore, runOrigin: AnalysisOrigin, analysis: AnalysisResult) => {
+      const payload = {
+        store: parsedStore,
+        currency: runOrigin.currency,
+        config: analysis.detection_config,
+        result: analysis,
+        entity_settings: entitySettings,
+        profiles: accountProfiles,
+      };
       try {
-        const txs = await parseCSV(file);
-        processTransactions(txs);
+        const saved = runOrigin.caseId
+          ? await updateCaseAnalysis(runOrigin.caseId, payload)
+          : await createCase(runOrigin.source.name.replace(/\.csv$/i, ""), runOrigin.source, payload);
+        loadedCaseIdRef.current = saved.id;
+        setActiveCase(saved);
+        setOrigin({ ...runOrigin, caseId: saved.id });
+        if (!runOrigin.caseId) {
+          setWorkflow((w) => ({ ...w, id: saved.id }));
+          setGraphLayout((l) => ({ ...l, id: saved.id }));
+          navigate(`/cases/${saved.id}`, { replace: true });
+        }
+      } catch (err) {
         toast({
-          title: "Analysis Complete",
-          description: `Processed ${txs.length} transactions successfully.`,
+          title: "Case Not Saved",
+          description: (err as Error).message || "The analysis is shown but could not be stored.",
+          variant: "destructive",
+        });
+      }
+    },
+    [entitySettings, accountProfiles, navigate, toast]
+  );
+
+  const processTransactions = useCallback(
+    async (parsedStore: TransactionStore, runOrigin: AnalysisOrigin, title: string, description: string) => {
+      setIsProcessing(true);
+      const controller = new AbortController();
+      analysisAbortRef.current = controller;
+      setAnalysisStages({});
+      try {
+        const output = await runAnalysis(parsedStore, {
+          config: detectionConfig,
+          entitySettings,
+          profiles: accountProfiles,
+          signal: controller.signal,
+          onProgress: (progress) => setAnalysisStages((prev) => ({ ...prev, [progress.stage]: progress })),
+        });
+        // The graph and tables are heavy to mount; keep the page responsive while they render
+        startTransition(() => {
+          setStore(parsedStore);
+          setResult(output.result);
+          setGraphNodes(output.nodes);
+          setGraphEdgeRows(output.edges);
+          setEvidenceSubject(null);
+          setFocusedRingId(null);
+          setEgoNetwork(null);
+          setTraceSource(null);
+          setTimeWindow(null);
+          setPlayhead(null);
+          setEvaluationResult(null);
+          setOrigin(runOrigin);
+          // Triage and layout carry over when re-running a case; new data starts afresh
+          if (!runOrigin.caseId) {
+            setWorkflow(createWorkflow());
+            setGraphLayout((l) => ({ ...createGraphLayout(l.type, l.seed), id: "" }));
+          }
         });
-      } catch (err: any) {
+        toast({ title, description });
+        await saveAnalysis(parsedStore, runOrigin, output.result);
+      } catch (err) {
+        if ((err as Error).name === "AbortError") {
+          toast({ title: "Analysis Cancelled", description: "The detection run was stopped." });
+          return;
+        }
         toast({
           title: "Error",
-          description: err.message || "Failed to parse CSV",
+          description: (err as Error).message || "Analysis failed",
           variant: "destructive",
         });
       } finally {
+        analysisAbortRef.current = null;
+        setAnalysisStages(null);
         setIsProcessing(false);
       }
     },
-    [processTransactions, toast]
+    [detectionConfig, entitySettings, accountProfiles, saveAnalysis, toast]
   );
 
-  const handleLoadSample = useCallback(() => {
+  // Score every account with patterns, not just those above the floor, so the
+  // precision-recall curve can show what a lower floor would catch
+  const handleEvaluate = useCallback(async () => {
+    if (!store) return;
     setIsProcessing(true);
-    setTimeout(() => {
-      const csv = generateSampleCSV();
-      const blob = new Blob([csv], { type: "text/csv" });
-      const file = new File([blob], "sample.csv");
-      parseCSV(file).then((txs) => {
-        processTransactions(txs);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setAnalysisStages({});
+    try {
+      const output = await runAnalysis(store, {
+        config: { ...detectionConfig, score_floor: 0 },
+        entitySettings,
+        profiles: accountProfiles,
+        signal: controller.signal,
+        onProgress: (progress) => setAnalysisStages((prev) => ({ ...prev, [progress.stage]: progress })),
+      });
+      setEvaluationResult(output.result);
+    } catch (err) {
+      if ((err as Error).name !== "AbortError") {
+        toast({ title: "Error", description: (err as Error).message || "Evaluation failed", variant: "destructive" });
+      }
+    } finally {
+      analysisAbortRef.current = null;
+      setAnalysisStages(null);
+      setIsProcessing(false);
+    }
+  }, [store, detectionConfig, entitySettings, accountProfiles, toast]);
+
+  const handleApplyFloor = useCallback(
+    (floor: number) => {
+      setDetectionConfig((config) => ({ ...config, score_floor: floor }));
+      toast({ title: "Score Floor Updated", description: `Accounts scoring ${floor} or more will be reported after a re-run.` });
+    },
+    [toast]
+  );
+
+  const handleRerun = useCallback(() => {
+    if (!store || !origin) return;
+    processTransactions(
+      store,
+      origin,
+      "Analysis Complete",
+      `Re-ran ${store.length} transactions with the current detection settings.`
+    );
+  }, [store, origin, processTransactions]);
+
+  // Open the case in the URL; leaving a case URL clears the workspace
+  useEffect(() => {
+    if (!caseId) {
+      if (loadedCaseIdRef.current) resetWorkspace();
+      return;
+    }
+    if (loadedCaseIdRef.current === caseId) return;
+    let cancelled = false;
+    setIsProcessing(true);
+    Promise.all([getCase(caseId), getCaseWorkflow(caseId), getCaseLayout(caseId)])
+      .then(([c, caseWorkflow, caseLayout]) => {
+        if (cancelled) return;
+        if (!c) {
+          toast({ title: "Case Not Found", description: "It may have been deleted.", variant: "destructive" });
+          navigate("/", { replace: true });
+          return;
+        }
+        loadedCaseIdRef.current = c.id;
+        const { store: caseStore, currency, config, result: caseResult, entity_settings, profiles, ...summary } = c;
+        const graph = buildGraphData(caseStore, caseResult, profiles);
+        setDetectionConfig(resolveDetectionConfig(config));
+        setCurrencySettings(currency);
+        setEntitySettings(entity_settings ?? DEFAULT_ENTITY_SETTINGS);
+        setAccountProfiles(profiles ?? []);
+        setGroundTruth(null);
+        setEvaluationResult(null);
+        startTransition(() => {
+          setStore(caseStore);
+          setResult(caseResult);
+          setGraphNodes(graph.nodes);
+          setGraphEdgeRows(graph.edges);
+          setEvidenceSubject(null);
+          setFocusedRingId(null);
+          setEgoNetwork(null);
+          setTraceSource(null);
+          setTimeWindow(null);
+          setPlayhead(null);
+          setOrigin({ source: summary.source_file, currency, caseId: summary.id });
+          setActiveCase(summary);
+          setWorkflow(caseWorkflow);
+          setGraphLayout(caseLayout ?? { ...createGraphLayout(), id: c.id });
+        });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        toast({ title: "Error", description: (err as Error).message || "Failed to open case", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId, navigate, resetWorkspace, toast]);
+
+  const handleLayoutChange = useCallback((layout: GraphLayout) => {
+    setGraphLayout((prev) => ({ ...layout, id: prev.id }));
+  }, []);
+
+  // Laid-out graphs of saved cases are stored whenever the arrangement changes
+  useEffect(() => {
+    if (!graphLayout.id || Object.keys(graphLayout.positions).length === 0) return;
+    saveCaseLayout(graphLayout).catch((err) =>
+      toast({
+        title: "Layout Not Saved",
+        description: (err as Error).message || "The graph layout could not be stored.",
+        variant: "destructive",
+      })
+    );
+  }, [graphLayout, toast]);
+
+  const warnInvalidConfig = useCallback(() => {
+    toast({
+      title: "Invalid Detection Settings",
+      description: "Fix the highlighted detection settings before running an analysis.",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+  }, []);
+
+  const ingestFile = useCallback(
+    async (file: File, mapping: ColumnMapping, profileName?: string) => {
+      setIsProcessing(true);
+      // Labels belong to the dataset they came with
+      setGroundTruth(null);
+      const controller = new AbortController();
+      ingestAbortRef.current = controller;
+      setIngestion({
+        fileName: file.name,
+        progress: { bytes_read: 0, total_bytes: file.size, accepted_rows: 0, rejected_rows: 0 },
+      });
+      let parsed: ParseResult;
+      try {
+        parsed = await parseCSV(file, mapping, {
+          signal: controller.signal,
+          currency: currencySettings,
+          onProgress: (progress) => setIngestion({ fileName: file.name, progress }),
+        });
+        setPendingUpload(null);
+      } catch (err) {
+        if ((err as Error).name === "AbortError") {
+          toast({ title: "Import Cancelled", description: `Stopped reading ${file.name}.` });
+          return;
+        }
+        toast({
+          title: "Error",
+          description: (err as Error).message || "Failed to parse CSV",
+          variant: "destructive",
+        });
+        return;
+      } finally {
+        ingestAbortRef.current = null;
+        setIngestion(null);
         setIsProcessing(false);
+      }
+
+      // Any rejected row must be reviewed before the analysis runs; with nothing accepted the review is all there is
+      const fileOrigin: AnalysisOrigin = { source: describeSourceFile(file), currency: currencySettings };
+      if (parsed.report.rejected_rows.length > 0 || parsed.store.length === 0) {
+        setPendingReview({ ...parsed, origin: fileOrigin });
+        return;
+      }
+      await processTransactions(
+        parsed.store,
+        fileOrigin,
+        "Analysis Complete",
+        profileName
+          ? `Processed ${parsed.store.length} transactions using mapping profile "${profileName}".`
+          : `Processed ${parsed.store.length} transactions successfully.`
+      );
+    },
+    [processTransactions, currencySettings, toast]
+  );
+
+  const handleCancelIngestion = useCallback(() => {
+    ingestAbortRef.current?.abort();
+  }, []);
+
+  // Detect headers first; only ask the analyst to map columns when neither the
+  // canonical names nor a saved profile cover this export
+  const handleFileSelect = useCallback(
+    async (file: File) => {
+      if (!configValid) {
+        warnInvalidConfig();
+        return;
+      }
+      let preview: CSVPreview;
+      try {
+        preview = await readCSVPreview(file);
+      } catch (err) {
         toast({
-          title: "Demo Data Loaded",
-          description: `Loaded ${txs.length} sample transactions with embedded fraud patterns.`,
+          title: "Error",
+          description: (err as Error).message || "Failed to read CSV",
+          variant: "destructive",
         });
-      });
-    }, 500);
-  }, [processTransactions, toast]);
+        return;
+      }
+      if (isMappingComplete(DEFAULT_COLUMN_MAPPING, preview.headers)) {
+        await ingestFile(file, DEFAULT_COLUMN_MAPPING);
+        return;
+      }
+      const profile = findMatchingProfile(preview.headers, loadMappingProfiles());
+      if (profile && isMappingComplete(profile.mapping, preview.headers)) {
+        await ingestFile(file, profile.mapping, profile.name);
+        return;
+      }
+      setPendingUpload({ file, preview });
+    },
+    [ingestFile, configValid, warnInvalidConfig, toast]
+  );
+
+  const handleReviewContinue = useCallback(() => {
+    if (!pendingReview || pendingReview.store.length === 0) return;
+    setPendingReview(null);
+    processTransactions(
+      pendingReview.store,
+      pendingReview.origin,
+      "Analysis Complete",
+      `Processed ${pendingReview.report.accepted_rows} transactions; ${pendingReview.report.rejected_rows.length} rows rejected.`
+    );
+  }, [pendingReview, processTransactions]);
+
+  const handleDownloadRejects = useCallback(() => {
+    if (!pendingReview) return;
+    const baseName = pendingReview.report.file_name.replace(/\.csv$/i, "");
+    downloadFile(buildRejectsCSV(pendingReview.report), `${baseName}_rejects.csv`, "text/csv");
+  }, [pendingReview]);
+
+  const loadSynthetic = useCallback(
+    async (config: SyntheticConfig) => {
+      if (!configValid) {
+        warnInvalidConfig();
+        return;
+      }
+      setIsProcessing(true);
+      try {
+        const dataset = await generateDataset(config);
+        const file = new File([dataset.csv], `synthetic_${config.seed}.csv`, { type: "text/csv" });
+        const { store: sampleStore, report } = await parseCSV(file, undefined, { currency: currencySettings });
+        if (sampleStore.length === 0) {
+          throw new Error(`All ${report.total_rows} generated rows were rejected.`);
+        }
+        setGroundTruth(dataset.labels);
+        const mules = dataset.labels.filter((l) => l.is_mule).length;
+        await processTransactions(
+          sampleStore,
+          { source: describeSourceFile(file), currency: currencySettings },
+          "Demo Data Loaded",
+          `Loaded ${sampleStore.length} synthetic transactions (seed ${config.seed}) with ${mules} labelled mule accounts.`
+        );
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: (err as Error).message || "Synthetic data could not be loaded",
+          variant: "destructive",
+        });
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [processTransactions, currencySettings, configValid, warnInvalidConfig, toast]
+  );
+
+  // The quick demo draws a fresh seed each time; the synthetic panel pins one
+  const handleLoadSample = useCallback(() => loadSynthetic(getDefaultSyntheticConfig()), [loadSynthetic]);
+
+  const showEvidence = useCallback((subject: EvidenceSubject) => {
+    setEvidenceSubject(subject);
+    setActiveTab("evidence");
+  }, []);
+
+  const focusRing = useCallback((ringId: string) => {
+    setEgoNetwork(null);
+    setFocusedRingId(ringId);
+    setActiveTab("graph");
+  }, []);
+
+  const exploreAccount = useCallback((accountId: string) => {
+    setFocusedRingId(null);
+    setEgoNetwork(createEgoNetwork(accountId));
+    setActiveTab("graph");
+  }, []);
+
+  const startTrace = useCallback((source: TraceSource) => {
+    setTraceSource(source);
+    setActiveTab("tracing");
+  }, []);
+
+  const handleWindowChange = useCallback((next: TimeWindow | null) => {
+    setTimeWindow(next);
+    setPlayhead(null);
+  }, []);
+
+  // Edge objects are built here from the page's store, never copied over from the worker
+  const graphEdges = useMemo(
+    () => (store && graphEdgeRows ? expandGraphEdges(store, graphEdgeRows) : []),
+    [store, graphEdgeRows]
+  );
+
+  const timeline = useMemo(() => {
+    const windowEdges = visibleEdges(graphEdges, timeWindow, null);
+    return { bounds: timeBounds(graphEdges), windowEdges, times: transferTimes(windowEdges, null) };
+  }, [graphEdges, timeWindow]);
+
+  // Accounts without a transfer in the window drop out of the graph
+  const shownNodes = useMemo(() => {
+    if (!timeWindow) return graphNodes;
+    const active = new Set(timeline.windowEdges.flatMap((e) => [e.source, e.target]));
+    return graphNodes.filter((n) => active.has(n.id));
+  }, [graphNodes, timeWindow, timeline]);
+
+  const shownEdges = useMemo(
+    () => (playhead === null ? timeline.windowEdges : visibleEdges(timeline.windowEdges, null, playhead)),
+    [timeline, playhead]
+  );
+
+  const playback = useMemo(() => {
+    if (playhead === null) return null;
+    const latest = shownEdges.filter((e) => e.timestamp.getTime() === playhead);
+    return { balances: runningBalances(shownEdges), recent: new Set(latest.flatMap((e) => [e.source, e.target])) };
+  }, [shownEdges, playhead]);
+
+  const shownResult = useMemo(
+    () => (result && timeWindow ? filterResultByWindow(result, timeWindow) : result),
+    [result, timeWindow]
+  );
+
+  const handleAnalystChange = useCallback((name: string) => {
+    setAnalyst(name);
+    saveAnalystName(name);
+  }, []);
+
+  const handleDisposition = useCallback(
+    (change: Omit<Disposition, "updated_at">) => {
+      if (!triageAccount) return;
+      const next = applyDisposition(workflow, triageAccount.account_id, change, analyst.trim());
+      setWorkflow(next);
+      setTriageAccount(null);
+      // Unsaved analyses (no case id) keep triage in memory only
+      if (next.id) {
+        saveCaseWorkflow(next).catch((err) =>
+          toast({
+            title: "Disposition Not Saved",
+            description: (err as Error).message || "The change could not be stored.",
+            variant: "destructive",
+          })
+        );
+      }
+    },
+    [triageAccount, workflow, analyst, toast]
+  );
 
   const handleDownloadJSON = useCallback(() => {
     if (!result) return;
-    const blob = new Blob([JSON.stringify(result, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "forensics_report.json";
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [result]);
+    const report = { ...result, dispositions: workflow.dispositions, audit_trail: workflow.audit_trail };
+    downloadFile(JSON.stringify(report, null, 2), "forensics_report.json", "application/json");
+  }, [result, workflow]);
+
+  // The tables only list detections with evidence inside the timeline window
+  const windowNotice = timeWindow && (
+    <div className="flex items-center justify-between gap-3 bg-primary/10 border border-primary/30 rounded-lg px-4 py-2 text-xs">
+      <span className="text-foreground">
+        Detections with activity between {new Date(timeWindow.start).toLocaleString()} and{" "}
+        {new Date(timeWindow.end).toLocaleString()}
+      </span>
+      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleWindowChange(null)}>
+        Clear window
+      </Button>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -99,6 +642,10 @@ const Index = () => {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <Button size="sm" variant="ghost" onClick={() => navigate("/cases")} className="gap-2 text-xs">
+              <FolderOpen className="w-3.5 h-3.5" />
+              Cases
+            </Button>
             {result && (
               <Button size="sm" variant="outline" onClick={handleDownloadJSON} className="gap-2 text-xs">
                 <Download className="w-3.5 h-3.5" />
@@ -138,7 +685,54 @@ const Index = () => {
                 </p>
               </div>
 
-              <FileUpload onFileSelect={handleFileSelect} isProcessing={isProcessing} />
+              {analysisStages ? (
+                <AnalysisProgressPanel stages={analysisStages} onCancel={handleCancelAnalysis} />
+              ) : ingestion ? (
+                <IngestionProgressPanel
+                  fileName={ingestion.fileName}
+                  progress={ingestion.progress}
+                  onCancel={handleCancelIngestion}
+                />
+              ) : pendingReview ? (
+                <IngestionReportPanel
+                  report={pendingReview.report}
+                  onContinue={handleReviewContinue}
+                  onCancel={() => setPendingReview(null)}
+                  onDownloadRejects={handleDownloadRejects}
+                />
+              ) : pendingUpload ? (
+                <ColumnMappingPanel
+                  fileName={pendingUpload.file.name}
+                  preview={pendingUpload.preview}
+                  onConfirm={(mapping) => ingestFile(pendingUpload.file, mapping)}
+                  onCancel={() => setPendingUpload(null)}
+                />
+              ) : (
+                <FileUpload onFileSelect={handleFileSelect} isProcessing={isProcessing} />
+              )}
+
+              <CurrencySettingsPanel
+                settings={currencySettings}
+                onChange={setCurrencySettings}
+                disabled={isProcessing}
+              />
+
+              <DetectionSettingsPanel
+                config={detectionConfig}
+                onChange={setDetectionConfig}
+                disabled={isProcessing}
+              />
+
+              <EntityResolutionPanel settings={entitySettings} onChange={setEntitySettings} disabled={isProcessing} />
+
+              <AccountProfilesPanel profiles={accountProfiles} onChange={setAccountProfiles} disabled={isProcessing} />
+
+              <SyntheticDataPanel
+                config={syntheticConfig}
+                onChange={setSyntheticConfig}
+                onGenerate={() => loadSynthetic(syntheticConfig)}
+                disabled={isProcessing}
+              />
 
               <div className="flex justify-center">
                 <Button
@@ -159,12 +753,12 @@ const Index = () => {
                   {
                     icon: BarChart3,
                     title: "Cycle Detection",
-                    desc: "Identifies circular fund routing patterns of length 3-5 hops between accounts.",
+                    desc: "Identifies time-ordered circular fund routing of 3-5 hops, tracing the actual transfer chain.",
                   },
                   {
                     icon: FileText,
                     title: "Smurfing Analysis",
-                    desc: "Detects fan-in/fan-out patterns within 72-hour windows for structuring behavior.",
+                    desc: "Groups each aggregator hub with its sources and onward targets within 72-hour windows.",
                   },
                   {
                     icon: BookOpen,
@@ -199,6 +793,10 @@ const Index = () => {
                   <div>TXN_00001,ACC_00123,ACC_00456,2500.00,2024-06-01 08:30:00</div>
                   <div>TXN_00002,ACC_00456,ACC_00789,1200.50,2024-06-01 09:15:00</div>
                 </div>
+                <p className="text-[11px] text-muted-foreground mt-2">
+                  Exports with different header names can be mapped after upload and saved as a reusable profile.
+                  An optional currency column is converted to the reporting currency using the FX rate table.
+                </p>
               </motion.div>
             </motion.div>
           ) : (
@@ -211,9 +809,11 @@ const Index = () => {
               {/* Top bar */}
               <div className="flex items-center justify-between">
                 <div>
-                  <h2 className="text-xl font-bold text-foreground">Analysis Results</h2>
+                  <h2 className="text-xl font-bold text-foreground">{activeCase?.name ?? "Analysis Results"}</h2>
                   <p className="text-xs text-muted-foreground font-mono">
-                    {transactions.length} transactions • {result.summary.total_accounts_analyzed} accounts
+                    {origin ? `${origin.source.name} • ` : ""}
+                    {store?.length ?? 0} transactions • {result.summary.total_accounts_analyzed}{" "}
+                    {result.analysis_level === "entity" ? "entities and accounts" : "accounts"}
                   </p>
                 </div>
                 <div className="flex gap-2">
@@ -221,11 +821,10 @@ const Index = () => {
                     variant="ghost"
                     size="sm"
                     onClick={() => {
-                      setResult(null);
-                      setTransactions([]);
-                      setGraphNodes([]);
-                      setGraphEdges([]);
+                      resetWorkspace();
+                      navigate("/");
                     }}
+                    disabled={isProcessing}
                     className="text-xs"
                   >
                     New Analysis
@@ -237,13 +836,36 @@ const Index = () => {
                 </div>
               </div>
 
+              {analysisStages && <AnalysisProgressPanel stages={analysisStages} onCancel={handleCancelAnalysis} />}
+
+              <DetectionSettingsPanel
+                config={detectionConfig}
+                onChange={setDetectionConfig}
+                disabled={isProcessing}
+                onApply={handleRerun}
+              />
+
+              <EntityResolutionPanel
+                settings={entitySettings}
+                onChange={setEntitySettings}
+                disabled={isProcessing}
+                onApply={handleRerun}
+              />
+
+              <AccountProfilesPanel
+                profiles={accountProfiles}
+                onChange={setAccountProfiles}
+                disabled={isProcessing}
+                onApply={handleRerun}
+              />
+
               <DashboardStats summary={result.summary} />
 
               <RiskScoreHistogram accounts={result.suspicious_accounts} />
 
               <PatternBreakdownChart breakdown={result.summary.pattern_breakdown} />
 
-              <Tabs defaultValue="graph" className="w-full">
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
                 <TabsList className="bg-card border border-border">
                   <TabsTrigger value="graph" className="text-xs gap-1.5">
                     <Network className="w-3.5 h-3.5" />
@@ -257,18 +879,117 @@ const Index = () => {
                     <BarChart3 className="w-3.5 h-3.5" />
                     Suspicious Accounts
                   </TabsTrigger>
+                  <TabsTrigger value="evidence" className="text-xs gap-1.5">
+                    <FileSearch className="w-3.5 h-3.5" />
+                    Evidence
+                  </TabsTrigger>
+                  <TabsTrigger value="tracing" className="text-xs gap-1.5">
+                    <Route className="w-3.5 h-3.5" />
+                    Fund Tracing
+                  </TabsTrigger>
+                  <TabsTrigger value="evaluation" className="text-xs gap-1.5">
+                    <Gauge className="w-3.5 h-3.5" />
+                    Evaluation
+                  </TabsTrigger>
                 </TabsList>
 
-                <TabsContent value="graph" className="mt-4">
-                  <TransactionGraph nodes={graphNodes} edges={graphEdges} rings={result.fraud_rings} />
+                <TabsContent value="graph" className="mt-4 space-y-4">
+                  <TransactionGraph
+                    nodes={shownNodes}
+                    edges={shownEdges}
+                    rings={shownResult?.fraud_rings ?? []}
+                    currency={result.reporting_currency}
+                    layout={graphLayout}
+                    onLayoutChange={handleLayoutChange}
+                    focusedRingId={focusedRingId}
+                    onFocusRing={setFocusedRingId}
+                    onRingEvidence={(ring) => showEvidence({ kind: "ring", id: ring.ring_id })}
+                    ego={egoNetwork}
+                    onEgoChange={setEgoNetwork}
+                    balances={playback?.balances}
+                    recentAccounts={playback?.recent}
+                    onTraceAccount={(id) => startTrace({ kind: "account", id })}
+                  />
+                  {timeline.bounds && (
+                    <TimelinePanel
+                      bounds={timeline.bounds}
+                      timeWindow={timeWindow}
+                      onWindowChange={handleWindowChange}
+                      times={timeline.times}
+                      playhead={playhead}
+                      onPlayheadChange={setPlayhead}
+                      revealed={shownEdges.length}
+                      total={timeline.windowEdges.length}
+                    />
+                  )}
                 </TabsContent>
 
-                <TabsContent value="rings" className="mt-4">
-                  <FraudRingTable rings={result.fraud_rings} />
+                <TabsContent value="rings" className="mt-4 space-y-4">
+                  {windowNotice}
+                  <FraudRingTable
+                    rings={shownResult?.fraud_rings ?? []}
+                    onRingClick={(ring) => focusRing(ring.ring_id)}
+                  />
                 </TabsContent>
 
                 <TabsContent value="accounts" className="mt-4">
-                  <SuspiciousAccountsTable accounts={result.suspicious_accounts} />
+                  <div className="space-y-4">
+                    {windowNotice}
+                    <SuspiciousAccountsTable
+                      accounts={shownResult?.suspicious_accounts ?? []}
+                      workflow={workflow}
+                      analyst={analyst}
+                      onAnalystChange={handleAnalystChange}
+                      onTriage={setTriageAccount}
+                      onAccountClick={(acc) => showEvidence({ kind: "account", id: acc.account_id })}
+                      onExplore={(acc) => exploreAccount(acc.account_id)}
+                    />
+                    <AuditTrailPanel entries={workflow.audit_trail} />
+                  </div>
+                  {triageAccount && (
+                    <DispositionDialog
+                      account={triageAccount}
+                      current={workflow.dispositions[triageAccount.account_id]}
+                      history={workflow.audit_trail.filter((e) => e.account_id === triageAccount.account_id)}
+                      analyst={analyst}
+                      onSubmit={handleDisposition}
+                      onClose={() => setTriageAccount(null)}
+                    />
+                  )}
+                </TabsContent>
+
+                <TabsContent value="evidence" className="mt-4">
+                  <EvidencePanel
+                    result={result}
+                    edges={graphEdges}
+                    subject={evidenceSubject}
+                    onSubjectChange={setEvidenceSubject}
+                    onTrace={(id) => startTrace({ kind: "transaction", id })}
+                  />
+                </TabsContent>
+
+                <TabsContent value="tracing" className="mt-4">
+                  <FundTracePanel
+                    edges={graphEdges}
+                    currency={result.reporting_currency}
+                    source={traceSource}
+                    onSourceChange={setTraceSource}
+                  />
+                </TabsContent>
+
+                <TabsContent value="evaluation" className="mt-4">
+                  <EvaluationPanel
+                    labels={groundTruth}
+                    onLabelsChange={(labels) => {
+                      setGroundTruth(labels);
+                      setEvaluationResult(null);
+                    }}
+                    evaluation={evaluationResult}
+                    onEvaluate={handleEvaluate}
+                    scoreFloor={detectionConfig.score_floor ?? DEFAULT_SCORE_FLOOR}
+                    onApplyFloor={handleApplyFloor}
+                    disabled={isProcessing}
+                  />
                 </TabsContent>
               </Tabs>
             </motion.div>
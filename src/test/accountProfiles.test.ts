@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { buildProfileIndex, parseAccountProfiles } from "@/lib/accountProfiles";
+import { analyzeTransactions } from "@/lib/graphAnalysis";
+import { AccountProfile, Transaction } from "@/lib/types";
+
+function tx(transaction_id: string, sender_id: string, receiver_id: string, hour: number): Transaction {
+  return { transaction_id, sender_id, receiver_id, amount: 20000, timestamp: new Date(Date.UTC(2024, 0, 1, hour)) };
+}
+
+const transactions = [tx("T1", "A", "B", 1), tx("T2", "B", "C", 2), tx("T3", "C", "A", 3)];
+
+function factors(profiles: AccountProfile[], account: string): Record<string, number> {
+  const result = analyzeTransactions(transactions, { profiles });
+  const sa = result.suspicious_accounts.find((a) => a.account_id === account)!;
+  return Object.fromEntries(sa.score_contributions.map((c) => [c.factor, c.points]));
+}
+
+describe("account profiles", () => {
+  it("parses a customer master file, leaving out unreadable values", async () => {
+    const file = new File(
+      [
+        "Account ID,Opening Date,Segment,Income,Country,Risk\n",
+        "A,2023-12-20,Individual,\"$45,000\",gb,H\n",
+        "B,not a date,unknown,n/a,,9\n",
+        ",2023-01-01,retail,1,,low\n",
+      ],
+      "profiles.csv"
+    );
+    expect(await parseAccountProfiles(file)).toEqual([
+      { account_id: "A", opened_at: "2023-12-20", customer_type: "retail", declared_income: 45000, country: "GB", risk_rating: "high" },
+      { account_id: "B" },
+    ]);
+    await expect(parseAccountProfiles(new File(["name\nx\n"], "bad.csv"))).rejects.toThrow("needs an account_id column");
+  });
+
+  it("adds the new-account, income and risk factors from the profile", () => {
+    const profile: AccountProfile = { account_id: "A", opened_at: "2023-12-20", declared_income: 10000, risk_rating: "high", country: "GB" };
+    const withProfile = factors([profile], "A");
+    const without = factors([], "A");
+    expect(withProfile).toEqual({ ...without, new_account_throughput: 10, income_mismatch: 15, high_risk_rating: 5 });
+    // Other accounts are scored as before
+    expect(factors([profile], "B")).toEqual(factors([], "B"));
+  });
+
+  it("leaves out factors the profile does not support", () => {
+    const settled: AccountProfile = { account_id: "A", opened_at: "2020-01-01", declared_income: 1e7, risk_rating: "low" };
+    expect(factors([settled], "A")).toEqual(factors([], "A"));
+    // Inflow at three to ten times the declared income scores the lower step
+    expect(factors([{ account_id: "A", declared_income: 60000 }], "A").income_mismatch).toBe(10);
+  });
+
+  it("combines member profiles for a merged entity", () => {
+    const index = buildProfileIndex(
+      [
+        { account_id: "A", opened_at: "2023-05-01", declared_income: 1000, risk_rating: "medium" },
+        { account_id: "B", opened_at: "2022-01-01", declared_income: 500, risk_rating: "high", country: "FR" },
+        { account_id: "C", customer_type: "business" },
+      ],
+      [{ entity_id: "ENT_001", accounts: ["A", "B"], reasons: [] }]
+    );
+    expect(index.get("ENT_001")).toEqual({
+      account_id: "ENT_001",
+      opened_at: "2022-01-01",
+      declared_income: 1500,
+      risk_rating: "high",
+      country: "FR",
+    });
+    expect(index.get("C")).toEqual({ account_id: "C", customer_type: "business" });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { runAnalysis } from "@/lib/analysisClient";
+import { analyzeTransactions, expandGraphEdges, getAnalysisStages } from "@/lib/graphAnalysis";
+import { resolveEntities } from "@/lib/entityResolution";
+import { storeFromTransactions } from "@/lib/transactionStore";
+import { AnalysisProgress, Transaction } from "@/lib/types";
+
+function tx(transaction_id: string, sender_id: string, receiver_id: string, hour: number): Transaction {
+  return { transaction_id, sender_id, receiver_id, amount: 1000, timestamp: new Date(Date.UTC(2024, 0, 1, hour)) };
+}
+
+const transactions = [tx("T1", "A", "B", 1), tx("T2", "B", "C", 2), tx("T3", "C", "A", 3)];
+
+// jsdom has no Worker, so these exercise the inline path the worker shares
+describe("analysis client", () => {
+  it("reports every stage in order, each ending once at 100%", async () => {
+    const progress: AnalysisProgress[] = [];
+    await runAnalysis(storeFromTransactions(transactions), { onProgress: (p) => progress.push(p) });
+    const finished = progress.filter((p) => p.done);
+    expect(finished.map((p) => p.stage)).toEqual(getAnalysisStages().map((s) => s.id));
+    expect(finished.every((p) => p.percent === 100)).toBe(true);
+    for (const stage of getAnalysisStages()) {
+      const percents = progress.filter((p) => p.stage === stage.id && !p.done).map((p) => p.percent);
+      expect(percents).toEqual([...percents].sort((a, b) => a - b));
+      expect(new Set(percents).size).toBe(percents.length);
+    }
+  });
+
+  it("returns the same result as analysing the transactions directly, with the graph", async () => {
+    const store = storeFromTransactions(transactions, "EUR");
+    const { result, nodes, edges } = await runAnalysis(store);
+    const direct = analyzeTransactions(transactions, { reportingCurrency: "EUR" });
+    expect(result.reporting_currency).toBe("EUR");
+    expect(result.suspicious_accounts).toEqual(direct.suspicious_accounts);
+    expect(result.fraud_rings).toEqual(direct.fraud_rings);
+    expect(nodes.map((n) => n.id).sort()).toEqual(["A", "B", "C"]);
+    expect(Array.from(edges.rows)).toEqual([0, 1, 2]);
+    expect(expandGraphEdges(store, edges).map((e) => e.transactionId)).toEqual(["T1", "T2", "T3"]);
+  });
+
+  it("draws merged accounts as their entity and leaves out moves inside it", async () => {
+    const resolution = resolveEntities([
+      { account_id: "A", device: "d-1" },
+      { account_id: "B", device: "d-1" },
+    ]);
+    const store = storeFromTransactions([...transactions, tx("T4", "B", "A", 4)]);
+    const { nodes, edges } = await runAnalysis(store, { entitySettings: { resolution, level: "entity" } });
+    expect(nodes.map((n) => n.id).sort()).toEqual(["C", "ENT_001"]);
+    // Edges come back as store rows, not objects
+    expect(Array.from(edges.rows)).toEqual([1, 2]);
+    expect(expandGraphEdges(store, edges).map((e) => [e.transactionId, e.source, e.target])).toEqual([
+      ["T2", "ENT_001", "C"],
+      ["T3", "C", "ENT_001"],
+    ]);
+    expect(nodes.find((n) => n.id === "ENT_001")).toMatchObject({
+      totalSent: 1000,
+      transactionCount: 2,
+      originalTotals: { USD: { sent: 1000, received: 1000 } },
+    });
+  });
+
+  it("rejects a cancelled run before it starts", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runAnalysis(storeFromTransactions(transactions), { signal: controller.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+  });
+});
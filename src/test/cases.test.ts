@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { analyzeTransactions } from "@/lib/graphAnalysis";
+import { getDefaultDetectionConfig } from "@/lib/detectionConfig";
+import { createGraphLayout } from "@/lib/graphLayout";
+import { applyDisposition } from "@/lib/disposition";
+import { storeFromTransactions, storeToTransactions } from "@/lib/transactionStore";
+import { CaseData, Transaction } from "@/lib/types";
+
+type CasesModule = typeof import("@/lib/cases");
+
+function tx(transaction_id: string, sender_id: string, receiver_id: string, hour: number): Transaction {
+  return { transaction_id, sender_id, receiver_id, amount: 1000, timestamp: new Date(Date.UTC(2024, 0, 1, hour)) };
+}
+
+const transactions = [tx("T1", "A", "B", 1), tx("T2", "B", "C", 2), tx("T3", "C", "A", 3), tx("T4", "X", "Y", 4)];
+const source = { name: "export.csv", size: 120, last_modified: "2024-01-02T00:00:00.000Z" };
+
+function payload(): Omit<CaseData, "id"> {
+  const config = getDefaultDetectionConfig();
+  return {
+    store: storeFromTransactions(transactions),
+    currency: { reporting_currency: "USD", fx_rates: [] },
+    config,
+    result: analyzeTransactions(transactions, { config }),
+  };
+}
+
+// Number of records each object store holds for one case id, read straight from the database
+async function recordsFor(id: string): Promise<Record<string, number>> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open("forensics", 3);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const names = Array.from(db.objectStoreNames);
+  const tx = db.transaction(names);
+  const counts = await Promise.all(
+    names.map(
+      (name) =>
+        new Promise<number>((resolve, reject) => {
+          const request = tx.objectStore(name).count(id);
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    )
+  );
+  db.close();
+  return Object.fromEntries(names.map((name, i) => [name, counts[i]]));
+}
+
+describe("case storage", () => {
+  let cases: CasesModule;
+
+  // A fresh database and a fresh module (which caches its connection) for every test
+  beforeEach(async () => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+    vi.resetModules();
+    cases = await import("@/lib/cases");
+    return () => vi.unstubAllGlobals();
+  });
+
+  it("records the name, size and modification time of the source file", () => {
+    const file = new File(["a,b\n1,2\n"], "export.csv", { lastModified: Date.UTC(2024, 2, 1) });
+    expect(cases.describeSourceFile(file)).toEqual({
+      name: "export.csv",
+      size: 8,
+      last_modified: "2024-03-01T00:00:00.000Z",
+    });
+  });
+
+  it("explains why cases cannot be stored when IndexedDB is missing", async () => {
+    vi.stubGlobal("indexedDB", undefined);
+    await expect(cases.listCases()).rejects.toThrow("This browser cannot store cases (IndexedDB unavailable).");
+  });
+
+  it("reopens a saved case with its transactions, settings and result", async () => {
+    const saved = payload();
+    const summary = await cases.createCase("Loop review", source, saved);
+    expect(summary).toMatchObject({
+      name: "Loop review",
+      source_file: source,
+      transaction_count: 4,
+      suspicious_accounts: saved.result.suspicious_accounts.length,
+      fraud_rings: saved.result.fraud_rings.length,
+    });
+    expect(await cases.listCases()).toEqual([summary]);
+
+    const reopened = await cases.getCase(summary.id);
+    expect(reopened).toMatchObject({ ...summary, currency: saved.currency, config: saved.config, result: saved.result });
+    expect(storeToTransactions(reopened!.store)).toEqual(storeToTransactions(saved.store));
+    // Only the used part of each column is stored
+    expect(reopened!.store.amounts.length).toBe(4);
+    expect(await cases.getCase("missing")).toBeUndefined();
+  });
+
+  it("renames a case without touching its data", async () => {
+    const summary = await cases.createCase("Draft", source, payload());
+    await cases.renameCase(summary.id, "Escalated loop");
+    const renamed = await cases.getCaseSummary(summary.id);
+    expect(renamed).toMatchObject({ id: summary.id, name: "Escalated loop", transaction_count: 4 });
+    expect(renamed!.updated_at >= summary.updated_at).toBe(true);
+    await expect(cases.renameCase("missing", "x")).rejects.toThrow("Case not found");
+  });
+
+  it("duplicates a case under a new id with its data, workflow and layout", async () => {
+    const original = await cases.createCase("Loop review", source, payload());
+    const workflow = applyDisposition(
+      await cases.getCaseWorkflow(original.id),
+      "A",
+      { state: "escalated", assignee: "kim", note: "" },
+      "lee"
+    );
+    await cases.saveCaseWorkflow(workflow);
+    await cases.saveCaseLayout({ ...createGraphLayout(), positions: { A: { x: 1, y: 2 } }, id: original.id });
+
+    const copy = await cases.duplicateCase(original.id);
+    expect(copy.id).not.toBe(original.id);
+    expect(copy.name).toBe("Loop review (copy)");
+    const [a, b] = await Promise.all([cases.getCase(original.id), cases.getCase(copy.id)]);
+    expect(b!.result).toEqual(a!.result);
+    expect(storeToTransactions(b!.store)).toEqual(storeToTransactions(a!.store));
+    expect(await cases.getCaseWorkflow(copy.id)).toEqual({ ...workflow, id: copy.id });
+    expect((await cases.getCaseLayout(copy.id))!.positions).toEqual({ A: { x: 1, y: 2 } });
+
+    // The copy is independent of the original
+    await cases.saveCaseWorkflow({ ...workflow, id: copy.id, dispositions: {} });
+    expect((await cases.getCaseWorkflow(original.id)).dispositions.A.state).toBe("escalated");
+    await expect(cases.duplicateCase("missing")).rejects.toThrow("Case not found");
+  });
+
+  it("deletes a case from every store", async () => {
+    const summary = await cases.createCase("Loop review", source, payload());
+    const other = await cases.createCase("Other", source, payload());
+    await cases.saveCaseWorkflow({ ...(await cases.getCaseWorkflow(summary.id)), audit_trail: [] });
+    await cases.saveCaseLayout({ ...createGraphLayout(), id: summary.id });
+    expect(await recordsFor(summary.id)).toEqual({ case_data: 1, case_layout: 1, case_workflow: 1, cases: 1 });
+
+    await cases.deleteCase(summary.id);
+    expect(await recordsFor(summary.id)).toEqual({ case_data: 0, case_layout: 0, case_workflow: 0, cases: 0 });
+    expect((await cases.listCases()).map((c) => c.id)).toEqual([other.id]);
+    expect(await cases.getCaseLayout(summary.id)).toBeUndefined();
+  });
+});
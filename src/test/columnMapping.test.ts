@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_COLUMN_MAPPING,
+  deleteMappingProfile,
+  findMatchingProfile,
+  guessColumnMapping,
+  isMappingComplete,
+  loadMappingProfiles,
+  saveMappingProfile,
+} from "@/lib/columnMapping";
+import { MappingProfile } from "@/lib/types";
+
+const SEPA_HEADERS = ["EndToEndId", "Debtor IBAN", "Creditor IBAN", "Instructed Amount", "Booking Date", "Ccy"];
+
+function profile(name: string, headers: string[], mapping = DEFAULT_COLUMN_MAPPING): MappingProfile {
+  return { name, headers, mapping, updated_at: "2024-01-01T00:00:00.000Z" };
+}
+
+describe("column mapping", () => {
+  afterEach(() => localStorage.clear());
+
+  it("guesses bank export headers by alias", () => {
+    expect(guessColumnMapping(SEPA_HEADERS)).toEqual({
+      transaction_id: "EndToEndId",
+      sender_id: "Debtor IBAN",
+      receiver_id: "Creditor IBAN",
+      amount: "Instructed Amount",
+      timestamp: "Booking Date",
+      currency: "Ccy",
+    });
+    expect(isMappingComplete(guessColumnMapping(SEPA_HEADERS), SEPA_HEADERS)).toBe(true);
+  });
+
+  it("gives each header to one field and prefers the more specific alias", () => {
+    const mapping = guessColumnMapping(["id", "from", "to", "amount", "time", "date"]);
+    expect(mapping).toMatchObject({ transaction_id: "id", sender_id: "from", receiver_id: "to", timestamp: "date" });
+    expect(mapping.currency).toBeUndefined();
+    expect(new Set(Object.values(mapping)).size).toBe(Object.values(mapping).length);
+  });
+
+  it("requires every required field on its own column", () => {
+    const headers = Object.values(DEFAULT_COLUMN_MAPPING).filter((h) => h !== "currency");
+    expect(isMappingComplete(DEFAULT_COLUMN_MAPPING, headers)).toBe(true);
+    expect(isMappingComplete({ ...DEFAULT_COLUMN_MAPPING, amount: "nope" }, headers)).toBe(false);
+    expect(isMappingComplete({ ...DEFAULT_COLUMN_MAPPING, receiver_id: "sender_id" }, headers)).toBe(false);
+  });
+
+  it("finds a saved profile by identical headers first, then by fit", () => {
+    const headers = Object.values(DEFAULT_COLUMN_MAPPING);
+    const loose = profile("loose", ["unrelated"]);
+    const exact = profile("exact", [...headers].reverse());
+    expect(findMatchingProfile(headers, [loose, exact])).toBe(exact);
+    expect(findMatchingProfile(headers, [loose])).toBe(loose);
+    expect(findMatchingProfile(["a", "b"], [loose, exact])).toBeUndefined();
+  });
+
+  it("saves, replaces and deletes profiles by name", () => {
+    saveMappingProfile(profile("bank", ["a"]));
+    saveMappingProfile(profile("other", ["b"]));
+    expect(saveMappingProfile(profile("bank", ["c"])).map((p) => [p.name, p.headers[0]])).toEqual([
+      ["other", "b"],
+      ["bank", "c"],
+    ]);
+    expect(deleteMappingProfile("other").map((p) => p.name)).toEqual(["bank"]);
+    expect(loadMappingProfiles().map((p) => p.name)).toEqual(["bank"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildRejectsCSV, parseCSV } from "@/lib/csvParser";
+
+function csvFile(lines: string[], name = "upload.csv"): File {
+  return new File([lines.join("\n")], name, { type: "text/csv" });
+}
+
+const HEADER = "transaction_id,sender_id,receiver_id,amount,timestamp";
+
+describe("CSV ingestion", () => {
+  it("rejects each bad row with the first reason that applies", async () => {
+    const { store, report } = await parseCSV(
+      csvFile([
+        `${HEADER},currency`,
+        "T1,A,B,100,2024-01-01,USD",
+        ",A,B,100,2024-01-01,USD",
+        "T2,A,B,50.5,2024-01-02,USD",
+        "T3,A,B,x1,2024-01-02,USD",
+        'T9,A,B,"1,500.00",2024-01-02,USD',
+        "T10,A,B,12abc,2024-01-02,USD",
+        'T11,A,B,"1,50",2024-01-02,USD',
+        "T4,A,B,-5,2024-01-02,USD",
+        "T5,A,B,10,not a date,USD",
+        "T6,C,C,10,2024-01-02,USD",
+        "T1,A,B,10,2024-01-02,USD",
+        "T7,A,B,10,2024-01-02,JPY",
+        "T8,A,B,10,2024-01-02,",
+      ]),
+      undefined,
+      { currency: { reporting_currency: "USD", fx_rates: [] } }
+    );
+    expect(report.rejected_rows.map((r) => [r.row_number, r.reason])).toEqual([
+      [3, "missing_field"],
+      [5, "bad_amount"],
+      [7, "bad_amount"],
+      [8, "bad_amount"],
+      [9, "non_positive_amount"],
+      [10, "bad_date"],
+      [11, "self_transfer"],
+      [12, "duplicate_id"],
+      [13, "missing_fx_rate"],
+    ]);
+    expect(report.rejected_rows[0].detail).toBe("Transaction ID is empty");
+    expect(report.rejected_rows.slice(1, 4).map((r) => r.detail)).toEqual([
+      '"x1" is not a number',
+      '"12abc" is not a number',
+      '"1,50" is not a number',
+    ]);
+    expect(report.rejected_rows[8].detail).toBe("No JPY rate against USD in the FX table");
+    expect(report.reason_counts).toMatchObject({ bad_amount: 3, duplicate_id: 1, missing_fx_rate: 1 });
+    // Thousands separators are read in full; a row without a currency is in the reporting currency
+    expect(store.length).toBe(4);
+    expect(Array.from(store.amounts.subarray(0, 4))).toEqual([100, 50.5, 1500, 10]);
+    expect(report).toMatchObject({ total_rows: 13, accepted_rows: 4 });
+  });
+
+  it("returns the report and an empty store when every row is rejected", async () => {
+    const { store, report } = await parseCSV(
+      csvFile([HEADER, "T1,A,A,100,2024-01-01", "T2,A,B,abc,2024-01-01"])
+    );
+    expect(store.length).toBe(0);
+    expect(report.accepted_rows).toBe(0);
+    expect(report.rejected_rows.map((r) => r.reason)).toEqual(["self_transfer", "bad_amount"]);
+    expect(buildRejectsCSV(report).split("\r\n")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildFxTable, convertAmount, fxBaseCurrency, hasFxRate } from "@/lib/currency";
+import { FxRate } from "@/lib/types";
+
+const JAN = Date.UTC(2024, 0, 1);
+const FEB = Date.UTC(2024, 1, 1);
+
+function rate(time: number, currency: string, value: number): FxRate {
+  return { date: new Date(time), currency, rate: value };
+}
+
+// A EUR-based table: one unit of each currency in euros
+const table = buildFxTable(
+  [rate(JAN, "USD", 0.9), rate(FEB, "USD", 0.8), rate(JAN, "GBP", 1.2), rate(JAN, "eur", 1)],
+  "eur"
+);
+
+describe("FX conversion", () => {
+  it("converts from the base to a quoted reporting currency", () => {
+    expect(convertAmount(table, 90, "EUR", "USD", JAN)).toBeCloseTo(100);
+    // The latest rate on or before the transfer applies
+    expect(convertAmount(table, 80, "EUR", "USD", FEB + 1000)).toBeCloseTo(100);
+  });
+
+  it("converts a quoted currency into the base", () => {
+    expect(convertAmount(table, 100, "USD", "EUR", JAN)).toBeCloseTo(90);
+    expect(convertAmount(table, 100, "GBP", "EUR", JAN)).toBeCloseTo(120);
+  });
+
+  it("crosses two quoted currencies through the base", () => {
+    expect(convertAmount(table, 90, "GBP", "USD", JAN)).toBeCloseTo(120);
+    // Dates before the table use its earliest rate
+    expect(convertAmount(table, 100, "USD", "GBP", JAN - 1000)).toBeCloseTo(75);
+  });
+
+  it("refuses a reporting currency the table cannot reach", () => {
+    expect(hasFxRate(table, "CHF")).toBe(false);
+    expect(convertAmount(table, 100, "EUR", "CHF", JAN)).toBeUndefined();
+    expect(convertAmount(table, 100, "USD", "CHF", JAN)).toBeUndefined();
+    expect(convertAmount(table, 100, "CHF", "CHF", JAN)).toBe(100);
+  });
+
+  it("takes the reporting currency as the base of older settings", () => {
+    expect(fxBaseCurrency({ reporting_currency: "USD", fx_rates: [] })).toBe("USD");
+    expect(fxBaseCurrency({ reporting_currency: "USD", fx_rates: [], fx_base_currency: "EUR" })).toBe("EUR");
+    const legacy = buildFxTable([rate(JAN, "EUR", 1.1)], "USD");
+    expect(convertAmount(legacy, 100, "EUR", "USD", JAN)).toBeCloseTo(110);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Detector, DetectorContext, DetectorParams, defaultParams, pairKey } from "@/lib/detectors";
+import { cycleDetector } from "@/lib/detectors/cycles";
+import { Transaction } from "@/lib/types";
+
+function tx(id: string, sender_id: string, receiver_id: string, amount: number, hour: number): Transaction {
+  return { transaction_id: id, sender_id, receiver_id, amount, timestamp: new Date(Date.UTC(2024, 0, 1, hour)) };
+}
+
+function context(transactions: Transaction[]): DetectorContext {
+  const adj = new Map<string, string[]>();
+  const pairTransactions = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const key = pairKey(t.sender_id, t.receiver_id);
+    if (!pairTransactions.has(key)) {
+      pairTransactions.set(key, []);
+      if (!adj.has(t.sender_id)) adj.set(t.sender_id, []);
+      adj.get(t.sender_id)!.push(t.receiver_id);
+    }
+    pairTransactions.get(key)!.push(t);
+  }
+  return { transactions, adj, pairTransactions } as DetectorContext;
+}
+
+function detect(transactions: Transaction[], params: Partial<DetectorParams> = {}) {
+  const defaults = defaultParams(cycleDetector.configSchema);
+  return (cycleDetector as Detector).run(context(transactions), { ...defaults, ...params }, () => {});
+}
+
+describe("cycle detector", () => {
+  it("finds a loop that only runs in time order from a later member", () => {
+    // In account order A -> B -> C the hours go 5, 1, 3; the money entered at B
+    const output = detect([
+      tx("AB", "A", "B", 90, 5),
+      tx("BC", "B", "C", 100, 1),
+      // Too small to be the same money, so the search has to backtrack past it
+      tx("CA-small", "C", "A", 10, 2),
+      tx("CA", "C", "A", 95, 3),
+    ]);
+    expect(output.rings).toHaveLength(1);
+    expect(output.rings[0].member_accounts).toEqual(["B", "C", "A"]);
+    expect(output.rings[0].transaction_chain).toEqual(["BC", "CA", "AB"]);
+    expect(output.truncated).toBe(false);
+  });
+
+  it("accepts hops at the decay and growth limits and rejects hops beyond them", () => {
+    const loop = (second: number, third: number) => [
+      tx("AB", "A", "B", 100, 1),
+      tx("BC", "B", "C", second, 2),
+      tx("CA", "C", "A", third, 3),
+    ];
+    const params = { maxDecayPct: 20, maxGrowthPct: 5 };
+    expect(detect(loop(80, 84), params).rings).toHaveLength(1);
+    expect(detect(loop(79, 82), params).rings).toHaveLength(0);
+    expect(detect(loop(80, 85), params).rings).toHaveLength(0);
+    // A hop out of order in time breaks the loop whatever the amounts
+    expect(detect([tx("AB", "A", "B", 100, 3), tx("BC", "B", "C", 100, 2), tx("CA", "C", "A", 100, 1)]).rings).toHaveLength(0);
+  });
+
+  it("flags the result as truncated when the chain search runs out of budget", () => {
+    const transactions: Transaction[] = [];
+    for (let i = 0; i < 200; i++) {
+      transactions.push(tx(`AB${i}`, "A", "B", 100, 1), tx(`BC${i}`, "B", "C", 100, 2));
+      // Every closing hop is far outside the decay band
+      transactions.push(tx(`CA${i}`, "C", "A", 1, 3));
+    }
+    const output = detect(transactions);
+    expect(output.rings).toHaveLength(0);
+    expect(output.truncated).toBe(true);
+  });
+});
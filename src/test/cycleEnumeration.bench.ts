@@ -0,0 +1,78 @@
+import { bench, describe } from "vitest";
+import { enumerateCycles, enumeratePaths } from "@/lib/detectors/enumeration";
+import { analyzeTransactions } from "@/lib/graphAnalysis";
+import { Transaction } from "@/lib/types";
+
+// Seeded so every run benchmarks the same graphs
+function lehmer(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 16807) % 2147483647;
+    return s / 2147483647;
+  };
+}
+
+// Random transfer graph with the given account count and average out-degree
+function syntheticTransactions(accounts: number, degree: number, seed = 42): Transaction[] {
+  const random = lehmer(seed);
+  const base = Date.UTC(2024, 0, 1);
+  const transactions: Transaction[] = [];
+  for (let i = 0; i < accounts * degree; i++) {
+    const sender = Math.floor(random() * accounts);
+    let receiver = Math.floor(random() * accounts);
+    if (receiver === sender) receiver = (receiver + 1) % accounts;
+    transactions.push({
+      transaction_id: `TXN_${i}`,
+      sender_id: `ACC_${sender}`,
+      receiver_id: `ACC_${receiver}`,
+      amount: 100 + random() * 9900,
+      timestamp: new Date(base + random() * 30 * 24 * 3600000),
+    });
+  }
+  return transactions;
+}
+
+function adjacency(transactions: Transaction[]): Map<string, string[]> {
+  const adj = new Map<string, string[]>();
+  const seen = new Set<string>();
+  for (const t of transactions) {
+    const key = `${t.sender_id}->${t.receiver_id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (!adj.has(t.sender_id)) adj.set(t.sender_id, []);
+    adj.get(t.sender_id)!.push(t.receiver_id);
+  }
+  return adj;
+}
+
+function activity(transactions: Transaction[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of transactions) {
+    counts.set(t.sender_id, (counts.get(t.sender_id) || 0) + 1);
+    counts.set(t.receiver_id, (counts.get(t.receiver_id) || 0) + 1);
+  }
+  return counts;
+}
+
+const SIZES = [1000, 10000, 50000];
+const OPTIONS = { iterations: 3, warmupIterations: 1, time: 0 };
+
+for (const size of SIZES) {
+  describe(`${size.toLocaleString()} accounts, out-degree 3`, () => {
+    const transactions = syntheticTransactions(size, 3);
+    const adj = adjacency(transactions);
+    const counts = activity(transactions);
+
+    bench("cycle enumeration (3-5 accounts)", () => {
+      enumerateCycles(adj, 3, 5, 20000);
+    }, OPTIONS);
+
+    bench("shell chain enumeration (4-6 accounts)", () => {
+      enumeratePaths(adj, 4, 6, (n) => (counts.get(n) || 0) <= 3, 20000);
+    }, OPTIONS);
+
+    bench("full analysis", () => {
+      analyzeTransactions(transactions);
+    }, OPTIONS);
+  });
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_SCORE_FLOOR,
+  deleteDetectionPreset,
+  getDefaultDetectionConfig,
+  loadDetectionPresets,
+  resolveDetectionConfig,
+  saveDetectionPreset,
+  validateDetectionConfig,
+} from "@/lib/detectionConfig";
+import { getDetectors } from "@/lib/detectors";
+import { DetectionConfig } from "@/lib/types";
+
+function withParams(id: string, params: Record<string, number | number[]>): DetectionConfig {
+  const config = getDefaultDetectionConfig();
+  config.detectors[id] = { ...config.detectors[id], ...params };
+  return config;
+}
+
+describe("detection config", () => {
+  afterEach(() => localStorage.clear());
+
+  it("accepts the registry defaults", () => {
+    const config = getDefaultDetectionConfig();
+    expect(Object.keys(config.detectors)).toEqual(getDetectors().map((d) => d.id));
+    expect(config.score_floor).toBe(DEFAULT_SCORE_FLOOR);
+    expect(validateDetectionConfig(config)).toEqual([]);
+  });
+
+  it("reports out-of-range, fractional and empty values per field", () => {
+    expect(validateDetectionConfig(withParams("cycle", { minLength: 2 }))).toEqual([
+      { detector: "cycle", key: "minLength", message: "Must be at least 3" },
+    ]);
+    expect(validateDetectionConfig(withParams("cycle", { maxDurationHours: 1.5 }))[0].message).toBe("Must be a whole number");
+    expect(validateDetectionConfig(withParams("structuring", { thresholds: [] }))[0]).toEqual({
+      detector: "structuring",
+      key: "thresholds",
+      message: "Enter at least one value",
+    });
+    expect(validateDetectionConfig({ ...getDefaultDetectionConfig(), score_floor: 101 })).toEqual([
+      { detector: "scoring", key: "score_floor", message: "Must be at most 100" },
+    ]);
+  });
+
+  it("runs a detector's own rules only once its fields are valid", () => {
+    expect(validateDetectionConfig(withParams("cycle", { minLength: 5, maxLength: 4 }))).toEqual([
+      { detector: "cycle", message: "Minimum cycle length cannot exceed the maximum" },
+    ]);
+    expect(validateDetectionConfig(withParams("cycle", { minLength: 5, maxLength: 40 }))).toEqual([
+      { detector: "cycle", key: "maxLength", message: "Must be at most 6" },
+    ]);
+  });
+
+  it("fills presets saved before a parameter existed and drops unknown detectors", () => {
+    const saved: DetectionConfig = { detectors: { cycle: { maxLength: 4 }, retired: { x: 1 } } };
+    const resolved = resolveDetectionConfig(saved);
+    const defaults = getDefaultDetectionConfig();
+    expect(resolved.detectors.cycle).toEqual({ ...defaults.detectors.cycle, maxLength: 4 });
+    expect(resolved.detectors.retired).toBeUndefined();
+    expect(resolved.score_floor).toBe(DEFAULT_SCORE_FLOOR);
+    expect(validateDetectionConfig(resolved)).toEqual([]);
+  });
+
+  it("copies list values so editing the resolved config leaves the preset alone", () => {
+    const thresholds = [9000];
+    const resolved = resolveDetectionConfig({ detectors: { structuring: { thresholds } } });
+    (resolved.detectors.structuring.thresholds as number[]).push(1);
+    expect(thresholds).toEqual([9000]);
+  });
+
+  it("saves, replaces and deletes presets by name", () => {
+    const preset = (name: string, floor: number) => ({
+      name,
+      config: { ...getDefaultDetectionConfig(), score_floor: floor },
+      updated_at: "2024-01-01T00:00:00.000Z",
+    });
+    saveDetectionPreset(preset("strict", 30));
+    saveDetectionPreset(preset("loose", 5));
+    expect(saveDetectionPreset(preset("strict", 40)).map((p) => [p.name, p.config.score_floor])).toEqual([
+      ["loose", 5],
+      ["strict", 40],
+    ]);
+    expect(deleteDetectionPreset("loose").map((p) => p.name)).toEqual(["strict"]);
+    expect(loadDetectionPresets()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { DETECTOR_MODULES, findDetectorForPattern, getDetector, getDetectors, getPatternWeights } from "@/lib/detectors";
+import { SYNTHETIC_TYPOLOGIES } from "@/lib/sampleData";
+
+describe("detector registry", () => {
+  it("is built from the shared module list, in run order", () => {
+    expect(getDetectors().map((d) => d.id)).toEqual(DETECTOR_MODULES.map((d) => d.id));
+    expect(new Set(getDetectors().map((d) => d.id)).size).toBe(DETECTOR_MODULES.length);
+    expect(findDetectorForPattern("cycle_length_4")?.id).toBe("cycle");
+  });
+
+  it("weights every cycle length the config and the synthetic generator allow", () => {
+    const schema = getDetector("cycle").configSchema;
+    const min = schema.find((f) => f.key === "minLength").min;
+    const max = schema.find((f) => f.key === "maxLength").max;
+    const weights = getPatternWeights();
+    for (let n = min; n <= max; n++) expect(weights.get(`cycle_length_${n}`)).toBeGreaterThan(0);
+    const length = SYNTHETIC_TYPOLOGIES.find((t) => t.id === "cycle").fields.find((f) => f.key === "length");
+    expect(length.min).toBe(min);
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  applyDisposition,
+  createWorkflow,
+  getDisposition,
+  getDispositionLabel,
+  loadAnalystName,
+  saveAnalystName,
+} from "@/lib/disposition";
+
+describe("alert disposition", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it("treats accounts without an entry as new", () => {
+    expect(getDisposition(createWorkflow("case-1"), "A")).toBe("new");
+    expect(getDispositionLabel("closed_sar_filed")).toBe("Closed – SAR Filed");
+  });
+
+  it("records each change in the audit trail without touching the previous workflow", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-05-01T09:00:00Z"));
+    const initial = createWorkflow("case-1");
+    const reviewed = applyDisposition(initial, "A", { state: "under_review", assignee: "kim", note: "" }, "lee");
+    vi.setSystemTime(new Date("2024-05-02T09:00:00Z"));
+    const escalated = applyDisposition(reviewed, "A", { state: "escalated", assignee: "kim", note: "Mule" }, "kim");
+
+    expect(initial).toEqual(createWorkflow("case-1"));
+    expect(reviewed.audit_trail).toHaveLength(1);
+    expect(escalated.dispositions.A).toEqual({
+      state: "escalated",
+      assignee: "kim",
+      note: "Mule",
+      updated_at: "2024-05-02T09:00:00.000Z",
+    });
+    expect(escalated.audit_trail.map((e) => [e.from_state, e.to_state, e.actor])).toEqual([
+      ["new", "under_review", "lee"],
+      ["under_review", "escalated", "kim"],
+    ]);
+    expect(escalated.audit_trail[1]).toMatchObject({ account_id: "A", note: "Mule", timestamp: "2024-05-02T09:00:00.000Z" });
+    expect(getDisposition(escalated, "B")).toBe("new");
+  });
+
+  it("remembers the analyst name", () => {
+    expect(loadAnalystName()).toBe("");
+    saveAnalystName("lee");
+    expect(loadAnalystName()).toBe("lee");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAdjacency,
+  collapseNode,
+  expandNode,
+  hideNode,
+  pendingNeighbours,
+  startEgoNetwork,
+  togglePin,
+  unhideAll,
+} from "@/lib/egoNetwork";
+import { GraphEdge } from "@/lib/types";
+
+let nextId = 0;
+function edge(source: string, target: string, amount = 100): GraphEdge {
+  return {
+    source,
+    target,
+    amount,
+    transactionId: `T${++nextId}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, nextId)),
+    originalAmount: amount,
+    originalCurrency: "USD",
+  };
+}
+
+// S1, S2 -> R -> D1 -> E1, and R -> D2, with D1 also receiving from S2
+const adjacency = buildAdjacency([
+  edge("S1", "R"),
+  edge("S2", "R"),
+  edge("R", "D1", 500),
+  edge("R", "D2", 50),
+  edge("R", "D2", 60),
+  edge("D1", "E1"),
+  edge("S2", "D1"),
+]);
+
+describe("ego network", () => {
+  it("starts with the first hop, senders left and receivers right", () => {
+    const ego = startEgoNetwork(adjacency, "R");
+    expect(Object.keys(ego.positions).sort()).toEqual(["D1", "D2", "R", "S1", "S2"]);
+    for (const id of ["S1", "S2"]) expect(ego.positions[id].x).toBeLessThan(0);
+    for (const id of ["D1", "D2"]) expect(ego.positions[id].x).toBeGreaterThan(0);
+    // Larger flows are listed first
+    expect(adjacency.downstream.get("R")).toEqual(["D1", "D2"]);
+  });
+
+  it("expands in batches without moving drawn accounts", () => {
+    const start = startEgoNetwork(adjacency, "R");
+    const grown = expandNode(start, adjacency, "D1", "downstream");
+    expect(grown.positions.E1.x).toBeGreaterThan(grown.positions.D1.x);
+    for (const [id, p] of Object.entries(start.positions)) expect(grown.positions[id]).toEqual(p);
+    const positions = Object.values(grown.positions).map((p) => `${p.x},${p.y}`);
+    expect(new Set(positions).size).toBe(positions.length);
+
+    const hub = buildAdjacency(Array.from({ length: 30 }, (_, i) => edge("H", `N${i}`)));
+    const first = startEgoNetwork(hub, "H");
+    expect(Object.keys(first.positions)).toHaveLength(26);
+    expect(pendingNeighbours(first, hub, "H", "downstream")).toHaveLength(5);
+    expect(Object.keys(expandNode(first, hub, "H", "downstream").positions)).toHaveLength(31);
+  });
+
+  it("collapses only accounts hanging off the node, keeping pinned ones", () => {
+    const ego = expandNode(startEgoNetwork(adjacency, "R"), adjacency, "D1", "downstream");
+    // S2 also links to D1, so collapsing R leaves it
+    expect(Object.keys(collapseNode(ego, adjacency, "R").positions).sort()).toEqual(["D1", "E1", "R", "S2"]);
+    const pinned = togglePin(ego, "S1");
+    expect(Object.keys(collapseNode(pinned, adjacency, "R").positions)).toContain("S1");
+    expect(togglePin(pinned, "S1").pinned).toEqual([]);
+  });
+
+  it("keeps hidden accounts out of expansions until unhidden", () => {
+    const ego = hideNode(startEgoNetwork(adjacency, "R"), "D2");
+    expect(ego.positions.D2).toBeUndefined();
+    expect(pendingNeighbours(ego, adjacency, "R", "downstream")).toEqual([]);
+    expect(hideNode(ego, "R")).toBe(ego);
+    const restored = unhideAll(ego);
+    expect(restored.positions.D2).toEqual(startEgoNetwork(adjacency, "R").positions.D2);
+    expect(restored.hidden).toEqual({});
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SHARED_VALUE, jaroWinkler, projectToEntities, resolveEntities } from "@/lib/entityResolution";
+import { Transaction } from "@/lib/types";
+
+function transfer(id: string, sender_id: string, receiver_id: string): Transaction {
+  return { transaction_id: id, sender_id, receiver_id, amount: 100, timestamp: new Date(Date.UTC(2024, 0, 1)) };
+}
+
+describe("entity resolution", () => {
+  it("scores near-identical names close to one", () => {
+    expect(jaroWinkler("martha", "martha")).toBe(1);
+    expect(jaroWinkler("martha", "marhta")).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler("dwayne", "duane")).toBeCloseTo(0.84, 2);
+    expect(jaroWinkler("abc", "xyz")).toBe(0);
+    expect(jaroWinkler("", "abc")).toBe(0);
+  });
+
+  it("merges on exact keys and chains links into one entity", () => {
+    const resolution = resolveEntities([
+      { account_id: "A1", phone: "+44 7700 900123" },
+      { account_id: "A2", phone: "07700900123", device: "dev-9" },
+      { account_id: "A3", device: "DEV-9" },
+      { account_id: "A4", name: "Jane Doe", dob: "1990-05-01" },
+    ]);
+    expect(resolution.record_count).toBe(4);
+    expect(resolution.entities).toHaveLength(1);
+    const [entity] = resolution.entities;
+    expect(entity.accounts).toEqual(["A1", "A2", "A3"]);
+    expect(entity.reasons.map((r) => r.key).sort()).toEqual(["device", "phone"]);
+    expect(resolution.skipped).toEqual([]);
+  });
+
+  it("merges fuzzy name and address matches within a block", () => {
+    const resolution = resolveEntities([
+      { account_id: "A1", name: "Jonathan Smith", dob: "1985-02-03" },
+      { account_id: "A2", name: "Jonathon Smith", dob: "1985-02-03" },
+      { account_id: "A3", name: "Jonathan Smith", dob: "1985-02-04" },
+      { account_id: "B1", address: "12 High St, 90210" },
+      { account_id: "B2", address: "12 High Street 90210" },
+      { account_id: "B3", address: "12 Low Road 90210" },
+    ]);
+    const groups = resolution.entities.map((e) => e.accounts);
+    expect(groups).toEqual([["A1", "A2"], ["B1", "B2"]]);
+    const nameReason = resolution.entities[0].reasons[0];
+    expect(nameReason).toMatchObject({ key: "name_dob", match: "fuzzy" });
+    expect(nameReason.similarity).toBeGreaterThan(0.92);
+  });
+
+  it("keeps non-Latin names and never merges on a shared date of birth alone", () => {
+    const dob = "1990-01-01";
+    const resolution = resolveEntities([
+      { account_id: "A", name: "王小明", dob },
+      { account_id: "B", name: "李华", dob },
+      { account_id: "C", name: "राम शर्मा", dob },
+      { account_id: "D", name: "सीता देवी", dob },
+      { account_id: "E", name: "???", dob },
+      { account_id: "F", name: "123", dob },
+      { account_id: "G", name: "शर्मा राम", dob },
+    ]);
+    expect(resolution.entities.map((e) => e.accounts)).toEqual([["C", "G"]]);
+    expect(resolution.entities[0].reasons).toEqual([
+      { key: "name_dob", match: "exact", accounts: ["C", "G"], value: `राम शर्मा|${dob}` },
+    ]);
+  });
+
+  it("skips values shared by too many accounts and reports them", () => {
+    const records = Array.from({ length: MAX_SHARED_VALUE + 1 }, (_, i) => ({ account_id: `P${i}`, device: "unknown" }));
+    records.push({ account_id: "Q1", device: "d-1" }, { account_id: "Q2", device: "d-1" });
+    const resolution = resolveEntities(records);
+    expect(resolution.entities.map((e) => e.accounts)).toEqual([["Q1", "Q2"]]);
+    expect(resolution.skipped).toEqual([
+      { key: "device", match: "exact", value: "unknown", account_count: MAX_SHARED_VALUE + 1 },
+    ]);
+  });
+
+  it("rewrites transfers onto entities and drops moves inside one", () => {
+    const { entities } = resolveEntities([
+      { account_id: "A1", device: "d" },
+      { account_id: "A2", device: "d" },
+    ]);
+    const outside = transfer("T3", "X", "Y");
+    const projected = projectToEntities(
+      [transfer("T1", "A1", "A2"), transfer("T2", "A2", "X"), outside],
+      entities
+    );
+    expect(projected.internal).toBe(1);
+    expect(projected.transactions.map((t) => [t.sender_id, t.receiver_id])).toEqual([
+      ["ENT_001", "X"],
+      ["X", "Y"],
+    ]);
+    // Transfers untouched by a merge are passed through as they are
+    expect(projected.transactions[1]).toBe(outside);
+    expect(projectToEntities([outside], []).transactions[0]).toBe(outside);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { enumerateCycles, enumeratePaths, stronglyConnectedComponents } from "@/lib/detectors/enumeration";
+
+// Seeded so every run checks the same graphs
+function lehmer(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 16807) % 2147483647;
+    return s / 2147483647;
+  };
+}
+
+// Small random graph; names are shuffled so first-appearance order differs from name order
+function randomGraph(seed: number, nodes: number, edges: number): Map<string, string[]> {
+  const random = lehmer(seed);
+  const adj = new Map<string, string[]>();
+  for (let i = 0; i < edges; i++) {
+    const from = `N${Math.floor(random() * nodes)}`;
+    const to = `N${Math.floor(random() * nodes)}`;
+    if (from === to || adj.get(from)?.includes(to)) continue;
+    if (!adj.has(from)) adj.set(from, []);
+    adj.get(from)!.push(to);
+  }
+  return adj;
+}
+
+// Accounts in the order the enumerator numbers them: senders first, then receivers
+function appearanceOrder(adj: Map<string, string[]>): Map<string, number> {
+  const order = new Map<string, number>();
+  for (const node of adj.keys()) order.set(node, order.size);
+  for (const targets of adj.values()) for (const t of targets) if (!order.has(t)) order.set(t, order.size);
+  return order;
+}
+
+function reachable(adj: Map<string, string[]>, from: string): Set<string> {
+  const seen = new Set([from]);
+  const stack = [from];
+  while (stack.length > 0) {
+    for (const next of adj.get(stack.pop()!) || []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      stack.push(next);
+    }
+  }
+  return seen;
+}
+
+// Every simple path from each sender, no pruning
+function brutePaths(adj: Map<string, string[]>, minLength: number, maxLength: number, canContinue = (_: string) => true) {
+  const paths: string[][] = [];
+  const walk = (path: string[]) => {
+    if (path.length >= minLength) paths.push([...path]);
+    const last = path[path.length - 1];
+    if (path.length >= maxLength || (path.length > 1 && !canContinue(last))) return;
+    for (const next of adj.get(last) || []) if (!path.includes(next)) walk([...path, next]);
+  };
+  for (const start of adj.keys()) walk([start]);
+  return paths;
+}
+
+// Every simple cycle, rotated to start at its earliest-numbered member
+function bruteCycles(adj: Map<string, string[]>, minLength: number, maxLength: number): string[] {
+  const order = appearanceOrder(adj);
+  const cycles = new Set<string>();
+  for (const path of brutePaths(adj, minLength, maxLength)) {
+    if (!(adj.get(path[path.length - 1]) || []).includes(path[0])) continue;
+    const first = path.reduce((best, node, i) => (order.get(node)! < order.get(path[best])! ? i : best), 0);
+    cycles.add([...path.slice(first), ...path.slice(0, first)].join(">"));
+  }
+  return Array.from(cycles).sort();
+}
+
+const SEEDS = [1, 7, 42, 99, 1234, 31337];
+
+describe("graph enumeration", () => {
+  it("splits accounts into the same components as mutual reachability, in reverse topological order", () => {
+    for (const seed of SEEDS) {
+      const adj = randomGraph(seed, 10, 18);
+      const components = stronglyConnectedComponents(adj);
+      const order = appearanceOrder(adj);
+      expect(components.flat().sort()).toEqual(Array.from(order.keys()).sort());
+
+      const reach = new Map(Array.from(order.keys(), (node) => [node, reachable(adj, node)]));
+      const componentOf = new Map<string, number>();
+      components.forEach((members, c) => members.forEach((m) => componentOf.set(m, c)));
+      for (const a of order.keys()) {
+        for (const b of order.keys()) {
+          const mutual = reach.get(a)!.has(b) && reach.get(b)!.has(a);
+          expect(componentOf.get(a) === componentOf.get(b)).toBe(mutual);
+        }
+      }
+      // An edge between components always points to a lower-numbered one
+      for (const [from, targets] of adj) {
+        for (const to of targets) expect(componentOf.get(from)).toBeGreaterThanOrEqual(componentOf.get(to)!);
+      }
+    }
+  });
+
+  it("enumerates every cycle within the length bounds exactly once, rooted at its earliest member", () => {
+    for (const seed of SEEDS) {
+      const adj = randomGraph(seed, 8, 24);
+      for (const [minLength, maxLength] of [[2, 6], [3, 3], [3, 5], [4, 8]]) {
+        const { paths, truncated } = enumerateCycles(adj, minLength, maxLength, 100000);
+        expect(truncated).toBe(false);
+        const found = paths.map((p) => p.join(">"));
+        expect(new Set(found).size).toBe(found.length);
+        expect(found.sort()).toEqual(bruteCycles(adj, minLength, maxLength));
+      }
+    }
+  });
+
+  it("enumerates every path within the bounds, expanding only through accounts that may continue", () => {
+    for (const seed of SEEDS) {
+      const adj = randomGraph(seed, 8, 16);
+      // Odd-numbered accounts act as hubs the search must not pass through
+      const canContinue = (node: string) => Number(node.slice(1)) % 2 === 0;
+      for (const [minLength, maxLength] of [[2, 2], [3, 4], [2, 6]]) {
+        const { paths, truncated } = enumeratePaths(adj, minLength, maxLength, canContinue, 100000);
+        expect(truncated).toBe(false);
+        const expected = brutePaths(adj, minLength, maxLength, canContinue).map((p) => p.join(">"));
+        expect(paths.map((p) => p.join(">")).sort()).toEqual(expected.sort());
+      }
+    }
+  });
+
+  it("stops at the limit and reports the result as truncated", () => {
+    const adj = randomGraph(42, 8, 24);
+    const cycles = enumerateCycles(adj, 2, 8, 100000).paths;
+    const paths = enumeratePaths(adj, 2, 4, () => true, 100000).paths;
+    expect(cycles.length).toBeGreaterThan(3);
+
+    const cappedCycles = enumerateCycles(adj, 2, 8, 3);
+    expect(cappedCycles).toEqual({ paths: cycles.slice(0, 3), truncated: true });
+    const cappedPaths = enumeratePaths(adj, 2, 4, () => true, 3);
+    expect(cappedPaths).toEqual({ paths: paths.slice(0, 3), truncated: true });
+
+    expect(enumerateCycles(adj, 2, 8, cycles.length + 1).truncated).toBe(false);
+    expect(enumeratePaths(adj, 2, 4, () => true, paths.length + 1).truncated).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import Papa from "papaparse";
+import { analyzeTransactions } from "@/lib/graphAnalysis";
+import { evaluateDetection, parseGroundTruth } from "@/lib/evaluation";
+import { getDefaultDetectionConfig } from "@/lib/detectionConfig";
+import { generateSyntheticData, getDefaultSyntheticConfig } from "@/lib/sampleData";
+import { AnalysisResult, GroundTruthLabel, SuspiciousAccount, Transaction } from "@/lib/types";
+
+function account(account_id: string, suspicion_score: number, detected_patterns: string[]): SuspiciousAccount {
+  return { account_id, suspicion_score, detected_patterns, ring_id: "STANDALONE", score_contributions: [], evidence: [] };
+}
+
+function label(account_id: string, is_mule: boolean, typology = ""): GroundTruthLabel {
+  return { account_id, is_mule, typology, instance_id: "", role: "" };
+}
+
+const result = {
+  entities: [],
+  suspicious_accounts: [
+    account("A", 80, ["cycle_length_3"]),
+    account("B", 60, ["high_velocity"]),
+    account("C", 40, ["high_velocity"]),
+    account("D", 20, ["structuring"]),
+  ],
+} as unknown as AnalysisResult;
+
+const labels = [label("A", true, "cycle"), label("B", true, "high_velocity"), label("C", false), label("E", true, "structuring")];
+
+describe("detection evaluation", () => {
+  it("counts hits and misses at the cutoff", () => {
+    const report = evaluateDetection(result, labels, 30);
+    expect(report.overall).toMatchObject({ true_positives: 2, false_positives: 1, false_negatives: 1 });
+    expect(report.overall.precision).toBeCloseTo(2 / 3);
+    expect(report.overall.recall).toBeCloseTo(2 / 3);
+    expect(report.false_positives.map((a) => a.account_id)).toEqual(["C"]);
+    expect(report.false_negatives).toEqual([{ label: labels[3], score: undefined }]);
+
+    const velocity = report.detectors.find((d) => d.detector === "velocity")!;
+    expect(velocity).toMatchObject({ true_positives: 1, false_positives: 1, false_negatives: 0, precision: 0.5, recall: 1 });
+    // Nothing flagged and no round-trip mules to find
+    expect(report.detectors.find((d) => d.detector === "round_trip")).toMatchObject({ precision: null, recall: null, f1: null });
+  });
+
+  it("traces precision and recall down the scores and picks the best F1", () => {
+    const report = evaluateDetection(result, labels, 0);
+    expect(report.curve.map((p) => p.cutoff)).toEqual([80, 60, 40, 20]);
+    expect(report.curve.map((p) => p.recall)).toEqual([1 / 3, 2 / 3, 2 / 3, 2 / 3]);
+    expect(report.curve.map((p) => p.precision)).toEqual([1, 1, 2 / 3, 0.5]);
+    expect(report.best_cutoff).toBe(60);
+  });
+
+  it("reads label files with loose headers and flags", async () => {
+    const csv = "Account ID,Is Mule,Typology\nA,yes,cycle\nB,0,\nC,maybe,\n";
+    const parsed = await parseGroundTruth(new File([csv], "labels.csv"));
+    expect(parsed.map((l) => [l.account_id, l.is_mule, l.typology])).toEqual([
+      ["A", true, "cycle"],
+      ["B", false, ""],
+    ]);
+  });
+
+  it("honours the configured score floor", () => {
+    const { csv } = generateSyntheticData(getDefaultSyntheticConfig(5));
+    const transactions: Transaction[] = Papa.parse<Record<string, string>>(csv, { header: true, skipEmptyLines: true }).data.map(
+      (r) => ({
+        transaction_id: r.transaction_id,
+        sender_id: r.sender_id,
+        receiver_id: r.receiver_id,
+        amount: parseFloat(r.amount),
+        timestamp: new Date(r.timestamp),
+      })
+    );
+    const all = analyzeTransactions(transactions, { config: { ...getDefaultDetectionConfig(), score_floor: 0 } });
+    const strict = analyzeTransactions(transactions, { config: { ...getDefaultDetectionConfig(), score_floor: 50 } });
+    expect(strict.suspicious_accounts.every((a) => a.suspicion_score >= 50)).toBe(true);
+    expect(strict.suspicious_accounts).toEqual(all.suspicious_accounts.filter((a) => a.suspicion_score >= 50));
+  });
+});
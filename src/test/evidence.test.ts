@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { analyzeTransactions, buildGraphData, expandGraphEdges } from "@/lib/graphAnalysis";
+import { addPattern } from "@/lib/detectors";
+import { storeFromTransactions } from "@/lib/transactionStore";
+import { buildEvidenceCSV, describeRingDetails, getSubjectEvidence } from "@/lib/evidence";
+import { PatternEvidence, Transaction } from "@/lib/types";
+
+function tx(transaction_id: string, sender_id: string, receiver_id: string, hour: number): Transaction {
+  return { transaction_id, sender_id, receiver_id, amount: 1000, timestamp: new Date(Date.UTC(2024, 0, 1, hour)) };
+}
+
+// A three-account loop plus an unrelated transfer
+const transactions = [tx("T1", "A", "B", 1), tx("T2", "B", "C", 2), tx("T3", "C", "A", 3), tx("T4", "X", "Y", 9)];
+const result = analyzeTransactions(transactions);
+
+describe("detection evidence", () => {
+  it("cites the transfers and time window behind an account's pattern", () => {
+    const [cycle] = getSubjectEvidence(result, { kind: "account", id: "A" });
+    expect(cycle.pattern).toBe("cycle_length_3");
+    expect([...cycle.transaction_ids].sort()).toEqual(["T1", "T2", "T3"]);
+    expect(cycle.window_start).toBe("2024-01-01T01:00:00.000Z");
+    expect(cycle.window_end).toBe("2024-01-01T03:00:00.000Z");
+  });
+
+  it("gives a ring a single section under its pattern type", () => {
+    const ring = result.fraud_rings.find((r) => r.pattern_type === "cycle")!;
+    const sections = getSubjectEvidence(result, { kind: "ring", id: ring.ring_id });
+    expect(sections).toEqual([{ pattern: "cycle", ...ring.evidence }]);
+    expect(ring.transaction_chain).toEqual(["T1", "T2", "T3"]);
+    expect(getSubjectEvidence(result, { kind: "ring", id: "RING_999" })).toEqual([]);
+    expect(getSubjectEvidence(result, { kind: "account", id: "X" })).toEqual([]);
+  });
+
+  it("merges repeated hits of one pattern and widens the window", () => {
+    const hits = new Map<string, PatternEvidence[]>();
+    addPattern(hits, "A", "fan_out", [tx("T1", "A", "B", 5)]);
+    addPattern(hits, "A", "fan_out", [tx("T2", "A", "C", 2), tx("T1", "A", "B", 5)]);
+    addPattern(hits, "A", "fan_in", [tx("T3", "D", "A", 8)]);
+    expect(hits.get("A")).toEqual([
+      {
+        pattern: "fan_out",
+        transaction_ids: ["T1", "T2"],
+        window_start: "2024-01-01T02:00:00.000Z",
+        window_end: "2024-01-01T05:00:00.000Z",
+      },
+      {
+        pattern: "fan_in",
+        transaction_ids: ["T3"],
+        window_start: "2024-01-01T08:00:00.000Z",
+        window_end: "2024-01-01T08:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("exports one row per cited transfer", () => {
+    const subject = { kind: "account" as const, id: "A" };
+    const store = storeFromTransactions(transactions);
+    const edges = expandGraphEdges(store, buildGraphData(store, result).edges);
+    const edgesById = new Map(edges.map((e) => [e.transactionId, e]));
+    const rows = buildEvidenceCSV(subject, getSubjectEvidence(result, subject), edgesById, "USD").split("\r\n");
+    expect(rows[0]).toBe(
+      "subject_type,subject_id,pattern,window_start,window_end,transaction_id,timestamp,sender_id,receiver_id,amount,currency,original_amount,original_currency"
+    );
+    expect(rows.filter((r) => r.includes(",T1,"))).toHaveLength(1);
+    expect(rows.length).toBe(1 + getSubjectEvidence(result, subject).reduce((n, s) => n + s.transaction_ids.length, 0));
+  });
+
+  it("summarises typology details in one line", () => {
+    expect(
+      describeRingDetails({
+        type: "structuring",
+        hits: [{ threshold: 10000, count: 3 }],
+        margin: 500,
+      })
+    ).toBe("3 under 10,000 • within 500");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TRACE_OPTIONS, MAX_TRACE_HOPS, buildLedgers, buildTerminalsCSV, buildTraceCSV, flattenTrace, traceFunds } from "@/lib/fundTracing";
+import { AllocationRule, EgoDirection, FundTrace, GraphEdge } from "@/lib/types";
+
+function edge(id: string, source: string, target: string, amount: number, hour: number): GraphEdge {
+  return {
+    source,
+    target,
+    amount,
+    transactionId: id,
+    timestamp: new Date(Date.UTC(2024, 0, 1, hour)),
+    originalAmount: amount,
+    originalCurrency: "USD",
+  };
+}
+
+// M takes 100 from S1 then 50 from S2, and pays 60 to R1 then 90 to R2
+const mixer = buildLedgers([
+  edge("D1", "S1", "M", 100, 1),
+  edge("D2", "S2", "M", 50, 2),
+  edge("P1", "M", "R1", 60, 3),
+  edge("P2", "M", "R2", 90, 4),
+]);
+
+function trace(id: string, direction: EgoDirection, rule: AllocationRule): FundTrace {
+  return traceFunds(mixer, { kind: "transaction", id }, { ...DEFAULT_TRACE_OPTIONS, direction, rule });
+}
+
+function reached(result: FundTrace): Record<string, number> {
+  return Object.fromEntries(result.terminals.map((t) => [t.account_id, Math.round(t.amount * 100) / 100]));
+}
+
+function stoppedAt(result: FundTrace): [string, string, number][] {
+  return result.stopped.map((t) => [t.account_id, t.stop, Math.round(t.amount * 100) / 100]);
+}
+
+describe("fund tracing", () => {
+  it("spends a deposit according to the allocation rule", () => {
+    expect(reached(trace("D2", "downstream", "fifo"))).toEqual({ R2: 50 });
+    expect(reached(trace("D2", "downstream", "lifo"))).toEqual({ R1: 50 });
+    expect(reached(trace("D2", "downstream", "proportional"))).toEqual({ R2: 30, R1: 20 });
+  });
+
+  it("finds which deposits paid for a transfer", () => {
+    expect(reached(trace("P2", "upstream", "fifo"))).toEqual({ S2: 50, S1: 40 });
+    expect(reached(trace("P2", "upstream", "lifo"))).toEqual({ S1: 90 });
+    expect(reached(trace("P2", "upstream", "proportional"))).toEqual({ S1: 60, S2: 30 });
+  });
+
+  it("follows the traced share across hops and reports cycles and the hop limit as stops", () => {
+    const ledgers = buildLedgers([
+      edge("T1", "A", "B", 100, 1),
+      edge("T2", "X", "B", 100, 2),
+      edge("T3", "B", "C", 200, 3),
+      edge("T4", "C", "A", 120, 4),
+      edge("T5", "C", "D", 80, 5),
+      edge("T6", "D", "E", 1, 6),
+    ]);
+    const options = { ...DEFAULT_TRACE_OPTIONS, rule: "proportional" as const, min_amount: 5 };
+    const result = traceFunds(ledgers, { kind: "transaction", id: "T1" }, options);
+    const rows = flattenTrace(result);
+    expect(rows.map((r) => r.hop.transaction_id)).toEqual(["T1", "T3", "T4", "T5"]);
+    // Half of C's balance came from A, so half of each onward payment is traced
+    expect(rows.find((r) => r.hop.transaction_id === "T4").hop).toMatchObject({ traced_amount: 60, retained: 0, stop: "cycle" });
+    // Money back at A is not an endpoint: tracing stopped there
+    expect(reached(result)).toEqual({ D: 39.5 });
+    expect(stoppedAt(result)).toEqual([["A", "cycle", 60]]);
+    // 0.5 onward to E falls under the minimum
+    expect(result.untraced).toBeCloseTo(0.5);
+    const sum = (list: { amount: number }[]) => list.reduce((s, t) => s + t.amount, 0);
+    expect(sum(result.terminals) + sum(result.stopped) + result.untraced).toBeCloseTo(result.total);
+
+    const short = traceFunds(ledgers, { kind: "transaction", id: "T1" }, { ...options, max_hops: 2 });
+    expect(reached(short)).toEqual({});
+    expect(stoppedAt(short)).toEqual([["C", "max_hops", 100]]);
+    expect(short.stopped[0].share).toBeCloseTo(1);
+    expect(buildTerminalsCSV(short, "USD").split("\r\n")).toEqual([
+      "account_id,amount,share_of_source,stop,currency",
+      "C,100.00,1.0000,max_hops,USD",
+    ]);
+  });
+
+  it("reports money past the hop cap as stopped, not as an endpoint", () => {
+    const payments = Array.from({ length: MAX_TRACE_HOPS + 10 }, (_, i) => edge(`P${i}`, "S", `R${i}`, 1, 2));
+    const ledgers = buildLedgers([edge("D", "X", "S", 5000, 1), ...payments]);
+    const result = traceFunds(ledgers, { kind: "transaction", id: "D" }, DEFAULT_TRACE_OPTIONS);
+    expect(reached(result)).toEqual({ S: 5000 - payments.length });
+    expect(result.stopped).toHaveLength(payments.length);
+    expect(result.stopped.every((t) => t.stop === "node_limit")).toBe(true);
+    expect(result.stopped.reduce((s, t) => s + t.amount, 0)).toBeCloseTo(payments.length);
+  });
+
+  it("treats spending beyond known deposits as the account's own funds", () => {
+    const ledgers = buildLedgers([edge("T1", "A", "B", 30, 1), edge("T2", "B", "C", 100, 2)]);
+    const result = traceFunds(ledgers, { kind: "account", id: "C" }, { ...DEFAULT_TRACE_OPTIONS, direction: "upstream" });
+    expect(reached(result)).toEqual({ B: 70, A: 30 });
+    expect(traceFunds(ledgers, { kind: "account", id: "Z" }, DEFAULT_TRACE_OPTIONS)).toBeNull();
+    const csv = buildTraceCSV(result, "USD").split("\r\n");
+    expect(csv[0]).toContain("parent_transaction_id");
+    expect(csv).toHaveLength(3);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { LayoutRequest, layoutGraph } from "@/lib/graphLayout";
+import { NodePosition } from "@/lib/types";
+
+// Two rings (a 3-cycle and a 4-hop chain) plus a few loose accounts
+const nodes = ["A1", "A2", "A3", "B1", "B2", "B3", "B4", "B5", "X1", "X2", "X3"];
+const edges: [string, string][] = [
+  ["A1", "A2"],
+  ["A2", "A3"],
+  ["A3", "A1"],
+  ["B1", "B2"],
+  ["B2", "B3"],
+  ["B3", "B4"],
+  ["B4", "B5"],
+  ["X1", "X2"],
+  ["X3", "B1"],
+];
+const clusters = { A1: "RING_001", A2: "RING_001", A3: "RING_001", B1: "RING_002", B2: "RING_002", B3: "RING_002", B4: "RING_002", B5: "RING_002" };
+
+function request(type: LayoutRequest["type"], seed = 7): LayoutRequest {
+  return { type, seed, nodes, edges, clusters };
+}
+
+function box(positions: Record<string, NodePosition>, ids: string[]) {
+  const xs = ids.map((id) => positions[id].x);
+  const ys = ids.map((id) => positions[id].y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+describe("graph layouts", () => {
+  it.each(["force", "hierarchical", "clustered"] as const)("%s places every node reproducibly", (type) => {
+    const positions = layoutGraph(request(type));
+    expect(Object.keys(positions).sort()).toEqual([...nodes].sort());
+    expect(layoutGraph(request(type))).toEqual(positions);
+    // Input order does not matter, only the seed
+    expect(layoutGraph({ ...request(type), nodes: [...nodes].reverse() })).toEqual(positions);
+  });
+
+  it("moves nodes when the seed changes", () => {
+    expect(layoutGraph(request("force", 1))).not.toEqual(layoutGraph(request("force", 2)));
+  });
+
+  it("keeps linked nodes apart without overlap", () => {
+    const positions = layoutGraph(request("force"));
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions[nodes[i]];
+        const b = positions[nodes[j]];
+        expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThan(20);
+      }
+    }
+  });
+
+  it("lays chains out left to right and survives cycles", () => {
+    const positions = layoutGraph(request("hierarchical"));
+    const chain = ["X3", "B1", "B2", "B3", "B4", "B5"].map((id) => positions[id].x);
+    for (let i = 1; i < chain.length; i++) expect(chain[i]).toBeGreaterThan(chain[i - 1]);
+    // A cycle still spans columns instead of collapsing onto one
+    expect(new Set(["A1", "A2", "A3"].map((id) => positions[id].x)).size).toBe(3);
+  });
+
+  it("gives each ring its own region", () => {
+    const positions = layoutGraph(request("clustered"));
+    const a = box(positions, ["A1", "A2", "A3"]);
+    const b = box(positions, ["B1", "B2", "B3", "B4", "B5"]);
+    const disjoint = a.maxX < b.minX || b.maxX < a.minX || a.maxY < b.minY || b.maxY < a.minY;
+    expect(disjoint).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { analyzeTransactions } from "@/lib/graphAnalysis";
+import { getPatternWeights } from "@/lib/detectors";
+import { SuspiciousAccount, Transaction } from "@/lib/types";
+
+let nextId = 0;
+function tx(sender_id: string, receiver_id: string, amount: number, hour: number): Transaction {
+  return {
+    transaction_id: `T${++nextId}`,
+    sender_id,
+    receiver_id,
+    amount,
+    timestamp: new Date(Date.UTC(2024, 0, 1, hour)),
+  };
+}
+
+// Money around a loop in time order, shrinking a little at each hop
+function loop(members: string[], startHour: number): Transaction[] {
+  return members.map((m, i) => tx(m, members[(i + 1) % members.length], 1000 - i * 40, startHour + i));
+}
+
+// H sits in a 3-, 4- and 5-account loop
+const result = analyzeTransactions([
+  ...loop(["H", "A1", "A2"], 0),
+  ...loop(["H", "B1", "B2", "B3"], 10),
+  ...loop(["H", "C1", "C2", "C3", "C4"], 20),
+]);
+
+function account(id: string): SuspiciousAccount {
+  return result.suspicious_accounts.find((a) => a.account_id === id)!;
+}
+
+describe("suspicion scoring", () => {
+  it("adds each pattern's weight and the ring bonus", () => {
+    const a1 = account("A1");
+    expect(a1.score_contributions.map((c) => [c.factor, c.points])).toEqual([
+      ["cycle_length_3", getPatternWeights().get("cycle_length_3")],
+      ["ring_bonus", 5],
+    ]);
+    expect(a1.score_contributions[0].evidence).toBe("Flagged by Circular Routing");
+    expect(a1.suspicion_score).toBe(35);
+  });
+
+  it("caps the score at 100 with a contribution that explains the cut", () => {
+    const h = account("H");
+    const factors = h.score_contributions.map((c) => c.factor);
+    expect(factors).toEqual(expect.arrayContaining(["cycle_length_3", "cycle_length_4", "cycle_length_5"]));
+    expect(factors.at(-1)).toBe("score_cap");
+    const uncapped = h.score_contributions.slice(0, -1).reduce((sum, c) => sum + c.points, 0);
+    expect(uncapped).toBeGreaterThan(100);
+    expect(h.score_contributions.at(-1)!.points).toBe(100 - uncapped);
+    expect(h.suspicion_score).toBe(100);
+  });
+
+  it("explains every reported score with contributions that add up to it", () => {
+    expect(result.suspicious_accounts.length).toBeGreaterThan(5);
+    for (const a of result.suspicious_accounts) {
+      const total = a.score_contributions.reduce((sum, c) => sum + c.points, 0);
+      expect(a.suspicion_score).toBeCloseTo(total, 1);
+      expect(a.score_contributions.every((c) => c.points !== 0)).toBe(true);
+      // The cap only appears where the factors ran past 100
+      const cap = a.score_contributions.find((c) => c.factor === "score_cap");
+      expect(cap ? total - cap.points > 100 : total <= 100).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,257 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import Papa from "papaparse";
+import { Detector, DetectorContext, DetectorOutput, DetectorParams, addPattern, defaultParams } from "@/lib/detectors";
+import { smurfingDetector } from "@/lib/detectors/smurfing";
+import { highVelocityDetector } from "@/lib/detectors/highVelocity";
+import { dormantActivationDetector } from "@/lib/detectors/dormantActivation";
+import { generateSampleCSV } from "@/lib/sampleData";
+import { PatternEvidence, Transaction } from "@/lib/types";
+
+// The per-start-transaction filters these detectors used before the sliding-window rewrite,
+// kept verbatim as the reference the new implementations must match
+
+function legacySmurfing(transactions: Transaction[], { windowHours, minCounterparties }: DetectorParams): DetectorOutput {
+  const suspicious = new Map<string, PatternEvidence[]>();
+  const WINDOW_MS = (windowHours as number) * 60 * 60 * 1000;
+  const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const receiverMap = new Map<string, Transaction[]>();
+  for (const t of sorted) {
+    if (!receiverMap.has(t.receiver_id)) receiverMap.set(t.receiver_id, []);
+    receiverMap.get(t.receiver_id)!.push(t);
+  }
+  for (const [receiver, txs] of receiverMap) {
+    for (let i = 0; i < txs.length; i++) {
+      const windowStart = txs[i].timestamp.getTime();
+      const window = txs.filter(
+        (t) => t.timestamp.getTime() >= windowStart && t.timestamp.getTime() <= windowStart + WINDOW_MS
+      );
+      const uniqueSenders = new Set(window.map((t) => t.sender_id));
+      if (uniqueSenders.size >= (minCounterparties as number)) {
+        addPattern(suspicious, receiver, "fan_in", window);
+        for (const s of uniqueSenders) {
+          addPattern(suspicious, s, "smurfing_source", window.filter((t) => t.sender_id === s));
+        }
+      }
+    }
+  }
+
+  const senderMap = new Map<string, Transaction[]>();
+  for (const t of sorted) {
+    if (!senderMap.has(t.sender_id)) senderMap.set(t.sender_id, []);
+    senderMap.get(t.sender_id)!.push(t);
+  }
+  for (const [sender, txs] of senderMap) {
+    for (let i = 0; i < txs.length; i++) {
+      const windowStart = txs[i].timestamp.getTime();
+      const window = txs.filter(
+        (t) => t.timestamp.getTime() >= windowStart && t.timestamp.getTime() <= windowStart + WINDOW_MS
+      );
+      const uniqueReceivers = new Set(window.map((t) => t.receiver_id));
+      if (uniqueReceivers.size >= (minCounterparties as number)) addPattern(suspicious, sender, "fan_out", window);
+    }
+  }
+
+  // The single global ring is gone; rings are checked on their own below
+  return { accountPatterns: suspicious, rings: [] };
+}
+
+function legacyHighVelocity(transactions: Transaction[], { windowMinutes, minTransactions }: DetectorParams): DetectorOutput {
+  const suspicious = new Map<string, PatternEvidence[]>();
+  const RAPID_WINDOW_MS = (windowMinutes as number) * 60 * 1000;
+  const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const senderTxs = new Map<string, Transaction[]>();
+  for (const t of sorted) {
+    if (!senderTxs.has(t.sender_id)) senderTxs.set(t.sender_id, []);
+    senderTxs.get(t.sender_id)!.push(t);
+  }
+  for (const [sender, txs] of senderTxs) {
+    for (let i = 0; i < txs.length; i++) {
+      const windowStart = txs[i].timestamp.getTime();
+      const rapid = txs.filter(
+        (t) => t.timestamp.getTime() >= windowStart && t.timestamp.getTime() <= windowStart + RAPID_WINDOW_MS
+      );
+      if (rapid.length >= (minTransactions as number)) {
+        addPattern(suspicious, sender, "high_velocity", rapid);
+        break;
+      }
+    }
+  }
+  return { accountPatterns: suspicious, rings: [] };
+}
+
+function legacyDormantActivation(transactions: Transaction[], params: DetectorParams): DetectorOutput {
+  const p = params as Record<string, number>;
+  const suspicious = new Map<string, PatternEvidence[]>();
+  const sorted = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (sorted.length === 0) return { accountPatterns: suspicious, rings: [] };
+  const totalSpan = sorted[sorted.length - 1].timestamp.getTime() - sorted[0].timestamp.getTime();
+  if (totalSpan < p.minDatasetDays * 24 * 60 * 60 * 1000) return { accountPatterns: suspicious, rings: [] };
+
+  const accountTxs = new Map<string, Transaction[]>();
+  for (const t of sorted) {
+    for (const id of [t.sender_id, t.receiver_id]) {
+      if (!accountTxs.has(id)) accountTxs.set(id, []);
+      accountTxs.get(id)!.push(t);
+    }
+  }
+  const BURST_WINDOW = p.burstWindowHours * 60 * 60 * 1000;
+  for (const [acc, txs] of accountTxs) {
+    if (txs.length < p.minTransactions) continue;
+    const accSorted = txs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const accSpan = accSorted[accSorted.length - 1].timestamp.getTime() - accSorted[0].timestamp.getTime();
+    for (let i = 0; i < accSorted.length; i++) {
+      const burstTxs = accSorted.filter(
+        (t) =>
+          t.timestamp.getTime() >= accSorted[i].timestamp.getTime() &&
+          t.timestamp.getTime() <= accSorted[i].timestamp.getTime() + BURST_WINDOW
+      );
+      if (burstTxs.length >= Math.ceil(accSorted.length * p.burstShare) && accSpan > BURST_WINDOW * p.minSpanMultiple) {
+        addPattern(suspicious, acc, "dormant_activation", burstTxs);
+        break;
+      }
+    }
+  }
+  return { accountPatterns: suspicious, rings: [] };
+}
+
+// Seeded stand-in for Math.random so the hub data is reproducible
+function seedRandom(seed: number) {
+  let s = seed;
+  vi.spyOn(Math, "random").mockImplementation(() => {
+    s = (s * 16807) % 2147483647;
+    return s / 2147483647;
+  });
+}
+
+function sampleTransactions(seed: number): Transaction[] {
+  const rows = Papa.parse<Record<string, string>>(generateSampleCSV(seed), { header: true, skipEmptyLines: true }).data;
+  return rows.map((r) => ({
+    transaction_id: r.transaction_id,
+    sender_id: r.sender_id,
+    receiver_id: r.receiver_id,
+    amount: parseFloat(r.amount),
+    timestamp: new Date(r.timestamp),
+  }));
+}
+
+// A few hubs trading with many counterparties, with minute-resolution timestamps so ties are common
+function hubTransactions(seed: number): Transaction[] {
+  seedRandom(seed);
+  const base = Date.UTC(2024, 0, 1);
+  const txs: Transaction[] = [];
+  for (let i = 0; i < 1500; i++) {
+    const hub = `HUB_${Math.floor(Math.random() * 3)}`;
+    const other = `ACC_${Math.floor(Math.random() * 60)}`;
+    const outbound = Math.random() < 0.5;
+    txs.push({
+      transaction_id: `TXN_${i}`,
+      sender_id: outbound ? hub : other,
+      receiver_id: outbound ? other : hub,
+      amount: 100 + Math.floor(Math.random() * 900),
+      timestamp: new Date(base + Math.floor(Math.random() * 14 * 24 * 60) * 60000),
+    });
+  }
+  vi.restoreAllMocks();
+  return txs;
+}
+
+// Account patterns only: smurfing rings deliberately differ from the legacy global ring
+function run(detector: Detector, transactions: Transaction[], params: DetectorParams) {
+  const output = detector.run({ transactions } as DetectorContext, params, () => {});
+  return Array.from(output.accountPatterns.entries());
+}
+
+function legacy(fn: (txs: Transaction[], params: DetectorParams) => DetectorOutput, transactions: Transaction[], params: DetectorParams) {
+  return Array.from(fn(transactions, params).accountPatterns.entries());
+}
+
+const CASES: [string, Detector, (txs: Transaction[], params: DetectorParams) => DetectorOutput, DetectorParams[]][] = [
+  ["smurfing", smurfingDetector as Detector, legacySmurfing, [{ windowHours: 6, minCounterparties: 2 }, { windowHours: 240, minCounterparties: 5 }]],
+  ["high velocity", highVelocityDetector as Detector, legacyHighVelocity, [{ windowMinutes: 240, minTransactions: 2 }]],
+  [
+    "dormant activation",
+    dormantActivationDetector as Detector,
+    legacyDormantActivation,
+    [{ minDatasetDays: 1, burstWindowHours: 12, minTransactions: 2, burstShare: 0.3, minSpanMultiple: 1 }],
+  ],
+];
+
+describe("sliding-window detectors", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  for (const [name, detector, reference, extraParams] of CASES) {
+    const paramSets = [defaultParams(detector.configSchema), ...extraParams];
+
+    it(`${name} matches the previous implementation on the sample data`, () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const transactions = sampleTransactions(seed);
+        for (const params of paramSets) {
+          expect(run(detector, transactions, params)).toEqual(legacy(reference, transactions, params));
+        }
+      }
+    });
+
+    it(`${name} matches the previous implementation on hub-heavy data`, () => {
+      for (let seed = 1; seed <= 5; seed++) {
+        const transactions = hubTransactions(seed);
+        for (const params of paramSets) {
+          expect(run(detector, transactions, params)).toEqual(legacy(reference, transactions, params));
+        }
+      }
+    });
+  }
+});
+
+describe("smurfing rings", () => {
+  const base = Date.UTC(2024, 0, 1);
+  const HOUR = 60 * 60 * 1000;
+  const tx = (id: string, sender: string, receiver: string, amount: number, hours: number): Transaction => ({
+    transaction_id: id,
+    sender_id: sender,
+    receiver_id: receiver,
+    amount,
+    timestamp: new Date(base + hours * HOUR),
+  });
+  const params = defaultParams(smurfingDetector.configSchema);
+  const rings = (transactions: Transaction[]) =>
+    (smurfingDetector as Detector).run({ transactions } as DetectorContext, params, () => {}).rings;
+
+  it("builds one ring per hub with its sources, targets and window", () => {
+    const result = rings([
+      tx("T1", "S1", "HUB_A", 900, 0),
+      tx("T2", "S2", "HUB_A", 900, 1),
+      tx("T3", "S3", "HUB_A", 900, 2),
+      tx("T4", "HUB_A", "OUT_1", 2500, 3),
+      tx("T5", "HUB_A", "OUT_2", 100, 200),
+      tx("T6", "S4", "HUB_B", 400, 10),
+      tx("T7", "S5", "HUB_B", 400, 11),
+      tx("T8", "S6", "HUB_B", 400, 12),
+    ]);
+    expect(result).toHaveLength(2);
+    const [a, b] = result;
+    expect(a.member_accounts).toEqual(["HUB_A", "S1", "S2", "S3", "OUT_1"]);
+    expect(a.evidence.transaction_ids).toEqual(["T1", "T2", "T3", "T4"]);
+    expect(a.evidence.window_start).toBe(new Date(base).toISOString());
+    expect(a.evidence.window_end).toBe(new Date(base + 3 * HOUR).toISOString());
+    expect(b.member_accounts).toEqual(["HUB_B", "S4", "S5", "S6"]);
+  });
+
+  it("scores more sources, uniform deposits and a fast exit higher", () => {
+    const deposits = (amounts: number[]) => amounts.map((a, i) => tx(`IN_${i}`, `S${i}`, "HUB", a, i));
+    const uniform = deposits([1000, 1000, 1000]);
+    const [fast] = rings([...uniform, tx("OUT", "HUB", "X", 3000, 3)]);
+    const [slow] = rings([...uniform, tx("OUT", "HUB", "X", 3000, 60)]);
+    const [kept] = rings(uniform);
+    const [uneven] = rings([...deposits([100, 1000, 5000]), tx("OUT", "HUB", "X", 6100, 3)]);
+    const [wide] = rings([...deposits(Array(10).fill(1000)), tx("OUT", "HUB", "X", 10000, 9)]);
+
+    expect(fast.risk_score).toBeGreaterThan(slow.risk_score);
+    expect(slow.risk_score).toBeGreaterThan(kept.risk_score);
+    expect(fast.risk_score).toBeGreaterThan(uneven.risk_score);
+    expect(wide.risk_score).toBeGreaterThan(fast.risk_score);
+    expect(wide.risk_score).toBe(100);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import Papa from "papaparse";
+import { analyzeTransactions } from "@/lib/graphAnalysis";
+import {
+  SYNTHETIC_TYPOLOGIES,
+  buildLabelsCSV,
+  generateSyntheticData,
+  getDefaultSyntheticConfig,
+  validateSyntheticConfig,
+} from "@/lib/sampleData";
+import { Transaction } from "@/lib/types";
+
+function parseTransactions(csv: string): Transaction[] {
+  return Papa.parse<Record<string, string>>(csv, { header: true, skipEmptyLines: true }).data.map((r) => ({
+    transaction_id: r.transaction_id,
+    sender_id: r.sender_id,
+    receiver_id: r.receiver_id,
+    amount: parseFloat(r.amount),
+    timestamp: new Date(r.timestamp),
+  }));
+}
+
+describe("synthetic data generator", () => {
+  it("gives the same dataset for the same seed and a different one for another", () => {
+    const a = generateSyntheticData(getDefaultSyntheticConfig(7));
+    expect(generateSyntheticData(getDefaultSyntheticConfig(7))).toEqual(a);
+    expect(generateSyntheticData(getDefaultSyntheticConfig(8)).csv).not.toBe(a.csv);
+  });
+
+  it("labels every account in the transactions exactly once", () => {
+    const config = getDefaultSyntheticConfig(3);
+    config.typologies.smurfing.count = 4;
+    config.typologies.cycle.length = 5;
+    const { csv, labels, transaction_count } = generateSyntheticData(config);
+    const transactions = parseTransactions(csv);
+    expect(transactions).toHaveLength(transaction_count);
+    expect(new Set(labels.map((l) => l.account_id)).size).toBe(labels.length);
+    const labelled = new Set(labels.map((l) => l.account_id));
+    for (const t of transactions) {
+      expect(labelled.has(t.sender_id) && labelled.has(t.receiver_id)).toBe(true);
+    }
+    expect(new Set(labels.filter((l) => l.typology === "smurfing").map((l) => l.instance_id)).size).toBe(4);
+    expect(labels.filter((l) => l.role === "cycle_member")).toHaveLength(5);
+    expect(buildLabelsCSV(labels).split(/\r?\n/)[0]).toBe("account_id,is_mule,typology,instance_id,role");
+  });
+
+  it("injects typologies the default detectors find", () => {
+    for (const seed of [1, 2, 3]) {
+      const { csv, labels } = generateSyntheticData(getDefaultSyntheticConfig(seed));
+      const flagged = new Set(analyzeTransactions(parseTransactions(csv)).suspicious_accounts.map((a) => a.account_id));
+      for (const typology of SYNTHETIC_TYPOLOGIES) {
+        const mules = labels.filter((l) => l.typology === typology.id && l.is_mule);
+        expect(mules.some((m) => flagged.has(m.account_id))).toBe(true);
+      }
+    }
+  });
+
+  it("rejects out-of-range settings", () => {
+    const config = getDefaultSyntheticConfig(1);
+    config.accounts = 1;
+    config.typologies.velocity.sends = 2.5;
+    expect(validateSyntheticConfig(config).map((i) => `${i.detector}.${i.key}`)).toEqual(["background.accounts", "velocity.sends"]);
+    expect(validateSyntheticConfig(getDefaultSyntheticConfig(1))).toEqual([]);
+  });
+
+  it("rejects a scenario that would produce no transactions", () => {
+    const config = getDefaultSyntheticConfig(1);
+    config.transactions = 0;
+    for (const t of SYNTHETIC_TYPOLOGIES) config.typologies[t.id].count = 0;
+    expect(validateSyntheticConfig(config).map((i) => `${i.detector}.${i.key}`)).toEqual(["background.transactions"]);
+    config.typologies.cycle.count = 1;
+    expect(validateSyntheticConfig(config)).toEqual([]);
+    expect(generateSyntheticData(config).transaction_count).toBeGreaterThan(0);
+  });
+});
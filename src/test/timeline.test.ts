@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { filterResultByWindow, runningBalances, stepAt, timeBounds, transferTimes, visibleEdges } from "@/lib/timeline";
+import { AnalysisResult, GraphEdge, SuspiciousAccount } from "@/lib/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const BASE = Date.UTC(2024, 0, 1);
+
+function edge(id: string, source: string, target: string, amount: number, hour: number): GraphEdge {
+  return {
+    source,
+    target,
+    amount,
+    transactionId: id,
+    timestamp: new Date(BASE + hour * HOUR_MS),
+    originalAmount: amount,
+    originalCurrency: "USD",
+  };
+}
+
+// A layering chain A -> B -> C -> D, one hop every two hours, plus an unrelated transfer later on
+const edges = [
+  edge("T1", "A", "B", 1000, 0),
+  edge("T2", "B", "C", 950, 2),
+  edge("T3", "C", "D", 900, 4),
+  edge("T4", "X", "Y", 50, 10),
+];
+
+function evidenceAt(startHour: number, endHour: number) {
+  return {
+    transaction_ids: [],
+    window_start: new Date(BASE + startHour * HOUR_MS).toISOString(),
+    window_end: new Date(BASE + endHour * HOUR_MS).toISOString(),
+  };
+}
+
+describe("timeline playback", () => {
+  it("reveals transfers inside the window up to the playhead", () => {
+    const window = { start: BASE + HOUR_MS, end: BASE + 5 * HOUR_MS };
+    expect(timeBounds(edges)).toEqual({ start: BASE, end: BASE + 10 * HOUR_MS });
+    expect(visibleEdges(edges, window, null).map((e) => e.transactionId)).toEqual(["T2", "T3"]);
+    expect(visibleEdges(edges, window, BASE + 3 * HOUR_MS).map((e) => e.transactionId)).toEqual(["T2"]);
+    expect(visibleEdges(edges, null, null)).toBe(edges);
+  });
+
+  it("steps the playhead through distinct transfer times", () => {
+    const times = transferTimes(edges, null);
+    expect(times).toHaveLength(4);
+    expect(stepAt(times, null)).toBe(-1);
+    expect(stepAt(times, BASE - 1)).toBe(-1);
+    expect(stepAt(times, BASE + 3 * HOUR_MS)).toBe(1);
+    expect(stepAt(times, BASE + 10 * HOUR_MS)).toBe(3);
+  });
+
+  it("tracks balances as money moves down the chain", () => {
+    const balances = runningBalances(visibleEdges(edges, null, BASE + 2 * HOUR_MS));
+    expect(Object.fromEntries(balances)).toEqual({ A: -1000, B: 50, C: 950 });
+  });
+
+  it("keeps only detections with evidence in the window", () => {
+    const account = (account_id: string, evidence: ReturnType<typeof evidenceAt>): SuspiciousAccount => ({
+      account_id,
+      suspicion_score: 50,
+      detected_patterns: ["layered_shell"],
+      ring_id: "RING_001",
+      score_contributions: [],
+      evidence: [{ pattern: "layered_shell", ...evidence }],
+    });
+    const result = {
+      suspicious_accounts: [account("B", evidenceAt(0, 4)), account("X", evidenceAt(10, 10))],
+      fraud_rings: [{ ring_id: "RING_001", member_accounts: ["A", "B", "C", "D"], pattern_type: "layered_shell", risk_score: 80, evidence: evidenceAt(0, 4) }],
+    } as unknown as AnalysisResult;
+
+    const filtered = filterResultByWindow(result, { start: BASE + 3 * HOUR_MS, end: BASE + 6 * HOUR_MS });
+    expect(filtered.suspicious_accounts.map((a) => a.account_id)).toEqual(["B"]);
+    expect(filtered.fraud_rings).toHaveLength(1);
+    expect(filterResultByWindow(result, { start: BASE + 8 * HOUR_MS, end: BASE + 12 * HOUR_MS }).fraud_rings).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendTransaction,
+  createTransactionStore,
+  getTransaction,
+  storeFromTransactions,
+  storeToTransactions,
+  trimTransactionStore,
+} from "@/lib/transactionStore";
+import { Transaction } from "@/lib/types";
+
+function tx(i: number, sender_id: string, receiver_id: string, currency?: string): Transaction {
+  return {
+    transaction_id: `T${i}`,
+    sender_id,
+    receiver_id,
+    amount: 100 + i,
+    timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+    ...(currency ? { original_amount: 90 + i, original_currency: currency } : {}),
+  };
+}
+
+describe("transaction store", () => {
+  it("interns accounts and currencies and reads rows back", () => {
+    const store = storeFromTransactions([tx(1, "A", "B"), tx(2, "B", "C", "EUR"), tx(3, "A", "C", "EUR")], "USD");
+    expect(store.length).toBe(3);
+    expect(store.accountIds).toEqual(["A", "B", "C"]);
+    expect(Array.from(store.senders.subarray(0, 3))).toEqual([0, 1, 0]);
+    expect(store.currencyCodes).toEqual(["USD", "EUR"]);
+    // Rows without an original amount keep their reporting amount in that column
+    expect(getTransaction(store, 0)).toEqual({ ...tx(1, "A", "B"), original_amount: 101, original_currency: "USD" });
+    expect(getTransaction(store, 2)).toEqual(tx(3, "A", "C", "EUR"));
+    expect(storeToTransactions(store).map((t) => t.transaction_id)).toEqual(["T1", "T2", "T3"]);
+  });
+
+  it("grows past its initial capacity without losing rows", () => {
+    const store = createTransactionStore(1);
+    const capacity = store.amounts.length;
+    for (let i = 0; i <= capacity; i++) appendTransaction(store, tx(i, `S${i % 7}`, `R${i % 5}`));
+    expect(store.length).toBe(capacity + 1);
+    expect(store.amounts.length).toBe(capacity * 2);
+    expect(getTransaction(store, capacity)).toMatchObject({ transaction_id: `T${capacity}`, sender_id: `S${capacity % 7}` });
+    expect(store.accountIds).toHaveLength(12);
+  });
+
+  it("trims the spare capacity into an independent copy", () => {
+    const store = storeFromTransactions([tx(1, "A", "B"), tx(2, "B", "C")]);
+    const trimmed = trimTransactionStore(store);
+    expect(trimmed.amounts.length).toBe(2);
+    expect(trimmed.timestamps.buffer).not.toBe(store.timestamps.buffer);
+    expect(storeToTransactions(trimmed)).toEqual(storeToTransactions(store));
+
+    appendTransaction(store, tx(3, "C", "D"));
+    expect(trimmed.length).toBe(2);
+    expect(trimmed.accountIds).toEqual(["A", "B", "C"]);
+    expect(trimmed.accountIndex.has("D")).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { analyzeTransactions, buildGraphData } from "@/lib/graphAnalysis";
+import { storeToTransactions } from "@/lib/transactionStore";
+import { generateSyntheticData } from "@/lib/sampleData";
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from "@/lib/analysisClient";
+
+const ctx = self as unknown as Worker;
+
+function post(message: AnalysisWorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer);
+}
+
+ctx.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === "generate") {
+      post({ type: "dataset", dataset: generateSyntheticData(request.config) });
+      return;
+    }
+    // The detectors work on row objects; this is the only place the store is expanded into them
+    const transactions = storeToTransactions(request.store);
+    const result = analyzeTransactions(transactions, {
+      reportingCurrency: request.store.reportingCurrency,
+      config: request.config,
+      entitySettings: request.entitySettings,
+      profiles: request.profiles,
+      onProgress: (progress) => post({ type: "progress", progress }),
+    });
+    const { nodes, edges } = buildGraphData(request.store, result, request.profiles);
+    // Edges go back as store rows; the page expands them from its own copy of the store
+    post({ type: "result", output: { result, nodes, edges } }, [edges.rows.buffer]);
+  } catch (e) {
+    post({ type: "error", message: (e as Error).message || "Analysis failed" });
+  }
+};
@@ -0,0 +1,17 @@
+import { layoutGraph } from "@/lib/graphLayout";
+import type { LayoutRequest } from "@/lib/graphLayout";
+import type { LayoutWorkerResponse } from "@/lib/layoutClient";
+
+const ctx = self as unknown as Worker;
+
+function post(message: LayoutWorkerResponse) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  try {
+    post({ type: "result", positions: layoutGraph(event.data) });
+  } catch (e) {
+    post({ type: "error", message: (e as Error).message || "Layout failed" });
+  }
+};